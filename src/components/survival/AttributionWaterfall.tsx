@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  type TooltipProps
+} from 'recharts';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { motion } from 'framer-motion';
+import type { PredictionAttribution } from '@/lib/attribution';
+
+interface AttributionWaterfallProps {
+  attribution: PredictionAttribution;
+  /** Number of features shown individually; the rest are grouped */
+  maxFeatures?: number;
+}
+
+interface WaterfallBar {
+  name: string;
+  range: [number, number];
+  delta: number;
+  kind: 'baseline' | 'increase' | 'decrease' | 'total';
+}
+
+const BAR_COLORS = {
+  baseline: '#969696',
+  total: '#3b3b3b',
+  increase: 'hsl(var(--risk-high))',
+  decrease: 'hsl(var(--risk-low))'
+};
+
+const formatValue = (value: number) =>
+  Number.isNaN(value) ? <span className="text-muted-foreground italic">NA</span> : value.toFixed(4);
+
+export function AttributionWaterfall({ attribution, maxFeatures = 10 }: AttributionWaterfallProps) {
+  const { method, baseline, prediction, contributions } = attribution;
+  const additive = method === 'tree-path';
+  const { shown, rest } = useMemo(() => ({
+    shown: contributions.slice(0, maxFeatures).filter(c => c.contribution !== 0),
+    rest: contributions.slice(maxFeatures)
+  }), [contributions, maxFeatures]);
+
+  const bars = useMemo(() => {
+    const result: WaterfallBar[] = [{ name: 'Baseline', range: [0, baseline], delta: baseline, kind: 'baseline' }];
+    let running = baseline;
+    const push = (name: string, delta: number) => {
+      result.push({
+        name,
+        range: delta >= 0 ? [running, running + delta] : [running + delta, running],
+        delta,
+        kind: delta >= 0 ? 'increase' : 'decrease'
+      });
+      running += delta;
+    };
+
+    shown.forEach(c => push(c.feature, c.contribution));
+    const otherDelta = rest.reduce((sum, c) => sum + c.contribution, 0);
+    if (additive && rest.length > 0 && otherDelta !== 0) push(`${rest.length} other features`, otherDelta);
+    result.push({ name: 'Prediction', range: [0, prediction], delta: prediction, kind: 'total' });
+    return result;
+  }, [shown, rest, baseline, prediction, additive]);
+
+  const WaterfallTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    const bar = payload?.[0]?.payload as WaterfallBar | undefined;
+    if (!active || !bar) return null;
+    return (
+      <div className="glass-card rounded-lg p-3 shadow-lg text-sm">
+        <p className="font-medium">{bar.name}</p>
+        <p className="font-mono text-xs text-muted-foreground">
+          {bar.kind === 'increase' || bar.kind === 'decrease'
+            ? `${bar.delta >= 0 ? '+' : ''}${bar.delta.toFixed(4)}`
+            : bar.delta.toFixed(4)}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="glass-card rounded-xl p-5"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h4 className="text-sm font-medium text-muted-foreground">Feature Contributions to Risk Score</h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            {additive
+              ? 'Tree-path attribution: contributions add up from the forest baseline to this prediction.'
+              : 'Median substitution: change in risk when each feature is set to its training median. Contributions do not add up.'}
+          </p>
+        </div>
+        <Badge variant="outline" className="font-mono text-xs shrink-0">
+          {additive ? 'tree path' : 'median substitution'}
+        </Badge>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div style={{ height: Math.max(200, bars.length * 28) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={bars} layout="vertical" margin={{ top: 0, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} horizontal={false} />
+              <XAxis
+                type="number"
+                domain={['auto', 'auto']}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                tickLine={{ stroke: 'hsl(var(--border))' }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                tickFormatter={(v) => v.toFixed(2)}
+              />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={140}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                tickLine={false}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              <ReferenceLine x={baseline} stroke="hsl(var(--border))" strokeDasharray="5 5" />
+              <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }} />
+              <Bar dataKey="range" isAnimationActive={false}>
+                {bars.map(bar => (
+                  <Cell key={bar.name} fill={BAR_COLORS[bar.kind]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Feature</TableHead>
+              <TableHead className="text-xs text-right">Raw</TableHead>
+              <TableHead className="text-xs text-right">Model input</TableHead>
+              <TableHead className="text-xs text-right">Contribution</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map(c => (
+              <TableRow key={c.feature}>
+                <TableCell className="text-xs font-mono">
+                  {c.feature}
+                  {c.imputed && <Badge variant="outline" className="ml-2 text-[10px] border-risk-medium text-risk-medium">imputed</Badge>}
+                </TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatValue(c.raw)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatValue(c.value)}</TableCell>
+                <TableCell className={`text-right font-mono text-xs ${c.contribution > 0 ? 'text-risk-high' : 'text-risk-low'}`}>
+                  {c.contribution > 0 ? '+' : ''}{c.contribution.toFixed(4)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ErrorBar,
+  type TooltipProps
+} from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { motion } from 'framer-motion';
+import { CALIBRATION_BIN_COUNTS, type CalibrationBin, type CalibrationSummary } from '@/lib/evaluation';
+
+interface CalibrationPlotProps {
+  /** Calibration per timepoint and bin count, from `evaluatePredictions` */
+  calibration: CalibrationSummary[];
+  /** Years offered in the timepoint picker */
+  years: number[];
+}
+
+const formatMetric = (value: number) => (Number.isFinite(value) ? value.toFixed(3) : '—');
+
+export function CalibrationPlot({ calibration: summaries, years }: CalibrationPlotProps) {
+  const [year, setYear] = useState(years[0] ?? 1);
+  const [binCount, setBinCount] = useState(5);
+
+  useEffect(() => {
+    if (years.length > 0 && !years.includes(year)) setYear(years[0]);
+  }, [years, year]);
+
+  const calibration = useMemo(
+    () => summaries.find(summary => summary.time === year * 365 && summary.binCount === binCount) ?? null,
+    [summaries, year, binCount]
+  );
+
+  const points = useMemo(
+    () => (calibration?.bins ?? []).map(bin => ({
+      ...bin,
+      error: [bin.observed - bin.lower, bin.upper - bin.observed]
+    })),
+    [calibration]
+  );
+
+  const CalibrationTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    const bin = payload?.[0]?.payload as CalibrationBin | undefined;
+    if (!active || !bin) return null;
+
+    return (
+      <div className="glass-card rounded-lg p-3 shadow-lg text-sm">
+        <p className="text-xs font-medium text-muted-foreground mb-1">
+          {bin.n} patients, {bin.events} events by year {year}
+        </p>
+        <p>Predicted: {(bin.predicted * 100).toFixed(1)}%</p>
+        <p>
+          Observed: {(bin.observed * 100).toFixed(1)}%
+          <span className="text-muted-foreground text-xs ml-1">
+            ({(bin.lower * 100).toFixed(1)}–{(bin.upper * 100).toFixed(1)}%)
+          </span>
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="chart-container"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-header">Calibration</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Mean predicted vs Kaplan–Meier observed survival per bin of predicted S(t). Points below the diagonal mean the model over-predicts survival.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(year)} onValueChange={v => setYear(Number(v))}>
+            <SelectTrigger className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(y => (
+                <SelectItem key={y} value={String(y)} className="text-xs">Year {y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(binCount)} onValueChange={v => setBinCount(Number(v))}>
+            <SelectTrigger className="w-[110px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CALIBRATION_BIN_COUNTS.map(n => (
+                <SelectItem key={n} value={String(n)} className="text-xs">{n} bins</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {calibration ? (
+        <>
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-3 mb-4">
+            {[
+              { label: 'Slope', value: calibration.slope },
+              { label: 'Intercept', value: calibration.intercept },
+              { label: 'ICI', value: calibration.ici },
+              { label: 'E50', value: calibration.e50 },
+              { label: 'E90', value: calibration.e90 }
+            ].map(metric => (
+              <div key={metric.label} className="rounded-lg bg-muted/50 px-3 py-2">
+                <p className="text-xs text-muted-foreground">{metric.label}</p>
+                <p className="font-mono text-sm font-semibold">{formatMetric(metric.value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-[320px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="predicted"
+                  type="number"
+                  domain={[0, 1]}
+                  name="Predicted"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickLine={{ stroke: 'hsl(var(--border))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                  label={{
+                    value: `Predicted S(${year}y)`,
+                    position: 'insideBottomRight',
+                    offset: -5,
+                    fill: 'hsl(var(--muted-foreground))',
+                    fontSize: 11
+                  }}
+                />
+                <YAxis
+                  dataKey="observed"
+                  type="number"
+                  domain={[0, 1]}
+                  name="Observed"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickLine={{ stroke: 'hsl(var(--border))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                />
+                <ReferenceLine
+                  segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]}
+                  stroke="hsl(var(--border))"
+                  strokeDasharray="5 5"
+                />
+                <Tooltip content={<CalibrationTooltip />} />
+                <Scatter data={points} fill="#3b3b3b" line={{ stroke: '#787878' }} isAnimationActive={false}>
+                  <ErrorBar dataKey="error" direction="y" width={4} stroke="#787878" />
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Not enough patients to calibrate.</p>
+      )}
+    </motion.div>
+  );
+}
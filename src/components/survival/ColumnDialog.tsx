@@ -0,0 +1,162 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { applyEdits, type DataEdit, type EditableTable } from '@/lib/data-history';
+import {
+  addColumnEdits,
+  columnNameError,
+  formulaEdits,
+  previewFormula,
+  renameColumnEdits
+} from '@/lib/column-edits';
+import { EXPRESSION_FUNCTIONS } from '@/lib/expressions';
+
+interface ColumnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: EditableTable;
+  /** Column to rename or re-derive; null adds a new column */
+  column: string | null;
+  onCommit: (label: string, edits: DataEdit[]) => void;
+}
+
+/** Rows evaluated for the formula preview */
+const PREVIEW_ROWS = 5;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export function ColumnDialog({ open, onOpenChange, table, column, onCommit }: ColumnDialogProps) {
+  const [name, setName] = useState('');
+  const [derived, setDerived] = useState(false);
+  const [formula, setFormula] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(column ?? '');
+    setDerived(!!column && column in table.formulas);
+    setFormula(column ? table.formulas[column] ?? '' : '');
+  }, [open, column, table.formulas]);
+
+  const nameError = open ? columnNameError(table, name, column ?? undefined) : null;
+
+  // Edits for the whole dialog, or the first problem found while building them
+  const result = useMemo((): { edits: DataEdit[]; preview: unknown[] } | { error: string } | null => {
+    if (!open || nameError) return null;
+    const nextFormula = derived ? formula.trim() : null;
+    if (derived && !nextFormula) return { error: 'Enter a formula' };
+    try {
+      if (column === null) {
+        const edits = addColumnEdits(table, name, nextFormula);
+        const preview = nextFormula ? previewFormula(table, name, nextFormula, PREVIEW_ROWS) : [];
+        return { edits, preview };
+      }
+      const renamed = renameColumnEdits(table, column, name);
+      const renamedTable = applyEdits(table, renamed);
+      const edits = [...renamed, ...formulaEdits(renamedTable, name, nextFormula)];
+      const preview = nextFormula ? previewFormula(renamedTable, name, nextFormula, PREVIEW_ROWS) : [];
+      return { edits, preview };
+    } catch (error) {
+      return { error: errorMessage(error) };
+    }
+  }, [open, nameError, derived, formula, column, table, name]);
+
+  const handleSave = () => {
+    if (!result || !('edits' in result) || result.edits.length === 0) return;
+    const formulaChanged = column !== null && (derived ? formula.trim() : null) !== (table.formulas[column] ?? null);
+    const label = column === null
+      ? `Add ${derived ? 'derived ' : ''}column ${name}`
+      : name === column
+        ? `Edit formula of ${name}`
+        : formulaChanged ? `Edit column ${name}` : `Rename ${column} to ${name}`;
+    onCommit(label, result.edits);
+    onOpenChange(false);
+  };
+
+  const error = result && 'error' in result ? result.error : null;
+  const preview = result && 'preview' in result ? result.preview : [];
+  const canSave = !!result && 'edits' in result && result.edits.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{column === null ? 'Add Column' : `Edit Column ${column}`}</DialogTitle>
+          <DialogDescription>
+            Derived columns are computed from a formula and recompute whenever their source cells change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="column-name" className="text-sm">Name</Label>
+            <Input
+              id="column-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleSave()}
+              className="h-9 font-mono text-sm"
+              autoFocus
+            />
+            {name && nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="column-derived" checked={derived} onCheckedChange={setDerived} />
+            <Label htmlFor="column-derived" className="text-sm">Derived from a formula</Label>
+          </div>
+
+          {derived && (
+            <div className="space-y-1.5">
+              <Label htmlFor="column-formula" className="text-sm">Formula</Label>
+              <Input
+                id="column-formula"
+                value={formula}
+                onChange={e => setFormula(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSave()}
+                placeholder="parseStageOrdinal(Stage)"
+                className="h-9 font-mono text-sm"
+              />
+              <p className="text-[11px] text-muted-foreground">
+                Operators + − * / ^ % &lt; &gt; == != &amp;&amp; ||; write column names with spaces or symbols in `backticks`.
+                Functions: {EXPRESSION_FUNCTIONS.join(', ')}.
+              </p>
+              {error ? (
+                <p className="text-xs text-destructive">{error}</p>
+              ) : preview.length > 0 && (
+                <p className="text-xs text-muted-foreground font-mono">
+                  Preview: {preview.map(v => (v === null || v === undefined ? 'NA' : String(v))).join(', ')}
+                  {table.rows.length > PREVIEW_ROWS && ', …'}
+                </p>
+              )}
+            </div>
+          )}
+          {!derived && error && <p className="text-xs text-destructive">{error}</p>}
+          {column !== null && column in table.formulas && !derived && (
+            <p className="text-xs text-muted-foreground">
+              The column keeps its current values but no longer recomputes.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {column === null ? 'Add Column' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { alignSchema, type ColumnMapping } from '@/lib/schema-mapping';
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  features: string[];
+  mapping: ColumnMapping | null;
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+}
+
+// Radix Select does not allow empty item values
+const UNMAPPED = '__unmapped__';
+
+export function ColumnMappingDialog({
+  open,
+  onOpenChange,
+  columns,
+  features,
+  mapping,
+  onConfirm
+}: ColumnMappingDialogProps) {
+  const alignment = useMemo(() => alignSchema(columns, features), [columns, features]);
+  const [draft, setDraft] = useState<ColumnMapping>({});
+  const [remember, setRemember] = useState(true);
+
+  // Start from the current mapping, pre-filling suggestions for unmapped features
+  useEffect(() => {
+    if (!open) return;
+    const initial: ColumnMapping = { ...alignment.mapping, ...mapping };
+    alignment.suggestions.forEach(s => {
+      if (!initial[s.feature]) initial[s.feature] = s.column;
+    });
+    setDraft(initial);
+  }, [open, alignment, mapping]);
+
+  const suggestionReasons = useMemo(
+    () => Object.fromEntries(alignment.suggestions.map(s => [s.feature, s.reason])),
+    [alignment]
+  );
+
+  const usedColumns = new Set(Object.values(draft).filter((c): c is string => !!c));
+  const mappedCount = features.filter(f => draft[f]).length;
+  const extraColumns = columns.filter(c => !usedColumns.has(c));
+
+  const getStatus = (feature: string) => {
+    if (!draft[feature]) return 'missing';
+    return draft[feature] === feature ? 'matched' : 'mapped';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Column Mapping</DialogTitle>
+          <DialogDescription>
+            Match each model feature to a column in the uploaded data. Unmapped features are imputed from the bundle medians.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline">{alignment.required.length} required</Badge>
+          <Badge variant="outline" className="border-risk-low text-risk-low bg-risk-low/10">
+            {alignment.matched.length} matched
+          </Badge>
+          <Badge variant="outline" className="border-risk-medium text-risk-medium bg-risk-medium/10">
+            {alignment.suggestions.length} suggested
+          </Badge>
+          <Badge variant="outline" className="border-risk-high text-risk-high bg-risk-high/10">
+            {features.length - mappedCount} missing
+          </Badge>
+          <Badge variant="outline">{extraColumns.length} extra</Badge>
+        </div>
+
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {features.map(feature => {
+              const status = getStatus(feature);
+              return (
+                <div key={feature} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate" title={feature}>{feature}</p>
+                    {suggestionReasons[feature] && draft[feature] && status === 'mapped' && (
+                      <p className="text-xs text-muted-foreground">{suggestionReasons[feature]}</p>
+                    )}
+                  </div>
+                  <Select
+                    value={draft[feature] ?? UNMAPPED}
+                    onValueChange={v => setDraft(prev => ({ ...prev, [feature]: v === UNMAPPED ? null : v }))}
+                  >
+                    <SelectTrigger
+                      className={cn(
+                        "w-[240px] h-8 text-xs",
+                        status === 'missing' && "border-risk-high/50",
+                        status === 'mapped' && "border-risk-medium/50"
+                      )}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED} className="text-xs italic">
+                        Not provided (impute)
+                      </SelectItem>
+                      {columns.map(col => (
+                        <SelectItem
+                          key={col}
+                          value={col}
+                          className="text-xs"
+                          disabled={usedColumns.has(col) && draft[feature] !== col}
+                        >
+                          {col}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {extraColumns.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Extra columns not used by the model: {extraColumns.slice(0, 10).join(', ')}
+            {extraColumns.length > 10 && ` and ${extraColumns.length - 10} more`}
+          </p>
+        )}
+
+        <DialogFooter className="items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Checkbox id="remember-mapping" checked={remember} onCheckedChange={v => setRemember(v === true)} />
+            <Label htmlFor="remember-mapping" className="text-xs">
+              Reuse for files with the same headers
+            </Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(draft, remember)}>
+              Confirm Mapping
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
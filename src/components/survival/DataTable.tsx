@@ -11,21 +11,30 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
-import { Search, ChevronUp, ChevronDown } from 'lucide-react';
+import { riskGroupTone } from '@/lib/risk-groups';
+import { Search, ChevronUp, ChevronDown, AlertTriangle } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface PatientResult {
   patientId: string;
+  rowIndex: number;
   riskScore: number;
-  riskGroup: 'Low' | 'Intermediate' | 'High' | null;
+  riskGroup: string | null;
   survivalProbabilities: { year: number; probability: number }[];
+  imputedFeatures: string[];
+  imputationFlag: boolean;
 }
 
 interface DataTableProps {
   data: PatientResult[];
   timepoints: number[];
-  onSelectPatient?: (patientId: string) => void;
-  selectedPatient?: string;
+  /** Patients are identified by their row index, since display IDs may repeat */
+  onSelectPatient?: (rowIndex: number) => void;
+  selectedPatient?: number;
+  /** Group labels from lowest to highest risk, used for sorting and badge colours */
+  riskGroups?: string[];
+  /** Patients outside the training distribution, with the reason shown on hover */
+  outliers?: Map<number, string>;
 }
 
 type SortField = 'patientId' | 'riskScore' | 'riskGroup';
@@ -35,7 +44,9 @@ export function DataTable({
   data,
   timepoints,
   onSelectPatient,
-  selectedPatient
+  selectedPatient,
+  riskGroups = ['Low', 'Intermediate', 'High'],
+  outliers
 }: DataTableProps) {
   const [search, setSearch] = useState('');
   const [sortField, setSortField] = useState<SortField>('patientId');
@@ -57,8 +68,7 @@ export function DataTable({
           comparison = a.riskScore - b.riskScore;
           break;
         case 'riskGroup':
-          const order = { Low: 0, Intermediate: 1, High: 2 };
-          comparison = (order[a.riskGroup || 'Low'] || 0) - (order[b.riskGroup || 'Low'] || 0);
+          comparison = riskGroups.indexOf(a.riskGroup ?? '') - riskGroups.indexOf(b.riskGroup ?? '');
           break;
       }
       
@@ -66,7 +76,7 @@ export function DataTable({
     });
 
     return filtered;
-  }, [data, search, sortField, sortDirection]);
+  }, [data, search, sortField, sortDirection, riskGroups]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -84,20 +94,11 @@ export function DataTable({
       : <ChevronDown className="w-3 h-3 ml-1" />;
   };
 
-  const getRiskBadgeVariant = (riskGroup: string | null) => {
-    switch (riskGroup) {
-      case 'Low': return 'outline';
-      case 'Intermediate': return 'secondary';
-      case 'High': return 'destructive';
-      default: return 'outline';
-    }
-  };
-
   const getRiskBadgeClass = (riskGroup: string | null) => {
-    switch (riskGroup) {
-      case 'Low': return 'border-risk-low text-risk-low bg-risk-low/10';
-      case 'Intermediate': return 'border-risk-medium text-risk-medium bg-risk-medium/10';
-      case 'High': return 'border-risk-high text-risk-high bg-risk-high/10';
+    switch (riskGroupTone(riskGroup, riskGroups)) {
+      case 'low': return 'border-risk-low text-risk-low bg-risk-low/10';
+      case 'medium': return 'border-risk-medium text-risk-medium bg-risk-medium/10';
+      case 'high': return 'border-risk-high text-risk-high bg-risk-high/10';
       default: return '';
     }
   };
@@ -159,21 +160,31 @@ export function DataTable({
                   S(t={year}y)
                 </TableHead>
               ))}
+              <TableHead className="text-right">Imputed</TableHead>
             </TableRow>
           </TableHeader>
           
           <TableBody>
             {filteredAndSortedData.map((patient) => (
               <TableRow
-                key={patient.patientId}
-                onClick={() => onSelectPatient?.(patient.patientId)}
+                key={patient.rowIndex}
+                onClick={() => onSelectPatient?.(patient.rowIndex)}
                 className={cn(
                   "cursor-pointer transition-colors",
-                  selectedPatient === patient.patientId && "bg-primary/5"
+                  selectedPatient === patient.rowIndex && "bg-primary/5"
                 )}
               >
                 <TableCell className="font-medium">
                   {patient.patientId}
+                  {outliers?.has(patient.rowIndex) && (
+                    <Badge
+                      variant="outline"
+                      className="ml-2 text-[10px] px-1.5 py-0 border-risk-medium text-risk-medium bg-risk-medium/10"
+                      title={outliers.get(patient.rowIndex)}
+                    >
+                      OOD
+                    </Badge>
+                  )}
                 </TableCell>
                 <TableCell className="text-right font-mono text-sm">
                   {patient.riskScore.toFixed(4)}
@@ -195,6 +206,22 @@ export function DataTable({
                     {(sp.probability * 100).toFixed(1)}%
                   </TableCell>
                 ))}
+                <TableCell className="text-right font-mono text-sm">
+                  {patient.imputedFeatures.length === 0 ? (
+                    <span className="text-muted-foreground">—</span>
+                  ) : (
+                    <span
+                      className={cn(
+                        "inline-flex items-center gap-1",
+                        patient.imputationFlag && "text-risk-high"
+                      )}
+                      title={patient.imputedFeatures.join(', ')}
+                    >
+                      {patient.imputationFlag && <AlertTriangle className="w-3 h-3" />}
+                      {patient.imputedFeatures.length}
+                    </span>
+                  )}
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
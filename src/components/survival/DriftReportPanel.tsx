@@ -0,0 +1,210 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { OUTLIER_P_VALUE, PSI_THRESHOLDS, type DriftLevel, type DriftReport } from '@/lib/drift';
+
+interface DriftReportPanelProps {
+  report: DriftReport;
+  /** Patients in the uploaded cohort */
+  cohortSize: number;
+  /** Patients in the training cohort, when the bundle records it */
+  trainSize?: number;
+  rowLabel: (row: number) => string;
+}
+
+/** Outlier patients listed before the rest are collapsed into a count */
+const MAX_OUTLIERS = 50;
+
+const axisProps = {
+  tick: { fill: 'hsl(var(--muted-foreground))', fontSize: 11 },
+  tickLine: { stroke: 'hsl(var(--border))' },
+  axisLine: { stroke: 'hsl(var(--border))' }
+};
+
+const levelClass: Record<DriftLevel, string> = {
+  stable: 'border-risk-low text-risk-low bg-risk-low/10',
+  moderate: 'border-risk-medium text-risk-medium bg-risk-medium/10',
+  major: 'border-risk-high text-risk-high bg-risk-high/10'
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatPValue = (p: number) => (p < 0.001 ? '<0.001' : p.toFixed(3));
+
+export function DriftReportPanel({ report, cohortSize, trainSize, rowLabel }: DriftReportPanelProps) {
+  const [feature, setFeature] = useState(report.features[0]?.feature ?? '');
+
+  useEffect(() => {
+    if (!report.features.some(f => f.feature === feature)) setFeature(report.features[0]?.feature ?? '');
+  }, [report, feature]);
+
+  const selected = report.features.find(f => f.feature === feature) ?? null;
+  const histogram = useMemo(() => selected?.bins.map(bin => ({
+    label: bin.label,
+    training: bin.expected * 100,
+    cohort: bin.observed * 100
+  })) ?? [], [selected]);
+
+  const shifted = report.features.filter(f => f.level !== 'stable').length;
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+      <div className="glass-card rounded-xl p-5">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Feature Drift</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Cohort compared with the training distribution: population stability index (PSI) over the training
+              quantile bins, Kolmogorov–Smirnov test and missingness. PSI ≥ {PSI_THRESHOLDS.moderate} is a moderate
+              and ≥ {PSI_THRESHOLDS.major} a major shift.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="font-mono text-xs">n = {cohortSize}{trainSize ? ` vs ${trainSize}` : ''}</Badge>
+            <Badge variant="outline" className="font-mono text-xs">{shifted} of {report.features.length} shifted</Badge>
+          </div>
+        </div>
+
+        {report.features.length > 0 ? (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">PSI</TableHead>
+                  <TableHead className="text-right">KS D</TableHead>
+                  <TableHead className="text-right">KS p</TableHead>
+                  <TableHead className="text-right">Missing</TableHead>
+                  <TableHead className="text-right">Training Missing</TableHead>
+                  <TableHead>Drift</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.features.map(f => (
+                  <TableRow
+                    key={f.feature}
+                    onClick={() => setFeature(f.feature)}
+                    className={cn('cursor-pointer transition-colors', f.feature === feature && 'bg-primary/5')}
+                  >
+                    <TableCell className="font-mono text-xs">
+                      {f.feature}
+                      {f.column !== f.feature && <span className="text-muted-foreground"> ← {f.column}</span>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">{f.psi.toFixed(3)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{f.ks.statistic.toFixed(3)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatPValue(f.ks.pValue)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatPercent(f.missingRate)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatPercent(f.trainMissingRate)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('font-medium capitalize', levelClass[f.level])}>{f.level}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No feature has enough values in this cohort to compare.</p>
+        )}
+
+        {report.skipped.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Not compared: {report.skipped.map(s => `${s.feature} (${s.reason.toLowerCase()})`).join(', ')}.
+          </p>
+        )}
+      </div>
+
+      {selected && (
+        <div className="glass-card rounded-xl p-5">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Distribution</h4>
+              <p className="text-xs text-muted-foreground mt-1">
+                Share of training and cohort values in each training quantile bin of {selected.column}.
+              </p>
+            </div>
+            <Select value={feature} onValueChange={setFeature}>
+              <SelectTrigger className="w-[200px] h-8 font-mono text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {report.features.map(f => (
+                  <SelectItem key={f.feature} value={f.feature} className="font-mono text-xs">{f.feature}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} vertical={false} />
+                <XAxis dataKey="label" {...axisProps} interval={0} angle={-30} textAnchor="end" height={50} />
+                <YAxis {...axisProps} tickFormatter={(v) => `${v}%`} />
+                <Tooltip
+                  formatter={(value: number) => `${value.toFixed(1)}%`}
+                  cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="training" name="Training" fill="hsl(var(--muted-foreground))" fillOpacity={0.5} isAnimationActive={false} />
+                <Bar dataKey="cohort" name="Cohort" fill="hsl(var(--primary))" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="glass-card rounded-xl p-5">
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-muted-foreground">Out-of-Distribution Patients</h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            Patients whose feature vector is far from the training mean (Mahalanobis distance with the training
+            standard deviations, p &lt; {OUTLIER_P_VALUE}). Their predictions extrapolate beyond the training data.
+          </p>
+        </div>
+
+        {report.outliers.length > 0 ? (
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {report.outliers.slice(0, MAX_OUTLIERS).map(outlier => (
+              <div key={outlier.row} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{rowLabel(outlier.row)}</p>
+                  <p className="text-[11px] text-muted-foreground font-mono truncate">
+                    {outlier.features.map(f => `${f.feature} z=${f.z.toFixed(1)}`).join(', ')}
+                  </p>
+                </div>
+                <Badge variant="outline" className="font-mono text-xs shrink-0">
+                  D² {outlier.distance.toFixed(1)} · p {formatPValue(outlier.pValue)}
+                </Badge>
+              </div>
+            ))}
+            {report.outliers.length > MAX_OUTLIERS && (
+              <p className="text-xs text-muted-foreground">…and {report.outliers.length - MAX_OUTLIERS} more</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No patient is outside the training distribution.</p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
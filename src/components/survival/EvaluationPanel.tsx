@@ -0,0 +1,131 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { motion } from 'framer-motion';
+import { Gauge, Target } from 'lucide-react';
+import { MetricCard } from './MetricCard';
+import type { EvaluationSummary } from '@/lib/evaluation';
+
+interface EvaluationPanelProps {
+  evaluation: EvaluationSummary;
+}
+
+const formatMetric = (value: number) => (Number.isFinite(value) ? value.toFixed(3) : '—');
+
+export function EvaluationPanel({ evaluation }: EvaluationPanelProps) {
+  const { timepoints, integratedBrier, nullIntegratedBrier, brierCurve, range } = evaluation;
+  const finiteAucs = timepoints.map(t => t.auc).filter(Number.isFinite);
+  const meanAuc = finiteAucs.length > 0 ? finiteAucs.reduce((a, b) => a + b, 0) / finiteAucs.length : NaN;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6"
+    >
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard
+          label="Integrated Brier"
+          value={formatMetric(integratedBrier)}
+          icon={Gauge}
+          subtitle={Number.isFinite(range.start) ? `Days ${Math.round(range.start)}–${Math.round(range.end)}` : 'Not enough events'}
+        />
+        <MetricCard
+          label="Kaplan–Meier IBS"
+          value={formatMetric(nullIntegratedBrier)}
+          icon={Gauge}
+          subtitle="Null model reference"
+        />
+        <MetricCard
+          label="Mean AUC(t)"
+          value={formatMetric(meanAuc)}
+          icon={Target}
+          subtitle={`Over ${finiteAucs.length} timepoint(s) · null 0.500`}
+        />
+      </div>
+
+      <div className="data-table-container">
+        <div className="p-4 border-b border-border">
+          <h3 className="section-header">Accuracy at Selected Timepoints</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Cumulative/dynamic AUC and IPCW Brier score. Lower Brier is better; the Kaplan–Meier column predicts the cohort average for everyone.
+          </p>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Timepoint</TableHead>
+              <TableHead className="text-xs text-right">AUC(t)</TableHead>
+              <TableHead className="text-xs text-right">Brier(t)</TableHead>
+              <TableHead className="text-xs text-right">KM Brier(t)</TableHead>
+              <TableHead className="text-xs text-right">Cases / Controls</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {timepoints.map(t => (
+              <TableRow key={t.time}>
+                <TableCell className="text-sm">Year {(t.time / 365).toFixed(0)}</TableCell>
+                <TableCell className="text-right font-mono text-sm">{formatMetric(t.auc)}</TableCell>
+                <TableCell className={`text-right font-mono text-sm ${t.brier < t.nullBrier ? 'text-risk-low' : t.brier > t.nullBrier ? 'text-risk-high' : ''}`}>
+                  {formatMetric(t.brier)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-sm text-muted-foreground">{formatMetric(t.nullBrier)}</TableCell>
+                <TableCell className="text-right font-mono text-xs text-muted-foreground">{t.cases} / {t.controls}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {brierCurve.length > 1 && (
+        <div className="chart-container">
+          <h3 className="section-header mb-4">Brier Score over Time</h3>
+          <div className="h-[280px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={brierCurve} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickLine={{ stroke: 'hsl(var(--border))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickFormatter={(v) => `${Math.round(v)}`}
+                />
+                <YAxis
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickLine={{ stroke: 'hsl(var(--border))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickFormatter={(v) => v.toFixed(2)}
+                />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(4)}
+                  labelFormatter={(label: number) => `Day ${Math.round(label)}`}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} iconSize={8} />
+                <Line type="stepAfter" dataKey="brier" name="Model" stroke="#3b3b3b" strokeWidth={2} dot={false} />
+                <Line type="stepAfter" dataKey="nullBrier" name="Kaplan–Meier" stroke="#969696" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DataEdit, EditableTable } from '@/lib/data-history';
+import { findReplaceEdits } from '@/lib/bulk-edit';
+
+interface FindReplaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: EditableTable;
+  columns: string[];
+  /** Column preselected as the scope, e.g. the one holding the cursor */
+  initialColumn: string | null;
+  onReplace: (label: string, edits: DataEdit[]) => void;
+}
+
+const ALL_COLUMNS = '__all__';
+
+export function FindReplaceDialog({
+  open,
+  onOpenChange,
+  table,
+  columns,
+  initialColumn,
+  onReplace
+}: FindReplaceDialogProps) {
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [scope, setScope] = useState(ALL_COLUMNS);
+  const [wholeCell, setWholeCell] = useState(true);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+
+  useEffect(() => {
+    if (open) setScope(initialColumn ?? ALL_COLUMNS);
+  }, [open, initialColumn]);
+
+  const scopeColumns = useMemo(() => (scope === ALL_COLUMNS ? columns : [scope]), [scope, columns]);
+
+  const edits = useMemo(
+    () => (open ? findReplaceEdits(table, scopeColumns, find, replace, { wholeCell, caseSensitive }) : []),
+    [open, table, scopeColumns, find, replace, wholeCell, caseSensitive]
+  );
+
+  const handleReplace = () => {
+    const where = scope === ALL_COLUMNS ? 'all columns' : scope;
+    onReplace(`Replace "${find}" with "${replace}" in ${where}`, edits);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Find &amp; Replace</DialogTitle>
+          <DialogDescription>
+            Replaced values are read like typed input: numbers become numbers, a blank replacement marks the value as missing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[80px_1fr] items-center gap-2">
+            <Label className="text-sm">Find</Label>
+            <Input value={find} onChange={e => setFind(e.target.value)} placeholder={wholeCell ? 'Blank finds missing values' : 'Text to find'} className="h-9 font-mono text-sm" />
+            <Label className="text-sm">Replace</Label>
+            <Input value={replace} onChange={e => setReplace(e.target.value)} placeholder="Blank for missing" className="h-9 font-mono text-sm" />
+            <Label className="text-sm">In</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_COLUMNS}>All columns</SelectItem>
+                {columns.map(col => (
+                  <SelectItem key={col} value={col} className="font-mono text-xs">{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="find-whole-cell" checked={wholeCell} onCheckedChange={setWholeCell} />
+              <Label htmlFor="find-whole-cell" className="text-sm">Match whole cell</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="find-case" checked={caseSensitive} onCheckedChange={setCaseSensitive} />
+              <Label htmlFor="find-case" className="text-sm">Match case</Label>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {edits.length} cell(s) will change.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleReplace} disabled={edits.length === 0}>
+            Replace All
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
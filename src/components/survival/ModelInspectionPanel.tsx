@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  BarChart,
+  Bar,
+  ErrorBar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  type TooltipProps
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { motion } from 'framer-motion';
+import { Loader2, Play, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ModelBundle } from '@/lib/model-bundle';
+import type { ObservedOutcome } from '@/lib/outcomes';
+import type { PredictionSettings } from '@/lib/prediction';
+import type { DependenceCurve, DependenceTarget, ImportanceResult } from '@/lib/inspection';
+import { CancelledError, type SurvivalWorkerClient, type WorkerJob } from '@/lib/survival-worker';
+
+interface ModelInspectionPanelProps {
+  worker: SurvivalWorkerClient | null;
+  bundle: ModelBundle;
+  rows: Record<string, unknown>[];
+  settings: PredictionSettings;
+  /** Observed outcome per row, null where unknown */
+  outcomes: (ObservedOutcome | null)[];
+  years: number[];
+}
+
+/** Number of features shown in the importance chart */
+const TOP_FEATURES = 20;
+const REPEAT_OPTIONS = [1, 3, 5, 10];
+const IMPORTANCE_SEED = 42;
+
+const axisProps = {
+  tick: { fill: 'hsl(var(--muted-foreground))', fontSize: 11 },
+  tickLine: { stroke: 'hsl(var(--border))' },
+  axisLine: { stroke: 'hsl(var(--border))' }
+};
+
+export function ModelInspectionPanel({ worker, bundle, rows, settings, outcomes, years }: ModelInspectionPanelProps) {
+  const [repeats, setRepeats] = useState(3);
+  const [importance, setImportance] = useState<ImportanceResult | null>(null);
+  const [importanceProgress, setImportanceProgress] = useState<{ done: number; total: number } | null>(null);
+  const importanceJob = useRef<WorkerJob<ImportanceResult> | null>(null);
+
+  const [feature, setFeature] = useState(bundle.features[0]);
+  const [target, setTarget] = useState<DependenceTarget>('survival');
+  const [year, setYear] = useState(years[0] ?? 1);
+  const [curve, setCurve] = useState<DependenceCurve | null>(null);
+  const [curveLoading, setCurveLoading] = useState(false);
+
+  // Importance belongs to one cohort and model; recompute on demand after changes
+  useEffect(() => {
+    setImportance(null);
+    return () => importanceJob.current?.cancel();
+  }, [bundle, rows, settings, outcomes]);
+
+  useEffect(() => {
+    if (!bundle.features.includes(feature)) setFeature(bundle.features[0]);
+  }, [bundle, feature]);
+
+  useEffect(() => {
+    if (!years.includes(year) && years.length > 0) setYear(years[0]);
+  }, [years, year]);
+
+  // Partial dependence is recomputed whenever its inputs change; stale jobs are cancelled
+  useEffect(() => {
+    if (!worker || rows.length === 0 || !feature) return;
+    const job = worker.dependence(rows, settings, feature, { target, time: year * 365 });
+    setCurveLoading(true);
+    job.promise
+      .then(result => {
+        setCurve(result);
+        setCurveLoading(false);
+      })
+      .catch(error => {
+        if (error instanceof CancelledError) return;
+        setCurveLoading(false);
+        toast.error(`Partial dependence failed: ${error instanceof Error ? error.message : error}`);
+      });
+    return () => job.cancel();
+  }, [worker, rows, settings, feature, target, year]);
+
+  const runImportance = async () => {
+    if (!worker) return;
+    const job = worker.importance(rows, settings, outcomes, { repeats, seed: IMPORTANCE_SEED }, (done, total) => {
+      setImportanceProgress({ done, total });
+    });
+    importanceJob.current = job;
+    setImportanceProgress({ done: 0, total: bundle.featureCount });
+    try {
+      setImportance(await job.promise);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        toast.info('Importance calculation cancelled');
+      } else {
+        toast.error(`Importance calculation failed: ${error instanceof Error ? error.message : error}`);
+      }
+    } finally {
+      importanceJob.current = null;
+      setImportanceProgress(null);
+    }
+  };
+
+  const topFeatures = useMemo(() => importance?.features.slice(0, TOP_FEATURES) ?? [], [importance]);
+
+  // Features ranked by importance once it is known
+  const featureOptions = useMemo(() => {
+    if (!importance) return bundle.features;
+    return importance.features.map(f => f.feature);
+  }, [bundle, importance]);
+
+  const curveData = useMemo(() => {
+    if (!curve) return [];
+    return curve.grid.map((x, g) => {
+      const point: Record<string, number> = { x, pdp: curve.pdp[g] };
+      curve.ice.forEach(ice => {
+        point[`ice_${ice.index}`] = ice.values[g];
+      });
+      return point;
+    });
+  }, [curve]);
+
+  const survivalTarget = curve?.target === 'survival';
+  const formatPrediction = (value: number) => (survivalTarget ? `${(value * 100).toFixed(0)}%` : value.toFixed(2));
+
+  const DependenceTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    const pdp = payload?.find(p => p.dataKey === 'pdp');
+    if (!active || !pdp) return null;
+    return (
+      <div className="glass-card rounded-lg p-3 shadow-lg text-sm">
+        <p className="font-mono text-xs text-muted-foreground">{curve?.feature} = {Number(label).toFixed(3)}</p>
+        <p className="font-medium">
+          Mean {survivalTarget ? `S(${year}y)` : 'risk'}: {formatPrediction(pdp.value as number)}
+        </p>
+      </div>
+    );
+  };
+
+  const metricLabel = importance?.metric === 'concordance'
+    ? `Drop in Harrell's C (baseline ${importance.baseline.toFixed(3)})`
+    : 'Mean absolute change in risk score';
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="glass-card rounded-xl p-5">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Permutation Importance</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Each feature is shuffled across the {rows.length} uploaded patients.
+              With observed outcomes importance is the drop in Harrell's C, otherwise the mean change in risk score.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Repeats</Label>
+            <Select value={String(repeats)} onValueChange={v => setRepeats(Number(v))} disabled={!!importanceProgress}>
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPEAT_OPTIONS.map(n => (
+                  <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {importanceProgress ? (
+              <Button variant="outline" size="sm" onClick={() => importanceJob.current?.cancel()} className="gap-2">
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            ) : (
+              <Button size="sm" onClick={runImportance} disabled={!worker || rows.length === 0} className="gap-2">
+                <Play className="w-4 h-4" />
+                {importance ? 'Recompute' : 'Compute'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {importanceProgress && (
+          <div className="space-y-2 mb-4">
+            <Progress value={(importanceProgress.done / Math.max(1, importanceProgress.total)) * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground font-mono">
+              {importanceProgress.done} / {importanceProgress.total} features
+            </p>
+          </div>
+        )}
+
+        {importance ? (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Badge variant="outline" className="font-mono text-xs">{metricLabel}</Badge>
+              <Badge variant="outline" className="font-mono text-xs">{importance.repeats} repeat(s)</Badge>
+            </div>
+            <div style={{ height: Math.max(200, topFeatures.length * 24) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={topFeatures} layout="vertical" margin={{ top: 0, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} horizontal={false} />
+                  <XAxis type="number" {...axisProps} tickFormatter={(v) => v.toFixed(3)} />
+                  <YAxis
+                    type="category"
+                    dataKey="feature"
+                    width={140}
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                    tickLine={false}
+                    axisLine={{ stroke: 'hsl(var(--border))' }}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => value.toFixed(4)}
+                    cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }}
+                  />
+                  <Bar dataKey="importance" fill="hsl(var(--primary))" isAnimationActive={false}>
+                    {importance.repeats > 1 && <ErrorBar dataKey="std" width={4} stroke="#787878" direction="x" />}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        ) : !importanceProgress && (
+          <p className="text-xs text-muted-foreground">
+            Importance takes one pass over the cohort per feature and repeat; start it when needed.
+          </p>
+        )}
+      </div>
+
+      <div className="glass-card rounded-xl p-5">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Partial Dependence</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Mean prediction (bold) and individual patients (ICE, thin) as one feature is varied across its
+              5th–95th percentile in model-input space.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={feature} onValueChange={setFeature}>
+              <SelectTrigger className="w-[200px] h-8 font-mono text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {featureOptions.map(f => (
+                  <SelectItem key={f} value={f} className="font-mono text-xs">{f}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={target} onValueChange={v => setTarget(v as DependenceTarget)}>
+              <SelectTrigger className="w-[140px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="survival">Survival S(t)</SelectItem>
+                <SelectItem value="risk">Risk score</SelectItem>
+              </SelectContent>
+            </Select>
+            {target === 'survival' && (
+              <Select value={String(year)} onValueChange={v => setYear(Number(v))}>
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map(y => (
+                    <SelectItem key={y} value={String(y)}>{y} year{y > 1 ? 's' : ''}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {curveLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </div>
+        </div>
+
+        {curve && curve.grid.length > 1 ? (
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curveData} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  {...axisProps}
+                  tickFormatter={(v) => v.toFixed(2)}
+                  label={{ value: curve.feature, position: 'bottom', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                />
+                <YAxis
+                  domain={survivalTarget ? [0, 1] : ['auto', 'auto']}
+                  {...axisProps}
+                  tickFormatter={formatPrediction}
+                />
+                <Tooltip content={<DependenceTooltip />} />
+                {curve.ice.map(ice => (
+                  <Line
+                    key={ice.index}
+                    dataKey={`ice_${ice.index}`}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeOpacity={0.25}
+                    strokeWidth={1}
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Line
+                  dataKey="pdp"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : curve && !curveLoading ? (
+          <p className="text-xs text-muted-foreground">
+            {curve.feature} has {curve.grid.length === 0 ? 'no observed values' : 'a single value'} in this cohort.
+          </p>
+        ) : null}
+      </div>
+    </motion.div>
+  );
+}
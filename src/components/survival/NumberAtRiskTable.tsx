@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { riskTableCounts, type KaplanMeierStep } from '@/lib/survival-metrics';
+
+export interface AtRiskRow {
+  label: string;
+  color?: string;
+  curve: KaplanMeierStep[];
+}
+
+interface NumberAtRiskTableProps {
+  rows: AtRiskRow[];
+  ticks: number[];
+  /** Right end of the chart's x-axis, so columns line up with the ticks */
+  maxTime: number;
+  /** Width of the chart's y-axis and right margin in pixels */
+  plotInset?: { left: number; right: number };
+}
+
+export function NumberAtRiskTable({
+  rows,
+  ticks,
+  maxTime,
+  plotInset = { left: 60, right: 20 }
+}: NumberAtRiskTableProps) {
+  const counts = useMemo(
+    () => rows.map(row => ({ ...row, entries: riskTableCounts(row.curve, ticks) })),
+    [rows, ticks]
+  );
+
+  if (rows.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-muted-foreground text-center">
+        Select follow-up time and event columns to show the number at risk.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 border-t border-border pt-2">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+        Number at risk <span className="normal-case tracking-normal font-normal">(cumulative events, censored)</span>
+      </p>
+      {counts.map(row => (
+        <div key={row.label} className="mb-1.5">
+          <div className="flex items-center gap-1.5 text-xs text-foreground">
+            {row.color && <div className="w-3 h-0.5" style={{ backgroundColor: row.color }} />}
+            {row.label}
+          </div>
+          <div style={{ paddingLeft: plotInset.left, paddingRight: plotInset.right }}>
+            <div className="relative h-8">
+              {row.entries.map(entry => (
+                <div
+                  key={entry.time}
+                  className="absolute top-0 -translate-x-1/2 text-center leading-tight"
+                  style={{ left: `${maxTime > 0 ? (entry.time / maxTime) * 100 : 0}%` }}
+                >
+                  <div className="text-xs font-mono text-foreground">{entry.atRisk}</div>
+                  <div className="text-[10px] font-mono text-muted-foreground">
+                    ({entry.events}, {entry.censored})
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
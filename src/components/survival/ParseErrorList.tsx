@@ -0,0 +1,36 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle } from 'lucide-react';
+import type { ParseError } from '@/lib/csv-parser';
+
+interface ParseErrorListProps {
+  errors: ParseError[];
+  fileName?: string;
+}
+
+export function ParseErrorList({ errors, fileName }: ParseErrorListProps) {
+  if (errors.length === 0) return null;
+
+  return (
+    <Alert className="glass-card border-risk-medium/40">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="text-sm">
+        {errors.length} issue(s) while reading {fileName ?? 'the file'}
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-xs text-muted-foreground mb-2">
+          Malformed lines were skipped. Fix them in the source file or add the rows in the editor below.
+        </p>
+        <ScrollArea className="max-h-[140px]">
+          <ul className="space-y-1 text-xs font-mono">
+            {errors.map((error, idx) => (
+              <li key={idx}>
+                <span className="text-muted-foreground">Line {error.line}:</span> {error.message}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,80 +1,546 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
-import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
-import { Plus, Trash2, Edit3 } from 'lucide-react';
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Plus,
+  Trash2,
+  Undo2,
+  Redo2,
+  RotateCcw,
+  History,
+  Columns3,
+  ArrowDownToLine,
+  ArrowRightToLine,
+  Replace,
+  ChevronDown,
+  FunctionSquare,
+  TableColumnsSplit
+} from 'lucide-react';
 import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useVirtualGrid } from '@/hooks/use-virtual-grid';
+import { FindReplaceDialog } from './FindReplaceDialog';
+import { ColumnDialog } from './ColumnDialog';
+import { getPatientId } from '@/lib/prediction';
+import {
+  cellEdit,
+  editedCellsByRow,
+  originalRow,
+  parseCellInput,
+  restoreEdits,
+  type DataChange,
+  type DataEdit,
+  type DataHistory,
+  type DataRow
+} from '@/lib/data-history';
+import {
+  COLUMN_TRANSFORMS,
+  clearEdits,
+  fillDownEdits,
+  fillRightEdits,
+  inRange,
+  parseClipboard,
+  pasteEdits,
+  rangeBetween,
+  rangeToText,
+  transformColumnEdits,
+  type CellPosition,
+  type ColumnTransform
+} from '@/lib/bulk-edit';
+import { deleteColumnEdits, moveColumnEdits } from '@/lib/column-edits';
+import { cellKey, rejectInvalidEdits, validateValue, type ValidationReport } from '@/lib/validation';
 
 interface PatientDataEditorProps {
-  data: Record<string, any>[];
-  columns: string[];
-  onDataChange: (data: Record<string, any>[]) => void;
+  history: DataHistory;
+  onCommit: (label: string, edits: DataEdit[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
   idColumn?: string;
+  /** Checks of the cells feeding model features; null without a model */
+  validation?: ValidationReport | null;
+}
+
+/** Number of edits listed per change in the change log */
+const MAX_LOGGED_EDITS = 5;
+/** Number of matches listed in the column picker */
+const MAX_COLUMN_MATCHES = 100;
+
+// Fixed cell geometry for the virtualized grid, in pixels
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 36;
+const COLUMN_WIDTH = 120;
+const INDEX_WIDTH = 64;
+const ACTIONS_WIDTH = 60;
+const ID_WIDTH = 160;
+
+const formatCell = (value: unknown) => (value === null || value === undefined ? 'NA' : String(value));
+
+function describeEdit(edit: DataEdit): string {
+  switch (edit.type) {
+    case 'cell':
+      return `Row ${edit.row + 1}, ${edit.column}: ${formatCell(edit.before)} → ${formatCell(edit.after)}`;
+    case 'insertRow':
+      return `Added row ${edit.index + 1}`;
+    case 'deleteRow':
+      return `Deleted row ${edit.index + 1}`;
+    case 'insertColumn':
+      return `Added column ${edit.column}`;
+    case 'deleteColumn':
+      return `Deleted column ${edit.column}`;
+    case 'renameColumn':
+      return `Renamed column ${edit.before} → ${edit.after}`;
+    case 'moveColumn':
+      return `Moved column ${edit.from + 1} → ${edit.to + 1}`;
+    case 'formula':
+      return edit.after === null ? `${edit.column}: formula removed` : `${edit.column} = ${edit.after}`;
+  }
+}
+
+function ChangeEntry({ change, undone }: { change: DataChange; undone: boolean }) {
+  return (
+    <div className={cn("rounded-lg border border-border p-2", undone && "opacity-50")}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium">{change.label}</p>
+        <span className="text-[10px] text-muted-foreground font-mono shrink-0">
+          {undone ? 'undone · ' : ''}{new Date(change.timestamp).toLocaleTimeString()}
+        </span>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {change.edits.slice(0, MAX_LOGGED_EDITS).map((edit, i) => (
+          <li key={i} className="text-[11px] font-mono text-muted-foreground truncate">{describeEdit(edit)}</li>
+        ))}
+        {change.edits.length > MAX_LOGGED_EDITS && (
+          <li className="text-[11px] text-muted-foreground">+{change.edits.length - MAX_LOGGED_EDITS} more</li>
+        )}
+      </ul>
+    </div>
+  );
 }
 
 export function PatientDataEditor({
-  data,
-  columns,
-  onDataChange,
-  idColumn
+  history,
+  onCommit,
+  onUndo,
+  onRedo,
+  idColumn,
+  validation = null
 }: PatientDataEditorProps) {
   const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null);
+  // Selection corners in grid-column order (ID column first when there is one)
+  const [anchor, setAnchor] = useState<CellPosition | null>(null);
+  const [cursor, setCursor] = useState<CellPosition | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [findOpen, setFindOpen] = useState(false);
+  // Column shown in the column dialog; null while adding a new one
+  const [columnDialog, setColumnDialog] = useState<{ column: string | null } | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [showLog, setShowLog] = useState(false);
+  const [columnPickerOpen, setColumnPickerOpen] = useState(false);
+  const [columnSearch, setColumnSearch] = useState('');
+  const [highlightColumn, setHighlightColumn] = useState<string | null>(null);
+  const data = history.current.rows;
+  const { columns, formulas } = history.current;
 
-  const handleStartEdit = useCallback((rowIndex: number, colName: string, currentValue: any) => {
-    setEditingCell({ row: rowIndex, col: colName });
-    setEditValue(currentValue?.toString() ?? '');
-  }, []);
+  const rowLabel = useCallback((index: number) => getPatientId(data[index], index, idColumn ?? null), [data, idColumn]);
 
-  const handleSaveEdit = useCallback(() => {
-    if (!editingCell) return;
-    
-    const newData = [...data];
-    newData[editingCell.row] = {
-      ...newData[editingCell.row],
-      [editingCell.col]: editValue === '' ? null : 
-        isNaN(Number(editValue)) ? editValue : Number(editValue)
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text inputs keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
     };
-    
-    onDataChange(newData);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onUndo, onRedo]);
+
+  // Edited columns per uploaded row; rows added in the app are tracked separately
+  const { editedCells, addedRows, editedCount } = useMemo(() => {
+    const edited = editedCellsByRow(history);
+    const added = new Set<number>();
+    history.current.origins.forEach((origin, index) => {
+      if (origin === null) added.add(index);
+    });
+    let count = 0;
+    edited.forEach(columns => {
+      count += columns.size;
+    });
+    return { editedCells: edited, addedRows: added, editedCount: count };
+  }, [history]);
+
+  const deletedCount = history.original.length - (data.length - addedRows.size);
+
+  const handleStartEdit = useCallback((rowIndex: number, colName: string, initialText?: string) => {
+    // Derived cells follow their formula
+    if (colName in formulas) return;
+    setEditingCell({ row: rowIndex, col: colName });
+    setEditValue(initialText ?? data[rowIndex]?.[colName]?.toString() ?? '');
+  }, [data, formulas]);
+
+  const handleCancelEdit = useCallback(() => {
     setEditingCell(null);
     setEditValue('');
-  }, [editingCell, editValue, data, onDataChange]);
+  }, []);
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSaveEdit();
-    } else if (e.key === 'Escape') {
-      setEditingCell(null);
-      setEditValue('');
+  // Returns false when the value breaks the feature schema; the cell then stays in edit mode
+  const handleSaveEdit = useCallback((): boolean => {
+    if (!editingCell) return true;
+    const value = parseCellInput(editValue);
+    const spec = validation?.columns.get(editingCell.col)?.spec;
+    const problem = spec ? validateValue(value, spec) : null;
+    if (problem?.severity === 'error') {
+      toast.error(`${editingCell.col}: ${problem.message}`);
+      return false;
     }
-  }, [handleSaveEdit]);
+    const edit = cellEdit(history.current, editingCell.row, editingCell.col, value);
+    if (edit) onCommit(`Edit ${editingCell.col} of ${rowLabel(editingCell.row)}`, [edit]);
+    handleCancelEdit();
+    return true;
+  }, [editingCell, editValue, validation, history, onCommit, rowLabel, handleCancelEdit]);
 
   const handleAddRow = useCallback(() => {
-    const newRow: Record<string, any> = {};
+    const newRow: DataRow = {};
     columns.forEach(col => {
       newRow[col] = null;
     });
     if (idColumn) {
       newRow[idColumn] = `Patient_${data.length + 1}`;
     }
-    onDataChange([...data, newRow]);
-  }, [columns, data, idColumn, onDataChange]);
+    onCommit('Add row', [{ type: 'insertRow', index: data.length, row: newRow, origin: null }]);
+  }, [columns, data, idColumn, onCommit]);
 
   const handleDeleteRow = useCallback((index: number) => {
-    onDataChange(data.filter((_, i) => i !== index));
-  }, [data, onDataChange]);
+    onCommit(`Delete ${rowLabel(index)}`, [{
+      type: 'deleteRow',
+      index,
+      row: data[index],
+      origin: history.current.origins[index]
+    }]);
+  }, [data, history, onCommit, rowLabel]);
+
+  const handleDeleteColumn = useCallback((column: string) => {
+    try {
+      onCommit(`Delete column ${column}`, deleteColumnEdits(history.current, column));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [history, onCommit]);
+
+  // Move a column to the position of another one
+  const handleMoveColumn = useCallback((column: string, target: string) => {
+    const edits = moveColumnEdits(history.current, column, history.current.columns.indexOf(target));
+    if (edits.length > 0) onCommit(`Move column ${column}`, edits);
+  }, [history, onCommit]);
+
+  const handleRestore = useCallback((index: number, column?: string) => {
+    onCommit(
+      column ? `Restore ${column} of ${rowLabel(index)}` : `Restore ${rowLabel(index)}`,
+      restoreEdits(history, index, column)
+    );
+  }, [history, onCommit, rowLabel]);
+
+  // The ID column is frozen on the left; every other column scrolls
+  const scrollColumns = useMemo(() => columns.filter(c => c !== idColumn), [columns, idColumn]);
+  const frozenWidth = INDEX_WIDTH + ACTIONS_WIDTH + (idColumn ? ID_WIDTH : 0);
+  const {
+    scrollRef,
+    rows: rowRange,
+    columns: columnRange,
+    totalWidth,
+    totalHeight,
+    scrollToColumn,
+    scrollIntoView
+  } = useVirtualGrid({
+    rowCount: data.length,
+    columnCount: scrollColumns.length,
+    rowHeight: ROW_HEIGHT,
+    columnWidth: COLUMN_WIDTH,
+    headerHeight: HEADER_HEIGHT,
+    frozenWidth
+  });
+  const visibleRows = Array.from({ length: rowRange.end - rowRange.start }, (_, i) => rowRange.start + i);
+  const visibleColumns = scrollColumns.slice(columnRange.start, columnRange.end);
+
+  // Column order used for selection, paste and fill
+  const gridColumns = useMemo(() => (idColumn ? [idColumn, ...scrollColumns] : scrollColumns), [idColumn, scrollColumns]);
+  const gridOffset = idColumn ? 1 : 0;
+  const selection = anchor && cursor ? rangeBetween(anchor, cursor) : null;
+
+  // Drop a selection that points past the table, e.g. after rows were deleted
+  useEffect(() => {
+    if (cursor && (cursor.row >= data.length || cursor.col >= gridColumns.length)) {
+      setAnchor(null);
+      setCursor(null);
+    }
+  }, [cursor, data.length, gridColumns.length]);
+
+  useEffect(() => {
+    if (!dragging) return;
+    const stop = () => setDragging(false);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [dragging]);
+
+  const select = useCallback((next: CellPosition, extend: boolean) => {
+    setCursor(next);
+    if (!extend) setAnchor(next);
+    scrollIntoView(next.row, next.col - gridOffset);
+  }, [scrollIntoView, gridOffset]);
+
+  // Cells whose new value breaks the feature schema are left unchanged, as in single-cell edits
+  const commitRange = useCallback((label: string, edits: DataEdit[]) => {
+    const { accepted, rejected } = rejectInvalidEdits(validation, edits);
+    if (rejected.length > 0) {
+      const [first] = rejected;
+      toast.error(`${rejected.length} cell(s) left unchanged, e.g. ${first.column} of ${rowLabel(first.row)}: ${first.message}`);
+    }
+    if (accepted.length > 0) onCommit(label, accepted);
+  }, [validation, rowLabel, onCommit]);
 
-  const displayColumns = columns.slice(0, 15); // Limit visible columns for performance
-  const hasMoreColumns = columns.length > 15;
+  const handleFillDown = useCallback(() => {
+    if (selection) commitRange('Fill down', fillDownEdits(history.current, gridColumns, selection));
+  }, [selection, history, gridColumns, commitRange]);
+
+  const handleFillRight = useCallback(() => {
+    if (selection) commitRange('Fill right', fillRightEdits(history.current, gridColumns, selection));
+  }, [selection, history, gridColumns, commitRange]);
+
+  const handleTransform = useCallback((column: string, transform: ColumnTransform) => {
+    const label = COLUMN_TRANSFORMS.find(t => t.id === transform)?.label ?? transform;
+    commitRange(`${label}: ${column}`, transformColumnEdits(history.current, column, transform));
+  }, [history, commitRange]);
+
+  const selectColumn = useCallback((col: number) => {
+    if (data.length === 0) return;
+    setAnchor({ row: 0, col });
+    setCursor({ row: data.length - 1, col });
+  }, [data.length]);
+
+  const selectRow = useCallback((row: number) => {
+    if (gridColumns.length === 0) return;
+    setAnchor({ row, col: 0 });
+    setCursor({ row, col: gridColumns.length - 1 });
+  }, [gridColumns.length]);
+
+  const handleGridKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (editingCell || !cursor) return;
+    const ctrl = e.ctrlKey || e.metaKey;
+    const lastRow = data.length - 1;
+    const lastCol = gridColumns.length - 1;
+    const move = (dRow: number, dCol: number, extend = e.shiftKey) => {
+      e.preventDefault();
+      select({
+        row: Math.max(0, Math.min(lastRow, cursor.row + dRow)),
+        col: Math.max(0, Math.min(lastCol, cursor.col + dCol))
+      }, extend);
+    };
+
+    if (ctrl) {
+      const key = e.key.toLowerCase();
+      if (key === 'd') {
+        e.preventDefault();
+        handleFillDown();
+      } else if (key === 'r') {
+        e.preventDefault();
+        handleFillRight();
+      } else if (key === 'a') {
+        e.preventDefault();
+        setAnchor({ row: 0, col: 0 });
+        setCursor({ row: lastRow, col: lastCol });
+      } else if (key === 'f' || key === 'h') {
+        e.preventDefault();
+        setFindOpen(true);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowUp': return move(-1, 0);
+      case 'ArrowDown': return move(1, 0);
+      case 'ArrowLeft': return move(0, -1);
+      case 'ArrowRight': return move(0, 1);
+      case 'Tab': return move(0, e.shiftKey ? -1 : 1, false);
+      case 'PageUp': return move(-10, 0);
+      case 'PageDown': return move(10, 0);
+      case 'Enter':
+      case 'F2':
+        e.preventDefault();
+        handleStartEdit(cursor.row, gridColumns[cursor.col]);
+        return;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        if (selection) commitRange('Clear cells', clearEdits(history.current, gridColumns, selection));
+        return;
+      case 'Escape':
+        setAnchor(cursor);
+        return;
+    }
+    // Typing starts editing the cursor cell with the typed character
+    if (e.key.length === 1 && !e.altKey) {
+      e.preventDefault();
+      handleStartEdit(cursor.row, gridColumns[cursor.col], e.key);
+    }
+  }, [editingCell, cursor, data.length, gridColumns, select, handleFillDown, handleFillRight, handleStartEdit, selection, commitRange, history]);
+
+  const handleCopy = useCallback((e: React.ClipboardEvent) => {
+    if (editingCell || !selection) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', rangeToText(history.current, gridColumns, selection));
+  }, [editingCell, selection, history, gridColumns]);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    if (editingCell || !selection) return;
+    e.preventDefault();
+    const block = parseClipboard(e.clipboardData.getData('text/plain'));
+    const edits = pasteEdits(history.current, gridColumns, selection, block);
+    const width = block.reduce((max, line) => Math.max(max, line.length), 0);
+    commitRange(`Paste ${block.length}×${width} cells`, edits);
+  }, [editingCell, selection, history, gridColumns, commitRange]);
+
+  const handleEditorKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // Keep keys typed into the cell input away from the grid shortcuts
+    e.stopPropagation();
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      if (!handleSaveEdit()) return;
+      if (cursor) select({
+        row: Math.min(data.length - 1, cursor.row + (e.key === 'Enter' ? 1 : 0)),
+        col: Math.min(gridColumns.length - 1, cursor.col + (e.key === 'Tab' ? 1 : 0))
+      }, false);
+      scrollRef.current?.focus();
+    } else if (e.key === 'Escape') {
+      handleCancelEdit();
+      scrollRef.current?.focus();
+    }
+  }, [handleSaveEdit, handleCancelEdit, cursor, select, data.length, gridColumns.length, scrollRef]);
+
+  const columnMatches = useMemo(() => {
+    const query = columnSearch.trim().toLowerCase();
+    return scrollColumns.filter(c => c.toLowerCase().includes(query)).slice(0, MAX_COLUMN_MATCHES);
+  }, [scrollColumns, columnSearch]);
+
+  const handleJumpToColumn = useCallback((column: string) => {
+    scrollToColumn(scrollColumns.indexOf(column));
+    setHighlightColumn(column);
+    setColumnPickerOpen(false);
+    setColumnSearch('');
+  }, [scrollColumns, scrollToColumn]);
+
+  const changeCount = history.past.length + history.future.length;
+  const cursorColumn = cursor ? gridColumns[cursor.col] ?? null : null;
+
+  const renderHeader = (col: string, width: number, gridIndex: number) => {
+    const scrollIndex = scrollColumns.indexOf(col);
+    const movable = scrollIndex >= 0;
+    return (
+      <div
+        key={col}
+        className={cn(
+          "group/header px-2 flex items-center gap-1 shrink-0 font-medium cursor-pointer",
+          col === idColumn ? "text-foreground" : "text-muted-foreground",
+          (col === highlightColumn || cursorColumn === col) && "bg-primary/10 text-foreground",
+          draggedColumn && draggedColumn !== col && movable && "hover:shadow-[inset_2px_0_0_hsl(var(--primary))]"
+        )}
+        style={{ width }}
+        title={col in formulas ? `${col} = ${formulas[col]}` : col}
+        onClick={() => selectColumn(gridIndex)}
+        draggable={movable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedColumn(col);
+        }}
+        onDragEnd={() => setDraggedColumn(null)}
+        onDragOver={(e) => {
+          if (draggedColumn && movable) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggedColumn && draggedColumn !== col) handleMoveColumn(draggedColumn, col);
+          setDraggedColumn(null);
+        }}
+      >
+        {col in formulas && <FunctionSquare className="w-3 h-3 shrink-0 text-primary" />}
+        <span className="truncate flex-1">{col}</span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="opacity-0 group-hover/header:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+              onClick={(e) => e.stopPropagation()}
+              title="Column actions"
+            >
+              <ChevronDown className="w-3 h-3" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuLabel className="font-mono text-xs truncate">{col}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => selectColumn(gridIndex)}>Select column</DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => {
+                setAnchor({ row: 0, col: gridIndex });
+                setCursor({ row: 0, col: gridIndex });
+                setFindOpen(true);
+              }}
+            >
+              Find &amp; replace in column…
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setColumnDialog({ column: col })}>
+              {col in formulas ? 'Rename or edit formula…' : 'Rename or derive…'}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!movable || scrollIndex === 0}
+              onSelect={() => handleMoveColumn(col, scrollColumns[scrollIndex - 1])}
+            >
+              Move left
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={!movable || scrollIndex === scrollColumns.length - 1}
+              onSelect={() => handleMoveColumn(col, scrollColumns[scrollIndex + 1])}
+            >
+              Move right
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            {COLUMN_TRANSFORMS.map(transform => (
+              <DropdownMenuItem key={transform.id} disabled={col in formulas} onSelect={() => handleTransform(col, transform.id)}>
+                {transform.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={() => handleDeleteColumn(col)}>
+              Delete column
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
 
   return (
     <motion.div
@@ -82,113 +548,274 @@ export function PatientDataEditor({
       animate={{ opacity: 1 }}
       className="data-table-container"
     >
-      <div className="p-4 border-b border-border flex items-center justify-between">
+      <div className="p-4 border-b border-border flex flex-wrap items-center justify-between gap-3">
         <div>
           <h3 className="section-header">Input Data</h3>
           <p className="text-xs text-muted-foreground mt-1">
-            Click any cell to edit. Use NA or leave blank for missing values.
+            Double-click or type to edit; drag or Shift+arrows to select, then paste, Ctrl+D / Ctrl+R to fill, or Delete to clear.
+            Use NA or leave blank for missing values. Ctrl+Z / Ctrl+Shift+Z to undo and redo.
           </p>
         </div>
-        <Button
-          size="sm"
-          variant="outline"
-          onClick={handleAddRow}
-          className="gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add Row
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={onUndo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={onRedo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={handleFillDown} disabled={!selection || selection.top === selection.bottom} title="Fill down (Ctrl+D)">
+            <ArrowDownToLine className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={handleFillRight} disabled={!selection || selection.left === selection.right} title="Fill right (Ctrl+R)">
+            <ArrowRightToLine className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" className="gap-2" onClick={() => setFindOpen(true)} disabled={data.length === 0}>
+            <Replace className="w-4 h-4" />
+            Find &amp; Replace
+          </Button>
+          <Popover open={columnPickerOpen} onOpenChange={setColumnPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" className="gap-2" disabled={scrollColumns.length === 0}>
+                <Columns3 className="w-4 h-4" />
+                Jump to Column
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-0" align="end">
+              <Command shouldFilter={false}>
+                <CommandInput placeholder="Search columns..." value={columnSearch} onValueChange={setColumnSearch} />
+                <CommandList>
+                  <CommandEmpty>No matching column.</CommandEmpty>
+                  {columnMatches.map(col => (
+                    <CommandItem key={col} value={col} onSelect={() => handleJumpToColumn(col)} className="font-mono text-xs">
+                      {col}
+                    </CommandItem>
+                  ))}
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+          <Button
+            size="sm"
+            variant={showLog ? 'secondary' : 'outline'}
+            onClick={() => setShowLog(v => !v)}
+            className="gap-2"
+          >
+            <History className="w-4 h-4" />
+            Change Log{changeCount > 0 && ` (${changeCount})`}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setColumnDialog({ column: null })}
+            className="gap-2"
+          >
+            <TableColumnsSplit className="w-4 h-4" />
+            Add Column
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAddRow}
+            className="gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Row
+          </Button>
+        </div>
       </div>
 
-      <ScrollArea className="h-[300px]">
-        <Table>
-          <TableHeader className="sticky top-0 bg-card z-10">
-            <TableRow className="hover:bg-transparent">
-              <TableHead className="w-[50px]">#</TableHead>
-              {displayColumns.map(col => (
-                <TableHead key={col} className="min-w-[100px] max-w-[150px]">
-                  <span className="truncate block" title={col}>
-                    {col}
-                  </span>
-                </TableHead>
-              ))}
-              {hasMoreColumns && (
-                <TableHead className="text-muted-foreground">
-                  +{columns.length - 15} more
-                </TableHead>
-              )}
-              <TableHead className="w-[50px]"></TableHead>
-            </TableRow>
-          </TableHeader>
-          
-          <TableBody>
-            {data.map((row, rowIndex) => (
-              <TableRow key={rowIndex} className="group">
-                <TableCell className="font-mono text-xs text-muted-foreground">
-                  {rowIndex + 1}
-                </TableCell>
-                
-                {displayColumns.map(col => {
-                  const isEditing = editingCell?.row === rowIndex && editingCell?.col === col;
-                  const cellValue = row[col];
-                  
-                  return (
-                    <TableCell
-                      key={col}
-                      className="relative p-1"
-                      onClick={() => !isEditing && handleStartEdit(rowIndex, col, cellValue)}
+      <div className={cn(showLog && "grid lg:grid-cols-[1fr_320px]")}>
+        <div
+          ref={scrollRef}
+          tabIndex={0}
+          className="h-[400px] overflow-auto relative select-none focus:outline-none"
+          onKeyDown={handleGridKeyDown}
+          onCopy={handleCopy}
+          onPaste={handlePaste}
+        >
+          <div className="relative text-xs" style={{ width: totalWidth, height: totalHeight }}>
+            <div className="sticky top-0 z-20 flex bg-card border-b border-border" style={{ width: totalWidth, height: HEADER_HEIGHT }}>
+              <div className="sticky left-0 z-10 flex shrink-0 bg-card border-r border-border" style={{ width: frozenWidth }}>
+                <div className="px-2 flex items-center font-medium text-muted-foreground" style={{ width: INDEX_WIDTH + ACTIONS_WIDTH }}>#</div>
+                {idColumn && renderHeader(idColumn, ID_WIDTH, 0)}
+              </div>
+              <div className="shrink-0" style={{ width: columnRange.start * COLUMN_WIDTH }} />
+              {visibleColumns.map((col, i) => renderHeader(col, COLUMN_WIDTH, gridOffset + columnRange.start + i))}
+            </div>
+
+            <div style={{ height: rowRange.start * ROW_HEIGHT }} />
+            {visibleRows.map(rowIndex => {
+              const row = data[rowIndex];
+              const edited = editedCells.get(rowIndex);
+              const added = addedRows.has(rowIndex);
+              const original = edited ? originalRow(history, rowIndex) : null;
+              const renderCell = (col: string, width: number, gridIndex: number) => {
+                const isEditing = editingCell?.row === rowIndex && editingCell?.col === col;
+                const cellValue = row[col];
+                const cellEdited = !!edited?.has(col);
+                const derived = col in formulas;
+                const issue = validation?.cells.get(cellKey(rowIndex, col));
+                const selected = inRange(selection, rowIndex, gridIndex);
+                const isCursor = cursor?.row === rowIndex && cursor?.col === gridIndex;
+                return (
+                  <div
+                    key={col}
+                    className={cn(
+                      "relative p-0.5 shrink-0",
+                      cellEdited && "bg-risk-medium/10",
+                      col === highlightColumn && !cellEdited && "bg-primary/5",
+                      derived && "bg-muted/40",
+                      issue?.severity === 'error' && "bg-destructive/10",
+                      selected && "bg-primary/10",
+                      isCursor && "ring-2 ring-inset ring-primary"
+                    )}
+                    style={{ width }}
+                    onMouseDown={(e) => {
+                      if (isEditing || e.button !== 0) return;
+                      e.preventDefault();
+                      scrollRef.current?.focus();
+                      select({ row: rowIndex, col: gridIndex }, e.shiftKey && !!anchor);
+                      setDragging(true);
+                    }}
+                    onMouseEnter={() => dragging && select({ row: rowIndex, col: gridIndex }, true)}
+                    onDoubleClick={() => !isEditing && handleStartEdit(rowIndex, col)}
+                    title={[
+                      issue?.message,
+                      derived ? `= ${formulas[col]}` : cellEdited ? `Original: ${formatCell(original?.[col])}` : null
+                    ].filter(Boolean).join('\n') || undefined}
+                  >
+                    {isEditing ? (
+                      <Input
+                        autoFocus
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={() => {
+                          // Leaving an invalid value discards it
+                          if (!handleSaveEdit()) handleCancelEdit();
+                        }}
+                        onKeyDown={handleEditorKeyDown}
+                        className="h-7 text-xs"
+                      />
+                    ) : (
+                      <div className={cn("px-2 h-7 rounded cursor-cell hover:bg-muted/50 transition-colors group/cell flex items-center gap-1", derived && "text-primary")}>
+                        <span
+                          className={cn(
+                            "truncate flex-1",
+                            cellEdited && "font-medium text-risk-medium",
+                            issue?.severity === 'error' && "text-destructive",
+                            issue?.severity === 'warning' && "underline decoration-dotted decoration-risk-medium underline-offset-2"
+                          )}
+                        >
+                          {cellValue === null || cellValue === undefined ? (
+                            <span className="text-muted-foreground italic">NA</span>
+                          ) : (
+                            String(cellValue)
+                          )}
+                        </span>
+                        {cellEdited && (
+                          <button
+                            className="opacity-0 group-hover/cell:opacity-100 transition-opacity"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRestore(rowIndex, col);
+                            }}
+                            title={`Restore ${formatCell(original?.[col])}`}
+                          >
+                            <RotateCcw className="w-3 h-3 text-muted-foreground hover:text-foreground" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              };
+
+              return (
+                <div
+                  key={rowIndex}
+                  className={cn("group flex border-b border-border/50", added && "bg-primary/5")}
+                  style={{ width: totalWidth, height: ROW_HEIGHT }}
+                >
+                  <div className="sticky left-0 z-10 flex shrink-0 items-center bg-card border-r border-border" style={{ width: frozenWidth }}>
+                    <div
+                      className="px-2 h-full flex items-center gap-1 font-mono text-muted-foreground cursor-pointer"
+                      style={{ width: INDEX_WIDTH }}
+                      onClick={() => selectRow(rowIndex)}
+                      title="Select row"
                     >
-                      {isEditing ? (
-                        <Input
-                          autoFocus
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          onBlur={handleSaveEdit}
-                          onKeyDown={handleKeyDown}
-                          className="h-7 text-xs"
-                        />
-                      ) : (
-                        <div className="px-2 py-1 rounded cursor-pointer hover:bg-muted/50 transition-colors group/cell flex items-center gap-1">
-                          <span className="text-xs truncate flex-1">
-                            {cellValue === null || cellValue === undefined ? (
-                              <span className="text-muted-foreground italic">NA</span>
-                            ) : (
-                              String(cellValue)
-                            )}
-                          </span>
-                          <Edit3 className="w-3 h-3 text-muted-foreground opacity-0 group-hover/cell:opacity-100 transition-opacity" />
-                        </div>
+                      {rowIndex + 1}
+                      {added && <Badge variant="outline" className="px-1 text-[9px]">new</Badge>}
+                    </div>
+                    <div className="flex items-center" style={{ width: ACTIONS_WIDTH }}>
+                      {edited && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={() => handleRestore(rowIndex)}
+                          title={`Restore ${edited.size} edited value(s)`}
+                        >
+                          <RotateCcw className="w-3 h-3 text-muted-foreground hover:text-foreground" />
+                        </Button>
                       )}
-                    </TableCell>
-                  );
-                })}
-                
-                {hasMoreColumns && (
-                  <TableCell className="text-muted-foreground text-xs">
-                    ...
-                  </TableCell>
-                )}
-                
-                <TableCell>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                    onClick={() => handleDeleteRow(rowIndex)}
-                  >
-                    <Trash2 className="w-3 h-3 text-muted-foreground hover:text-destructive" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-        <ScrollBar orientation="horizontal" />
-      </ScrollArea>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => handleDeleteRow(rowIndex)}
+                      >
+                        <Trash2 className="w-3 h-3 text-muted-foreground hover:text-destructive" />
+                      </Button>
+                    </div>
+                    {idColumn && renderCell(idColumn, ID_WIDTH, 0)}
+                  </div>
+                  <div className="shrink-0" style={{ width: columnRange.start * COLUMN_WIDTH }} />
+                  {visibleColumns.map((col, i) => renderCell(col, COLUMN_WIDTH, gridOffset + columnRange.start + i))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {showLog && (
+          <div className="border-t lg:border-t-0 lg:border-l border-border h-[400px] overflow-y-auto p-3 space-y-2">
+            {changeCount === 0 ? (
+              <p className="text-xs text-muted-foreground">No changes yet.</p>
+            ) : (
+              <>
+                {history.future.map(change => <ChangeEntry key={change.id} change={change} undone />)}
+                {[...history.past].reverse().map(change => <ChangeEntry key={change.id} change={change} undone={false} />)}
+              </>
+            )}
+          </div>
+        )}
+      </div>
 
       <div className="p-3 border-t border-border bg-muted/30 flex items-center justify-between">
         <p className="text-xs text-muted-foreground">
           {data.length} row(s) × {columns.length} column(s)
+          {visibleColumns.length > 0 && scrollColumns.length > visibleColumns.length && (
+            <span className="ml-2 font-mono">
+              · columns {columnRange.start + 1}–{columnRange.end}
+            </span>
+          )}
+          {selection && (
+            <span className="ml-2 font-mono">
+              · {selection.bottom - selection.top + 1}×{selection.right - selection.left + 1} selected
+            </span>
+          )}
+          {validation && validation.issues.length > 0 && (
+            <span className="ml-2">
+              · <span className={cn(validation.errorCount > 0 && "text-destructive")}>{validation.errorCount} invalid</span>,
+              {' '}{validation.warningCount} outside training range
+            </span>
+          )}
+          {(editedCount > 0 || addedRows.size > 0 || deletedCount > 0) && (
+            <span className="ml-2">
+              · {editedCount} edited cell(s), {addedRows.size} added, {deletedCount} deleted row(s)
+            </span>
+          )}
         </p>
         {idColumn && (
           <p className="text-xs text-muted-foreground">
@@ -196,6 +823,26 @@ export function PatientDataEditor({
           </p>
         )}
       </div>
+
+      <ColumnDialog
+        open={columnDialog !== null}
+        onOpenChange={(open) => !open && setColumnDialog(null)}
+        table={history.current}
+        column={columnDialog?.column ?? null}
+        onCommit={onCommit}
+      />
+
+      <FindReplaceDialog
+        open={findOpen}
+        onOpenChange={setFindOpen}
+        table={history.current}
+        columns={gridColumns}
+        initialColumn={cursorColumn}
+        onReplace={(label, edits) => {
+          commitRange(label, edits);
+          setFindOpen(false);
+        }}
+      />
     </motion.div>
   );
 }
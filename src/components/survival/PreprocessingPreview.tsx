@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { motion } from 'framer-motion';
+import type { ModelBundle } from '@/lib/model-bundle';
+import { isPtpmFeature, prepareModelInput } from '@/lib/preprocessing';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+
+interface PreprocessingPreviewProps {
+  bundle: ModelBundle;
+  row: Record<string, unknown>;
+  patientId: string;
+  rawPtpm: boolean;
+  mapping?: ColumnMapping | null;
+}
+
+export function PreprocessingPreview({
+  bundle,
+  row,
+  patientId,
+  rawPtpm,
+  mapping
+}: PreprocessingPreviewProps) {
+  const rows = useMemo(() => {
+    const { raw, values, imputed } = prepareModelInput(row, bundle, rawPtpm, mapping);
+    return bundle.features
+      .map((feature, idx) => ({
+        feature,
+        raw: raw[idx],
+        processed: values[idx],
+        imputed: imputed.includes(feature)
+      }))
+      .filter(r => isPtpmFeature(r.feature));
+  }, [bundle, row, rawPtpm, mapping]);
+
+  const formatValue = (value: number) =>
+    Number.isNaN(value) ? <span className="text-muted-foreground italic">NA</span> : value.toFixed(4);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="data-table-container"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between gap-4">
+        <div>
+          <h3 className="section-header">Preprocessing Preview</h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            pTPM values for <span className="font-medium">{patientId}</span> before and after preprocessing
+          </p>
+        </div>
+        <Badge variant="outline" className="font-mono text-xs">
+          {rawPtpm
+            ? `log1p${bundle.scaler ? ` + ${bundle.scaler.type} scaling` : ''}`
+            : 'pass-through'}
+        </Badge>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          The model has no <code className="text-xs bg-muted px-1.5 py-0.5 rounded">_pTPM</code> features.
+        </p>
+      ) : (
+        <ScrollArea className="h-[220px]">
+          <Table>
+            <TableHeader className="sticky top-0 bg-card z-10">
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Feature</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Model input</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(r => (
+                <TableRow key={r.feature}>
+                  <TableCell className="font-medium text-xs">{r.feature}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">{formatValue(r.raw)}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {formatValue(r.processed)}
+                    {r.imputed && <span className="ml-1 text-muted-foreground">(median)</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+    </motion.div>
+  );
+}
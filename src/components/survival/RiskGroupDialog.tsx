@@ -0,0 +1,208 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { classifyRisk } from '@/lib/survival-utils';
+import type { ScoredObservation } from '@/lib/survival-metrics';
+import {
+  MAX_RISK_GROUPS,
+  MIN_RISK_GROUPS,
+  manualScheme,
+  optimalCutpoint,
+  optimalScheme,
+  quantileScheme,
+  referenceScheme,
+  riskGroupTone,
+  type RiskGroupMethod,
+  type RiskGroupScheme
+} from '@/lib/risk-groups';
+
+interface RiskGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheme: RiskGroupScheme | null;
+  /** Risk scores of the current cohort */
+  scores: number[];
+  /** Scores paired with observed outcomes; enables the optimal cutpoint */
+  outcomes: ScoredObservation[];
+  riskRef?: { q33: number; q66: number };
+  onConfirm: (scheme: RiskGroupScheme) => void;
+}
+
+const GROUP_COUNTS = Array.from({ length: MAX_RISK_GROUPS - MIN_RISK_GROUPS + 1 }, (_, i) => MIN_RISK_GROUPS + i);
+
+const TONE_CLASSES = {
+  low: 'border-risk-low text-risk-low bg-risk-low/10',
+  medium: 'border-risk-medium text-risk-medium bg-risk-medium/10',
+  high: 'border-risk-high text-risk-high bg-risk-high/10'
+};
+
+export function RiskGroupDialog({
+  open,
+  onOpenChange,
+  scheme,
+  scores,
+  outcomes,
+  riskRef,
+  onConfirm
+}: RiskGroupDialogProps) {
+  const [method, setMethod] = useState<RiskGroupMethod>('quantile');
+  const [groupCount, setGroupCount] = useState(3);
+  const [manualValues, setManualValues] = useState<string[]>([]);
+
+  // Start from the scheme currently in use
+  useEffect(() => {
+    if (!open) return;
+    setMethod(scheme?.method ?? (riskRef ? 'reference' : 'quantile'));
+    setGroupCount(scheme ? scheme.labels.length : 3);
+    setManualValues((scheme?.thresholds ?? []).map(t => t.toFixed(4)));
+  }, [open, scheme, riskRef]);
+
+  const optimal = useMemo(
+    () => (open && method === 'optimal' ? optimalCutpoint(outcomes) : null),
+    [open, method, outcomes]
+  );
+
+  const draft = useMemo<RiskGroupScheme | null>(() => {
+    switch (method) {
+      case 'reference':
+        return referenceScheme(riskRef);
+      case 'quantile':
+        return scores.length > 0 ? quantileScheme(scores, groupCount) : null;
+      case 'optimal':
+        return optimal ? optimalScheme(optimal) : null;
+      case 'manual': {
+        const values = manualValues.slice(0, groupCount - 1).map(v => parseFloat(v));
+        return values.length === groupCount - 1 && values.every(Number.isFinite) ? manualScheme(values) : null;
+      }
+    }
+  }, [method, riskRef, scores, groupCount, optimal, manualValues]);
+
+  const groupSizes = useMemo(() => {
+    if (!draft) return [];
+    const counts = new Map<string, number>();
+    scores.forEach(score => {
+      const group = classifyRisk(score, draft).group;
+      if (group) counts.set(group, (counts.get(group) ?? 0) + 1);
+    });
+    return draft.labels.map(label => ({ label, count: counts.get(label) ?? 0 }));
+  }, [draft, scores]);
+
+  const fixedCount = method === 'reference' || method === 'optimal';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Risk Groups</DialogTitle>
+          <DialogDescription>
+            Choose how patients are split into risk groups. Patients with a score at or below a threshold fall into the lower group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={method} onValueChange={v => setMethod(v as RiskGroupMethod)} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="reference" id="method-reference" disabled={!riskRef} />
+            <Label htmlFor="method-reference" className={cn("text-sm", !riskRef && "text-muted-foreground")}>
+              Bundle reference (q33/q66){!riskRef && ' — not in this bundle'}
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="quantile" id="method-quantile" />
+            <Label htmlFor="method-quantile" className="text-sm">Quantiles of this cohort</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="manual" id="method-manual" />
+            <Label htmlFor="method-manual" className="text-sm">Manual thresholds</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="optimal" id="method-optimal" disabled={outcomes.length === 0} />
+            <Label htmlFor="method-optimal" className={cn("text-sm", outcomes.length === 0 && "text-muted-foreground")}>
+              Optimal cutpoint (maximally selected log-rank){outcomes.length === 0 && ' — needs outcomes'}
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <div className="flex items-center gap-3">
+          <Label className="text-sm">Groups</Label>
+          <Select
+            value={String(fixedCount ? (method === 'optimal' ? 2 : 3) : groupCount)}
+            onValueChange={v => setGroupCount(Number(v))}
+            disabled={fixedCount}
+          >
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_COUNTS.map(n => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {method === 'manual' && (
+          <div className="flex flex-wrap items-center gap-2">
+            {Array.from({ length: groupCount - 1 }, (_, i) => (
+              <Input
+                key={i}
+                type="number"
+                step="any"
+                placeholder={`Threshold ${i + 1}`}
+                value={manualValues[i] ?? ''}
+                onChange={e => setManualValues(prev => {
+                  const next = [...prev];
+                  next[i] = e.target.value;
+                  return next;
+                })}
+                className="w-28 h-8 font-mono text-xs"
+              />
+            ))}
+          </div>
+        )}
+
+        {method === 'optimal' && (
+          <p className="text-xs text-muted-foreground">
+            {optimal
+              ? `Cutpoint ${optimal.cutpoint.toFixed(4)}: statistic ${optimal.statistic.toFixed(2)}, adjusted p = ${optimal.pValue < 0.001 ? '<0.001' : optimal.pValue.toFixed(3)}`
+              : 'No cutpoint could be evaluated for these outcomes.'}
+          </p>
+        )}
+
+        {draft && (
+          <div className="flex flex-wrap gap-2">
+            {groupSizes.map(({ label, count }) => {
+              const tone = riskGroupTone(label, draft.labels);
+              return (
+                <Badge key={label} variant="outline" className={cn("font-medium", tone && TONE_CLASSES[tone])}>
+                  {label}: {count}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => draft && onConfirm(draft)} disabled={!draft}>
+            Apply Groups
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
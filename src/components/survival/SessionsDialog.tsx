@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Copy, FolderOpen, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { deleteSession, duplicateSession, listSessions, type SessionSummary } from '@/lib/sessions';
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentSessionId: string | null;
+  currentName: string;
+  onRename: (name: string) => void;
+  onOpenSession: (id: string) => void;
+  onNewSession: () => void;
+  /** Called after a session was deleted, so the page can detach from it */
+  onDeleted: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export function SessionsDialog({
+  open,
+  onOpenChange,
+  currentSessionId,
+  currentName,
+  onRename,
+  onOpenSession,
+  onNewSession,
+  onDeleted
+}: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [name, setName] = useState(currentName);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      toast.error(`Could not read saved sessions: ${error instanceof Error ? error.message : error}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(currentName);
+    refresh();
+  }, [open, currentName, refresh]);
+
+  const handleDuplicate = async (session: SessionSummary) => {
+    try {
+      await duplicateSession(session.id, `${session.name} (copy)`);
+      await refresh();
+    } catch (error) {
+      toast.error(`Could not duplicate session: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    try {
+      await deleteSession(session.id);
+      onDeleted(session.id);
+      await refresh();
+    } catch (error) {
+      toast.error(`Could not delete session: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const trimmed = name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sessions</DialogTitle>
+          <DialogDescription>
+            Sessions are saved in this browser as you work: model, patient data including edits, column mapping, settings and predictions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {currentSessionId && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={e => {
+              e.preventDefault();
+              if (trimmed) onRename(trimmed);
+            }}
+          >
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="Session name" className="h-9" />
+            <Button type="submit" variant="outline" size="sm" disabled={!trimmed || trimmed === currentName}>
+              Rename
+            </Button>
+          </form>
+        )}
+
+        <div className="max-h-[400px] overflow-y-auto pr-1">
+          {sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              No saved sessions yet. A session is created when you upload a model or patient data.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map(session => {
+                const current = session.id === currentSessionId;
+                return (
+                  <div
+                    key={session.id}
+                    className={cn("flex items-center justify-between gap-4 rounded-lg border p-3", current && "border-primary/50 bg-primary/5")}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {session.name}
+                        {current && <Badge variant="outline" className="ml-2 text-[10px]">open</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[session.modelName, session.dataName].filter(Boolean).join(' · ') || 'No files'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.patientCount} patients · {session.resultCount} predictions · updated {formatDate(session.updatedAt)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onOpenSession(session.id)} disabled={current} title="Open">
+                        <FolderOpen className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDuplicate(session)} title="Duplicate">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 hover:text-destructive" onClick={() => handleDelete(session)} title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onNewSession} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Session
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { SheetOptions, SheetPreview } from '@/lib/workbook';
+
+interface SheetPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName?: string;
+  sheets: SheetPreview[];
+  initialOptions: SheetOptions | null;
+  onConfirm: (options: SheetOptions) => void;
+}
+
+export function SheetPickerDialog({
+  open,
+  onOpenChange,
+  fileName,
+  sheets,
+  initialOptions,
+  onConfirm
+}: SheetPickerDialogProps) {
+  const [options, setOptions] = useState<SheetOptions | null>(initialOptions);
+
+  useEffect(() => {
+    if (open) setOptions(initialOptions);
+  }, [open, initialOptions]);
+
+  const current = sheets.find(s => s.name === options?.sheet) ?? sheets[0];
+
+  const handleSelectSheet = (sheet: SheetPreview) => {
+    setOptions({ sheet: sheet.name, headerRow: sheet.headerRow, footerRows: sheet.footerRows });
+  };
+
+  const parseCount = (value: string, max: number) => {
+    const num = parseInt(value, 10);
+    return isNaN(num) ? 0 : Math.min(Math.max(num, 0), max);
+  };
+
+  if (!current || !options) return null;
+
+  const previewWidth = Math.max(0, ...current.preview.map(row => row.length));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Select Worksheet</DialogTitle>
+          <DialogDescription>
+            Choose the sheet with patient data{fileName ? ` in ${fileName}` : ''} and check where the header row starts.
+            Merged cells are filled in and date cells are read as dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {sheets.map(sheet => (
+            <button
+              key={sheet.name}
+              onClick={() => handleSelectSheet(sheet)}
+              className={cn(
+                "px-3 py-1.5 text-xs rounded-md transition-colors text-left",
+                sheet.name === current.name
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              )}
+            >
+              <span className="font-medium">{sheet.name}</span>
+              <span className="ml-2 opacity-70">{sheet.rowCount} × {sheet.columnCount}</span>
+            </button>
+          ))}
+        </div>
+
+        <ScrollArea className="h-[300px] border border-border rounded-lg">
+          {current.preview.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">This sheet is empty.</p>
+          ) : (
+            <table className="text-xs w-max min-w-full">
+              <tbody>
+                {current.preview.map((row, r) => (
+                  <tr
+                    key={r}
+                    className={cn(
+                      "border-b border-border/50",
+                      r === options.headerRow && "bg-primary/10 font-semibold",
+                      r < options.headerRow && "text-muted-foreground/50"
+                    )}
+                  >
+                    <td className="px-2 py-1 font-mono text-muted-foreground sticky left-0 bg-card">{r + 1}</td>
+                    {Array.from({ length: previewWidth }, (_, c) => (
+                      <td key={c} className="px-2 py-1 max-w-[160px] truncate" title={row[c] === null ? '' : String(row[c])}>
+                        {row[c] === null || row[c] === undefined ? '' : String(row[c])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="header-row" className="text-sm">Header row</Label>
+            <Input
+              id="header-row"
+              type="number"
+              min={1}
+              value={options.headerRow + 1}
+              onChange={e => setOptions({ ...options, headerRow: Math.max(0, parseCount(e.target.value, current.rowCount) - 1) })}
+              className="w-20 h-8"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="footer-rows" className="text-sm">Skip footer rows</Label>
+            <Input
+              id="footer-rows"
+              type="number"
+              min={0}
+              value={options.footerRows}
+              onChange={e => setOptions({ ...options, footerRows: parseCount(e.target.value, current.rowCount) })}
+              className="w-20 h-8"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {Math.max(0, current.rowCount - options.headerRow - 1 - options.footerRows)} data row(s) will be read
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(options)}>
+            Load Sheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
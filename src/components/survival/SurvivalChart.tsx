@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -10,9 +10,16 @@ import {
   Area,
   ReferenceLine,
   Legend,
-  AreaChart
+  AreaChart,
+  ComposedChart,
+  Scatter,
+  type TooltipProps
 } from 'recharts';
 import { motion } from 'framer-motion';
+import { stepAt, type GroupSurvivalSummary, type KaplanMeierStep, type LogRankResult } from '@/lib/survival-metrics';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NumberAtRiskTable, type AtRiskRow } from './NumberAtRiskTable';
+import { getSurvivalAtTime } from '@/lib/survival-utils';
 
 interface SurvivalDataPoint {
   time: number;
@@ -21,17 +28,40 @@ interface SurvivalDataPoint {
 
 interface PatientSurvivalData {
   patientId: string;
+  rowIndex: number;
   data: SurvivalDataPoint[];
   color: string;
 }
 
+export interface KaplanMeierGroupData extends GroupSurvivalSummary {
+  color: string;
+}
+
 interface SurvivalChartProps {
-  mode: 'single' | 'all';
+  mode: 'single' | 'all' | 'km';
   data: PatientSurvivalData[];
   timepoints?: number[];
-  selectedPatient?: string;
+  /** Row index of the patient shown in 'single' mode */
+  selectedPatient?: number;
+  /** Observed Kaplan–Meier curves per risk group, used in 'km' mode */
+  kmGroups?: KaplanMeierGroupData[];
+  logRank?: LogRankResult | null;
+  /** Observed Kaplan–Meier curve of the whole cohort, for the at-risk table in 'single' and 'all' modes */
+  cohortCurve?: KaplanMeierStep[] | null;
+  /** Modified curve drawn over the selected patient in 'single' mode (what-if scenarios) */
+  comparison?: { label: string; data: SurvivalDataPoint[] } | null;
 }
 
+const TICK_INTERVALS = [
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' }
+];
+
+// Chart series key of a patient's curve; display IDs may repeat, row indices do not
+const lineKey = (patient: PatientSurvivalData) => `row_${patient.rowIndex}`;
+
 // Color palette - greys with accent
 const CHART_COLORS = [
   '#3b3b3b', '#5a5a5a', '#787878', '#969696', '#b4b4b4',
@@ -43,19 +73,42 @@ export function SurvivalChart({
   mode,
   data,
   timepoints = [365, 730, 1095, 1825],
-  selectedPatient
+  selectedPatient,
+  kmGroups = [],
+  logRank,
+  cohortCurve,
+  comparison
 }: SurvivalChartProps) {
+  const [tickInterval, setTickInterval] = useState(365);
+
   const chartData = useMemo(() => {
+    if (mode === 'km') {
+      // Merge the group step functions onto a shared time grid
+      const allTimes = new Set<number>([0]);
+      kmGroups.forEach(group => group.curve.forEach(step => allTimes.add(step.time)));
+
+      return Array.from(allTimes).sort((a, b) => a - b).map(time => {
+        const point: Record<string, number | number[]> = { time, timeDays: time };
+        kmGroups.forEach(group => {
+          const step = stepAt(group.curve, time);
+          point[group.label] = step ? step.survival : 1;
+          point[`${group.label}__ci`] = step ? [step.lower, step.upper] : [1, 1];
+        });
+        return point;
+      });
+    }
+
     if (mode === 'single' && data.length > 0) {
-      const patientData = selectedPatient
-        ? data.find(d => d.patientId === selectedPatient) || data[0]
+      const patientData = selectedPatient !== undefined
+        ? data.find(d => d.rowIndex === selectedPatient) || data[0]
         : data[0];
       
       return patientData.data.map(point => ({
         time: Math.round(point.time),
         timeDays: point.time,
         probability: point.probability,
-        probabilityPercent: (point.probability * 100).toFixed(1)
+        probabilityPercent: (point.probability * 100).toFixed(1),
+        ...(comparison && { comparison: getSurvivalAtTime(comparison.data, point.time) })
       }));
     }
     
@@ -79,7 +132,7 @@ export function SurvivalChart({
         // Find the probability at this time (or interpolate)
         const exactPoint = patient.data.find(p => Math.round(p.time) === time);
         if (exactPoint) {
-          point[patient.patientId] = exactPoint.probability;
+          point[lineKey(patient)] = exactPoint.probability;
         } else {
           // Find surrounding points for interpolation
           const sortedData = [...patient.data].sort((a, b) => a.time - b.time);
@@ -88,18 +141,77 @@ export function SurvivalChart({
           
           if (before && after) {
             const ratio = (time - before.time) / (after.time - before.time);
-            point[patient.patientId] = before.probability + ratio * (after.probability - before.probability);
+            point[lineKey(patient)] = before.probability + ratio * (after.probability - before.probability);
           } else if (before) {
-            point[patient.patientId] = before.probability;
+            point[lineKey(patient)] = before.probability;
           } else if (after) {
-            point[patient.patientId] = after.probability;
+            point[lineKey(patient)] = after.probability;
           }
         }
       });
       
       return point;
     });
-  }, [mode, data, selectedPatient]);
+  }, [mode, data, selectedPatient, kmGroups, comparison]);
+
+  const maxTime = useMemo(
+    () => chartData.reduce((max, point) => Math.max(max, Number(point.time)), 0),
+    [chartData]
+  );
+
+  // Shared by the x-axis and the number-at-risk table so both line up
+  const ticks = useMemo(() => {
+    const count = Math.floor(maxTime / tickInterval);
+    return Array.from({ length: count + 1 }, (_, i) => i * tickInterval);
+  }, [maxTime, tickInterval]);
+
+  const atRiskRows = useMemo<AtRiskRow[]>(() => {
+    if (mode === 'km') return kmGroups.map(g => ({ label: g.label, color: g.color, curve: g.curve }));
+    return cohortCurve ? [{ label: 'All patients', curve: cohortCurve }] : [];
+  }, [mode, kmGroups, cohortCurve]);
+
+  // Censored observations are drawn as tick marks on each group's curve
+  const censorMarks = useMemo(() => {
+    if (mode !== 'km') return [];
+    return kmGroups.map(group => ({
+      label: group.label,
+      color: group.color,
+      points: group.curve
+        .filter(step => step.censored > 0)
+        .map(step => ({ time: step.time, survival: step.survival }))
+    }));
+  }, [mode, kmGroups]);
+
+  const KaplanMeierTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    const row = payload?.[0]?.payload as Record<string, number | number[]> | undefined;
+    if (!active || !row || row.timeDays === undefined) return null;
+
+    return (
+      <div className="glass-card rounded-lg p-3 shadow-lg">
+        <p className="text-xs font-medium text-muted-foreground mb-2">
+          Day {row.time} ({((row.time as number) / 365).toFixed(1)} years)
+        </p>
+        {kmGroups.map(group => {
+          const survival = row[group.label] as number;
+          const [lower, upper] = row[`${group.label}__ci`] as number[];
+          return (
+            <div key={group.label} className="flex items-center gap-2 text-sm">
+              <div
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: group.color }}
+              />
+              <span className="text-foreground">
+                {group.label}: {(survival * 100).toFixed(1)}%
+                <span className="text-muted-foreground text-xs ml-1">
+                  ({(lower * 100).toFixed(1)}–{(upper * 100).toFixed(1)}%)
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (!active || !payload?.length) return null;
@@ -116,7 +228,7 @@ export function SurvivalChart({
               style={{ backgroundColor: entry.color }}
             />
             <span className="text-foreground">
-              {mode === 'single' ? 'Survival' : entry.name}: {(entry.value * 100).toFixed(1)}%
+              {mode === 'single' ? (entry.dataKey === 'comparison' ? comparison?.label : 'Survival') : entry.name}: {(entry.value * 100).toFixed(1)}%
             </span>
           </div>
         ))}
@@ -131,13 +243,137 @@ export function SurvivalChart({
       transition={{ duration: 0.5 }}
       className="chart-container"
     >
-      <h3 className="section-header mb-4">
-        {mode === 'single' ? 'Survival Probability Curve' : 'Patient Survival Comparison'}
-      </h3>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="section-header">
+          {mode === 'single'
+            ? 'Survival Probability Curve'
+            : mode === 'all'
+              ? 'Patient Survival Comparison'
+              : 'Observed Survival by Risk Group'}
+        </h3>
+
+        <Select value={String(tickInterval)} onValueChange={v => setTickInterval(Number(v))}>
+          <SelectTrigger className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TICK_INTERVALS.map(option => (
+              <SelectItem key={option.days} value={String(option.days)} className="text-xs">
+                Ticks every {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === 'km' && (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-4 text-xs">
+          {kmGroups.map(group => (
+            <div key={group.label} className="flex items-center gap-2">
+              <div className="w-3 h-0.5" style={{ backgroundColor: group.color }} />
+              <span className="font-medium text-foreground">{group.label}</span>
+              <span className="text-muted-foreground">
+                n={group.n}, {group.events} events, median {group.median === null ? 'not reached' : `${Math.round(group.median)} days`}
+              </span>
+            </div>
+          ))}
+          {logRank && (
+            <span className="ml-auto font-mono text-muted-foreground">
+              Log-rank χ²={logRank.chiSquare.toFixed(2)} (df={logRank.df}), p={logRank.pValue < 0.001 ? '<0.001' : logRank.pValue.toFixed(3)}
+            </span>
+          )}
+        </div>
+      )}
       
       <div className="h-[350px] w-full">
         <ResponsiveContainer width="100%" height="100%">
-          {mode === 'single' ? (
+          {mode === 'km' ? (
+            <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="hsl(var(--chart-grid))"
+                strokeOpacity={0.5}
+              />
+
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, maxTime]}
+                ticks={ticks}
+                allowDataOverflow
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                tickLine={{ stroke: 'hsl(var(--border))' }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                label={{
+                  value: 'Time (days)',
+                  position: 'insideBottomRight',
+                  offset: -5,
+                  fill: 'hsl(var(--muted-foreground))',
+                  fontSize: 11
+                }}
+              />
+
+              <YAxis
+                domain={[0, 1]}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                tickLine={{ stroke: 'hsl(var(--border))' }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+              />
+
+              {timepoints.map((tp) => (
+                <ReferenceLine
+                  key={tp}
+                  x={tp}
+                  stroke="hsl(var(--border))"
+                  strokeDasharray="5 5"
+                  strokeOpacity={0.7}
+                />
+              ))}
+
+              <Tooltip content={<KaplanMeierTooltip />} />
+
+              {kmGroups.map(group => (
+                <Area
+                  key={`${group.label}__ci`}
+                  type="stepAfter"
+                  dataKey={`${group.label}__ci`}
+                  stroke="none"
+                  fill={group.color}
+                  fillOpacity={0.12}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+
+              {kmGroups.map(group => (
+                <Line
+                  key={group.label}
+                  type="stepAfter"
+                  dataKey={group.label}
+                  name={group.label}
+                  stroke={group.color}
+                  strokeWidth={2}
+                  dot={false}
+                  activeDot={{ r: 3 }}
+                  isAnimationActive={false}
+                />
+              ))}
+
+              {censorMarks.map(marks => (
+                <Scatter
+                  key={`${marks.label}__censored`}
+                  data={marks.points}
+                  dataKey="survival"
+                  fill={marks.color}
+                  isAnimationActive={false}
+                  shape={({ cx, cy }: { cx?: number; cy?: number }) => (
+                    <line x1={cx} x2={cx} y1={(cy ?? 0) - 4} y2={(cy ?? 0) + 4} stroke={marks.color} strokeWidth={1.5} />
+                  )}
+                />
+              ))}
+            </ComposedChart>
+          ) : mode === 'single' ? (
             <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
               <defs>
                 <linearGradient id="survivalGradient" x1="0" y1="0" x2="0" y2="1">
@@ -154,6 +390,10 @@ export function SurvivalChart({
               
               <XAxis
                 dataKey="time"
+                type="number"
+                domain={[0, maxTime]}
+                ticks={ticks}
+                allowDataOverflow
                 tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
                 tickLine={{ stroke: 'hsl(var(--border))' }}
                 axisLine={{ stroke: 'hsl(var(--border))' }}
@@ -202,6 +442,19 @@ export function SurvivalChart({
                 dot={false}
                 activeDot={{ r: 4, fill: '#3b3b3b', stroke: '#ffffff', strokeWidth: 2 }}
               />
+
+              {comparison && (
+                <Area
+                  type="stepAfter"
+                  dataKey="comparison"
+                  stroke="hsl(var(--risk-medium))"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  fill="none"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
             </AreaChart>
           ) : (
             <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
@@ -213,6 +466,10 @@ export function SurvivalChart({
               
               <XAxis
                 dataKey="time"
+                type="number"
+                domain={[0, maxTime]}
+                ticks={ticks}
+                allowDataOverflow
                 tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
                 tickLine={{ stroke: 'hsl(var(--border))' }}
                 axisLine={{ stroke: 'hsl(var(--border))' }}
@@ -242,9 +499,9 @@ export function SurvivalChart({
               
               {data.map((patient, idx) => (
                 <Line
-                  key={patient.patientId}
+                  key={patient.rowIndex}
                   type="stepAfter"
-                  dataKey={patient.patientId}
+                  dataKey={lineKey(patient)}
                   name={patient.patientId}
                   stroke={CHART_COLORS[idx % CHART_COLORS.length]}
                   strokeWidth={2}
@@ -256,6 +513,8 @@ export function SurvivalChart({
           )}
         </ResponsiveContainer>
       </div>
+
+      <NumberAtRiskTable rows={atRiskRows} ticks={ticks} maxTime={maxTime} />
     </motion.div>
   );
 }
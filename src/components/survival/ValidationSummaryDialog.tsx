@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import type { CellIssue, ValidationReport } from '@/lib/validation';
+
+interface ValidationSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: ValidationReport | null;
+  rowLabel: (row: number) => string;
+  /** Run the prediction despite the errors */
+  onOverride: () => void;
+}
+
+/** Example patients listed per problem */
+const MAX_EXAMPLES = 3;
+
+interface IssueGroup {
+  feature: string;
+  column: string;
+  message: string;
+  issues: CellIssue[];
+}
+
+export function ValidationSummaryDialog({ open, onOpenChange, report, rowLabel, onOverride }: ValidationSummaryDialogProps) {
+  // One line per feature and problem, most frequent first
+  const groups = useMemo(() => {
+    const byKey = new Map<string, IssueGroup>();
+    report?.issues.filter(i => i.severity === 'error').forEach(issue => {
+      const key = `${issue.column}\u001f${issue.message}`;
+      const group = byKey.get(key) ?? { feature: issue.feature, column: issue.column, message: issue.message, issues: [] };
+      group.issues.push(issue);
+      byKey.set(key, group);
+    });
+    return [...byKey.values()].sort((a, b) => b.issues.length - a.issues.length);
+  }, [report]);
+
+  const patientCount = useMemo(
+    () => new Set(report?.issues.filter(i => i.severity === 'error').map(i => i.row)).size,
+    [report]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            Invalid Input Values
+          </DialogTitle>
+          <DialogDescription>
+            {report?.errorCount ?? 0} value(s) in {patientCount} patient(s) do not match the model's feature schema.
+            Non-numeric values are imputed; out-of-range values are used as entered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {groups.map(group => (
+            <div key={`${group.column}-${group.message}`} className="rounded-lg border border-border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium font-mono truncate" title={group.column}>
+                  {group.column}
+                  {group.column !== group.feature && <span className="text-muted-foreground"> → {group.feature}</span>}
+                </p>
+                <Badge variant="destructive" className="shrink-0">{group.issues.length}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">{group.message}</p>
+              <p className="text-[11px] text-muted-foreground font-mono truncate">
+                {group.issues.slice(0, MAX_EXAMPLES).map(i => rowLabel(i.row)).join(', ')}
+                {group.issues.length > MAX_EXAMPLES && ', …'}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {report && report.warningCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {report.warningCount} further value(s) are valid but outside the training range.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Review Data
+          </Button>
+          <Button variant="destructive" onClick={onOverride}>
+            Predict Anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { motion } from 'framer-motion';
+import { RotateCcw, Save, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ModelBundle } from '@/lib/model-bundle';
+import { getSurvivalAtTime } from '@/lib/survival-utils';
+import { predictPatient, type PatientResult, type PredictionSettings } from '@/lib/prediction';
+import { matchLevel, whatIfControls } from '@/lib/what-if';
+
+interface WhatIfPanelProps {
+  bundle: ModelBundle;
+  row: Record<string, unknown>;
+  rowIndex: number;
+  /** All patient rows, used for slider ranges and steps */
+  cohort: Record<string, unknown>[];
+  settings: PredictionSettings;
+  baseline: PatientResult;
+  /** Features listed first, e.g. ranked by attribution */
+  featureOrder?: string[];
+  onPredictionChange: (result: PatientResult | null) => void;
+  onSave: (row: Record<string, unknown>) => void;
+}
+
+/** Maximum number of feature controls rendered at once */
+const MAX_VISIBLE_FEATURES = 60;
+
+type Override = string | number | null;
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+// Whether an override equals the patient's own value, so it need not be kept
+const isOriginal = (value: Override, original: unknown) =>
+  typeof value === 'string'
+    ? value.toLowerCase() === String(original ?? '').trim().toLowerCase()
+    : value === toNumber(original);
+
+export function WhatIfPanel({
+  bundle,
+  row,
+  rowIndex,
+  cohort,
+  settings,
+  baseline,
+  featureOrder,
+  onPredictionChange,
+  onSave
+}: WhatIfPanelProps) {
+  const [overrides, setOverrides] = useState<Record<string, Override>>({});
+  const [search, setSearch] = useState('');
+
+  // A different patient or saved edit starts a fresh scenario
+  useEffect(() => {
+    setOverrides({});
+  }, [row]);
+
+  const controls = useMemo(() => {
+    const rank = new Map((featureOrder ?? []).map((f, i) => [f, i]));
+    return whatIfControls(bundle, cohort, settings)
+      .sort((a, b) => (rank.get(a.feature) ?? Infinity) - (rank.get(b.feature) ?? Infinity));
+  }, [bundle, cohort, settings, featureOrder]);
+
+  const modifiedRow = useMemo(() => ({ ...row, ...overrides }), [row, overrides]);
+  const changedCount = Object.keys(overrides).length;
+
+  const prediction = useMemo(
+    () => (changedCount > 0 ? predictPatient(bundle, modifiedRow, rowIndex, settings) : null),
+    [bundle, modifiedRow, rowIndex, settings, changedCount]
+  );
+
+  useEffect(() => {
+    onPredictionChange(prediction);
+  }, [prediction, onPredictionChange]);
+
+  useEffect(() => () => onPredictionChange(null), [onPredictionChange]);
+
+  const visible = controls
+    .filter(c => c.feature.toLowerCase().includes(search.toLowerCase()))
+    .slice(0, MAX_VISIBLE_FEATURES);
+
+  const setValue = (column: string, value: Override) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (isOriginal(value, row[column])) delete next[column];
+      else next[column] = value;
+      return next;
+    });
+  };
+
+  const resetValue = (column: string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      delete next[column];
+      return next;
+    });
+  };
+
+  const delta = prediction ? prediction.riskScore - baseline.riskScore : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="glass-card rounded-xl p-5"
+    >
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h4 className="text-sm font-medium text-muted-foreground">What-if Scenario</h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            Adjust feature values to see how the prediction changes. The patient data is only updated when you save.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setOverrides({})} disabled={changedCount === 0} className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+          <Button size="sm" onClick={() => onSave(modifiedRow)} disabled={changedCount === 0} className="gap-2">
+            <Save className="w-4 h-4" />
+            Save to Data
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4 text-xs">
+        <div className="rounded-lg bg-muted/50 px-3 py-2">
+          <p className="text-muted-foreground">Risk score</p>
+          <p className="font-mono text-sm font-semibold">
+            {baseline.riskScore.toFixed(4)}
+            {prediction && (
+              <>
+                {' → '}{prediction.riskScore.toFixed(4)}
+                <span className={cn("ml-1", delta > 0 ? 'text-risk-high' : 'text-risk-low')}>
+                  ({delta > 0 ? '+' : ''}{delta.toFixed(4)})
+                </span>
+              </>
+            )}
+          </p>
+        </div>
+        {baseline.survivalProbabilities.map(sp => (
+          <div key={sp.year} className="rounded-lg bg-muted/50 px-3 py-2">
+            <p className="text-muted-foreground">S({sp.year}y)</p>
+            <p className="font-mono text-sm font-semibold">
+              {(sp.probability * 100).toFixed(1)}%
+              {prediction && ` → ${(getSurvivalAtTime(prediction.survivalData, sp.year * 365) * 100).toFixed(1)}%`}
+            </p>
+          </div>
+        ))}
+        {changedCount > 0 && (
+          <Badge variant="outline" className="self-center">{changedCount} feature(s) changed</Badge>
+        )}
+      </div>
+
+      <div className="relative mb-3 w-64">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Filter features..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="pl-9 h-9 bg-muted/50"
+        />
+      </div>
+
+      <ScrollArea className="h-[320px] pr-3">
+        <div className="space-y-3">
+          {visible.map(({ feature, column, levels, min, max, step }) => {
+            if (!column) {
+              return (
+                <div key={feature} className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <span className="w-48 truncate font-mono">{feature}</span>
+                  <span className="italic">not mapped to a column (imputed)</span>
+                </div>
+              );
+            }
+            const changed = column in overrides;
+            const original = levels ? matchLevel(levels, row[column]) : toNumber(row[column]);
+            const current = changed ? overrides[column] : original;
+            return (
+              <div key={feature} className="flex items-center gap-3">
+                <span className={cn("w-48 truncate font-mono text-xs", changed && "font-semibold text-foreground")} title={column !== feature ? `${feature} ← ${column}` : feature}>
+                  {feature}
+                </span>
+                {levels ? (
+                  <Select
+                    value={current === null ? '' : String(current)}
+                    onValueChange={v => setValue(column, levels.find(level => String(level) === v) ?? null)}
+                  >
+                    <SelectTrigger className="flex-1 h-8 font-mono text-xs" aria-label={feature}>
+                      <SelectValue placeholder="NA" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {levels.map(level => (
+                        <SelectItem key={String(level)} value={String(level)} className="font-mono text-xs">{level}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <>
+                    <Slider
+                      value={[typeof current === 'number' ? current : min]}
+                      min={min}
+                      max={max}
+                      step={step}
+                      onValueChange={([v]) => setValue(column, v)}
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      step={step === 1 ? 1 : 'any'}
+                      value={current ?? ''}
+                      placeholder="NA"
+                      onChange={e => setValue(column, toNumber(e.target.value))}
+                      className="w-28 h-8 font-mono text-xs"
+                      aria-label={feature}
+                    />
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => resetValue(column)}
+                  disabled={!changed}
+                  title={`Reset to ${original ?? 'NA'}`}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })}
+          {controls.length > visible.length && !search && (
+            <p className="text-xs text-muted-foreground">
+              Showing {visible.length} of {controls.length} features. Filter to find others.
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    </motion.div>
+  );
+}
@@ -3,3 +3,19 @@ export { MetricCard } from './MetricCard';
 export { SurvivalChart } from './SurvivalChart';
 export { DataTable } from './DataTable';
 export { PatientDataEditor } from './PatientDataEditor';
+export { PreprocessingPreview } from './PreprocessingPreview';
+export { ColumnMappingDialog } from './ColumnMappingDialog';
+export { ParseErrorList } from './ParseErrorList';
+export { SheetPickerDialog } from './SheetPickerDialog';
+export { NumberAtRiskTable } from './NumberAtRiskTable';
+export { EvaluationPanel } from './EvaluationPanel';
+export { CalibrationPlot } from './CalibrationPlot';
+export { RiskGroupDialog } from './RiskGroupDialog';
+export { AttributionWaterfall } from './AttributionWaterfall';
+export { WhatIfPanel } from './WhatIfPanel';
+export { ModelInspectionPanel } from './ModelInspectionPanel';
+export { DriftReportPanel } from './DriftReportPanel';
+export { SessionsDialog } from './SessionsDialog';
+export { FindReplaceDialog } from './FindReplaceDialog';
+export { ColumnDialog } from './ColumnDialog';
+export { ValidationSummaryDialog } from './ValidationSummaryDialog';
@@ -0,0 +1,39 @@
+import { useState, useCallback } from 'react';
+import {
+  commitChange,
+  createHistory,
+  redoChange,
+  undoChange,
+  type DataEdit,
+  type DataRow,
+  type SavedTable
+} from '@/lib/data-history';
+
+/**
+ * Patient table state with undo/redo. `reset` starts a new history, e.g. after an upload.
+ */
+export function useDataHistory() {
+  const [history, setHistory] = useState(() => createHistory([]));
+
+  const reset = useCallback((rows: DataRow[], columns?: string[], saved?: SavedTable) => {
+    setHistory(createHistory(rows, columns, saved));
+  }, []);
+
+  const commit = useCallback((label: string, edits: DataEdit[]) => {
+    setHistory(prev => commitChange(prev, label, edits));
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoChange), []);
+  const redo = useCallback(() => setHistory(redoChange), []);
+
+  return {
+    history,
+    data: history.current.rows,
+    reset,
+    commit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -0,0 +1,111 @@
+import { useState, useRef, useCallback, useLayoutEffect } from 'react';
+
+export interface VirtualRange {
+  /** First rendered index */
+  start: number;
+  /** One past the last rendered index */
+  end: number;
+}
+
+interface VirtualGridOptions {
+  rowCount: number;
+  columnCount: number;
+  rowHeight: number;
+  columnWidth: number;
+  /** Height of the sticky header above the rows */
+  headerHeight?: number;
+  /** Width of the frozen columns left of the scrolling ones */
+  frozenWidth?: number;
+  /** Extra rows and columns rendered beyond each edge */
+  overscan?: number;
+}
+
+/**
+ * Items of a fixed size that intersect a viewport, plus overscan
+ */
+export function visibleRange(offset: number, size: number, itemSize: number, count: number, overscan: number): VirtualRange {
+  if (count === 0 || itemSize <= 0) return { start: 0, end: 0 };
+  const first = Math.floor(Math.max(0, offset) / itemSize);
+  const last = Math.ceil((Math.max(0, offset) + Math.max(0, size)) / itemSize);
+  return {
+    start: Math.max(0, Math.min(count, first - overscan)),
+    end: Math.min(count, last + overscan)
+  };
+}
+
+const sameRange = (a: VirtualRange, b: VirtualRange) => a.start === b.start && a.end === b.end;
+
+/**
+ * Row and column windowing for a scrollable grid with fixed row height and
+ * column width. Attach `scrollRef` to the scrolling element; the grid only
+ * re-renders when the visible window changes.
+ */
+export function useVirtualGrid({
+  rowCount,
+  columnCount,
+  rowHeight,
+  columnWidth,
+  headerHeight = 0,
+  frozenWidth = 0,
+  overscan = 3
+}: VirtualGridOptions) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [rows, setRows] = useState<VirtualRange>({ start: 0, end: 0 });
+  const [columns, setColumns] = useState<VirtualRange>({ start: 0, end: 0 });
+
+  const measure = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const nextRows = visibleRange(el.scrollTop, el.clientHeight - headerHeight, rowHeight, rowCount, overscan);
+    const nextColumns = visibleRange(el.scrollLeft, el.clientWidth - frozenWidth, columnWidth, columnCount, overscan);
+    setRows(prev => (sameRange(prev, nextRows) ? prev : nextRows));
+    setColumns(prev => (sameRange(prev, nextColumns) ? prev : nextColumns));
+  }, [rowCount, columnCount, rowHeight, columnWidth, headerHeight, frozenWidth, overscan]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    measure();
+    el.addEventListener('scroll', measure, { passive: true });
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(measure) : null;
+    observer?.observe(el);
+    return () => {
+      el.removeEventListener('scroll', measure);
+      observer?.disconnect();
+    };
+  }, [measure]);
+
+  const scrollToRow = useCallback((index: number) => {
+    scrollRef.current?.scrollTo({ top: index * rowHeight });
+  }, [rowHeight]);
+
+  const scrollToColumn = useCallback((index: number) => {
+    scrollRef.current?.scrollTo({ left: index * columnWidth });
+  }, [columnWidth]);
+
+  // Scroll just enough to show a cell; column -1 stands for the frozen columns
+  const scrollIntoView = useCallback((row: number, column: number) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = row * rowHeight;
+    const viewHeight = el.clientHeight - headerHeight;
+    if (top < el.scrollTop) el.scrollTop = top;
+    else if (top + rowHeight > el.scrollTop + viewHeight) el.scrollTop = top + rowHeight - viewHeight;
+    if (column < 0) return;
+    const left = column * columnWidth;
+    const viewWidth = el.clientWidth - frozenWidth;
+    if (left < el.scrollLeft) el.scrollLeft = left;
+    else if (left + columnWidth > el.scrollLeft + viewWidth) el.scrollLeft = left + columnWidth - viewWidth;
+  }, [rowHeight, columnWidth, headerHeight, frozenWidth]);
+
+  return {
+    scrollRef,
+    rows,
+    columns,
+    totalHeight: headerHeight + rowCount * rowHeight,
+    totalWidth: frozenWidth + columnCount * columnWidth,
+    scrollToRow,
+    scrollToColumn,
+    scrollIntoView
+  };
+}
@@ -0,0 +1,120 @@
+import type { ModelBundle, SurvivalTree } from '@/lib/model-bundle';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+import { predictForest } from '@/lib/rsf';
+import { prepareModelInput } from '@/lib/preprocessing';
+
+/**
+ * Per-feature contributions to the forest risk score for a single patient.
+ *
+ * With internal-node CHF values in the bundle, contributions follow the tree
+ * paths (Saabas): every split adds the change in node risk to its feature, so
+ * the contributions sum exactly to prediction - baseline. Without them each
+ * feature is replaced by its training median and the change in risk is
+ * reported instead (not additive).
+ */
+
+export type AttributionMethod = 'tree-path' | 'median-substitution';
+
+export interface FeatureContribution {
+  feature: string;
+  contribution: number;
+  /** Value as read from the patient row (NaN when missing) */
+  raw: number;
+  /** Value the model saw, after preprocessing and imputation */
+  value: number;
+  imputed: boolean;
+}
+
+export interface PredictionAttribution {
+  method: AttributionMethod;
+  /** Expected risk score: mean root-node risk, or the risk of an all-median patient */
+  baseline: number;
+  prediction: number;
+  /** Sorted by absolute contribution, largest first */
+  contributions: FeatureContribution[];
+}
+
+const nodeRiskCache = new WeakMap<SurvivalTree, Float64Array>();
+
+/**
+ * Whether every node of every tree carries CHF values, as tree-path attribution needs
+ */
+export function hasInternalNodeValues(bundle: ModelBundle): boolean {
+  return bundle.trees.every(tree => tree.chf.every(values => values !== null));
+}
+
+// Risk score of each node: its cumulative hazard summed over event times
+function nodeRisks(tree: SurvivalTree): Float64Array {
+  let risks = nodeRiskCache.get(tree);
+  if (!risks) {
+    risks = new Float64Array(tree.chf.map(values => (values ? values.reduce((a, b) => a + b, 0) : NaN)));
+    nodeRiskCache.set(tree, risks);
+  }
+  return risks;
+}
+
+function treePathAttribution(bundle: ModelBundle, x: ArrayLike<number>): { baseline: number; contributions: number[] } {
+  const contributions = new Array<number>(bundle.featureCount).fill(0);
+  let baseline = 0;
+
+  for (const tree of bundle.trees) {
+    const risks = nodeRisks(tree);
+    let node = 0;
+    baseline += risks[0];
+    while (tree.childrenLeft[node] !== -1) {
+      const feature = tree.feature[node];
+      const child = x[feature] <= tree.threshold[node] ? tree.childrenLeft[node] : tree.childrenRight[node];
+      contributions[feature] += risks[child] - risks[node];
+      node = child;
+    }
+  }
+
+  const treeCount = bundle.trees.length;
+  return { baseline: baseline / treeCount, contributions: contributions.map(c => c / treeCount) };
+}
+
+function medianSubstitution(bundle: ModelBundle, x: ArrayLike<number>, prediction: number): { baseline: number; contributions: number[] } {
+  const medians = bundle.features.map(f => bundle.featureMedians[f] ?? NaN);
+  const probe = Float64Array.from(x);
+  const contributions = bundle.features.map((_, idx) => {
+    if (!Number.isFinite(medians[idx]) || probe[idx] === medians[idx]) return 0;
+    const original = probe[idx];
+    probe[idx] = medians[idx];
+    const substituted = predictForest(bundle, probe).riskScore;
+    probe[idx] = original;
+    return prediction - substituted;
+  });
+  return { baseline: predictForest(bundle, medians).riskScore, contributions };
+}
+
+/**
+ * Explain one patient's risk score in terms of the model features
+ */
+export function explainPrediction(
+  bundle: ModelBundle,
+  row: Record<string, unknown>,
+  rawPtpm: boolean,
+  mapping?: ColumnMapping | null
+): PredictionAttribution {
+  const input = prepareModelInput(row, bundle, rawPtpm, mapping);
+  const prediction = predictForest(bundle, input.values).riskScore;
+  const method: AttributionMethod = hasInternalNodeValues(bundle) ? 'tree-path' : 'median-substitution';
+  const { baseline, contributions } = method === 'tree-path'
+    ? treePathAttribution(bundle, input.values)
+    : medianSubstitution(bundle, input.values, prediction);
+
+  return {
+    method,
+    baseline,
+    prediction,
+    contributions: bundle.features
+      .map((feature, idx) => ({
+        feature,
+        contribution: contributions[idx],
+        raw: input.raw[idx],
+        value: input.values[idx],
+        imputed: input.imputed.includes(feature)
+      }))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+  };
+}
@@ -0,0 +1,226 @@
+import { cellEdit, parseCellInput, type DataEdit, type EditableTable } from '@/lib/data-history';
+import { parseStageOrdinal } from '@/lib/survival-utils';
+
+/**
+ * Range-based edits of the patient table: paste, fill, clear, find & replace
+ * and whole-column transforms. Every operation returns cell edits for
+ * `commitChange`, so it is undoable and shows up in the change log.
+ *
+ * Ranges address rows by index and columns by their position in the
+ * editor's column order. Derived columns are skipped: their cells follow
+ * their formula, so edits to them would be recomputed straight away.
+ */
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface FindReplaceOptions {
+  /** Only replace cells whose whole text matches; otherwise replace substrings */
+  wholeCell: boolean;
+  caseSensitive: boolean;
+}
+
+export type ColumnTransform = 'clear' | 'number' | 'log1p' | 'log2p1' | 'zscore' | 'stage';
+
+export const COLUMN_TRANSFORMS: { id: ColumnTransform; label: string }[] = [
+  { id: 'clear', label: 'Clear values' },
+  { id: 'number', label: 'Convert to number' },
+  { id: 'log1p', label: 'Natural log, ln(x + 1)' },
+  { id: 'log2p1', label: 'Log2, log2(x + 1)' },
+  { id: 'zscore', label: 'Standardize (z-score)' },
+  { id: 'stage', label: 'Stage to ordinal (I–IV → 1–4)' }
+];
+
+/**
+ * Range spanned by two corners, in either order
+ */
+export function rangeBetween(a: CellPosition, b: CellPosition): CellRange {
+  return {
+    top: Math.min(a.row, b.row),
+    left: Math.min(a.col, b.col),
+    bottom: Math.max(a.row, b.row),
+    right: Math.max(a.col, b.col)
+  };
+}
+
+export function inRange(range: CellRange | null, row: number, col: number): boolean {
+  return !!range && row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+}
+
+/**
+ * Text rendering of a cell, as used for copy and find
+ */
+export function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Split clipboard text copied from Excel or a TSV file into rows of cells
+ */
+export function parseClipboard(text: string): string[][] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines.map(line => line.split('\t').map(cell => {
+    const trimmed = cell.trim();
+    return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+      ? trimmed.slice(1, -1).replace(/""/g, '"')
+      : cell;
+  }));
+}
+
+/**
+ * Tab-separated text of a range, for the clipboard
+ */
+export function rangeToText(table: EditableTable, columns: string[], range: CellRange): string {
+  const lines: string[] = [];
+  for (let r = range.top; r <= range.bottom; r++) {
+    lines.push(columns.slice(range.left, range.right + 1).map(c => cellText(table.rows[r]?.[c])).join('\t'));
+  }
+  return lines.join('\n');
+}
+
+function collect(
+  table: EditableTable,
+  columns: string[],
+  range: CellRange,
+  value: (row: number, col: number) => unknown
+): DataEdit[] {
+  const edits: DataEdit[] = [];
+  for (let r = range.top; r <= Math.min(range.bottom, table.rows.length - 1); r++) {
+    for (let c = range.left; c <= Math.min(range.right, columns.length - 1); c++) {
+      if (columns[c] in table.formulas) continue;
+      const edit = cellEdit(table, r, columns[c], value(r, c));
+      if (edit) edits.push(edit);
+    }
+  }
+  return edits;
+}
+
+/**
+ * Paste a block of cells at the top-left of the selection. A single copied
+ * value fills the whole selection; larger blocks are clipped at the table edge.
+ */
+export function pasteEdits(table: EditableTable, columns: string[], selection: CellRange, block: string[][]): DataEdit[] {
+  if (block.length === 0) return [];
+  if (block.length === 1 && block[0].length === 1) {
+    const value = parseCellInput(block[0][0]);
+    return collect(table, columns, selection, () => value);
+  }
+  const width = block.reduce((max, line) => Math.max(max, line.length), 0);
+  const target = {
+    top: selection.top,
+    left: selection.left,
+    bottom: selection.top + block.length - 1,
+    right: selection.left + width - 1
+  };
+  return collect(table, columns, target, (r, c) => parseCellInput(block[r - selection.top][c - selection.left] ?? ''));
+}
+
+/**
+ * Copy the first row of the range into the rows below it
+ */
+export function fillDownEdits(table: EditableTable, columns: string[], range: CellRange): DataEdit[] {
+  return collect(table, columns, range, (_, c) => table.rows[range.top]?.[columns[c]] ?? null);
+}
+
+/**
+ * Copy the first column of the range into the columns to its right
+ */
+export function fillRightEdits(table: EditableTable, columns: string[], range: CellRange): DataEdit[] {
+  return collect(table, columns, range, r => table.rows[r]?.[columns[range.left]] ?? null);
+}
+
+export function clearEdits(table: EditableTable, columns: string[], range: CellRange): DataEdit[] {
+  return collect(table, columns, range, () => null);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace text in the given columns. Replaced cells are re-parsed, so "0.05"
+ * becomes a number and a blank replacement becomes missing.
+ */
+export function findReplaceEdits(
+  table: EditableTable,
+  columns: string[],
+  find: string,
+  replace: string,
+  options: FindReplaceOptions
+): DataEdit[] {
+  // Matching "" as a whole cell finds missing values; as a substring it would match everywhere
+  if (find === '' && !options.wholeCell) return [];
+  const pattern = new RegExp(
+    options.wholeCell ? `^${escapeRegExp(find)}$` : escapeRegExp(find),
+    options.caseSensitive ? 'g' : 'gi'
+  );
+
+  const editable = columns.filter(column => !(column in table.formulas));
+  const edits: DataEdit[] = [];
+  table.rows.forEach((row, r) => {
+    for (const column of editable) {
+      const text = cellText(row[column]);
+      pattern.lastIndex = 0;
+      if (!pattern.test(text)) continue;
+      const edit = cellEdit(table, r, column, parseCellInput(text.replace(pattern, () => replace)));
+      if (edit) edits.push(edit);
+    }
+  });
+  return edits;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Apply a transform to every row of one column. Missing values stay missing;
+ * numeric transforms leave non-numeric cells unchanged.
+ */
+export function transformColumnEdits(table: EditableTable, column: string, transform: ColumnTransform): DataEdit[] {
+  const values = table.rows.map(row => row[column]);
+  let next: (value: unknown) => unknown;
+
+  switch (transform) {
+    case 'clear':
+      next = () => null;
+      break;
+    case 'number':
+      next = value => toNumber(value) ?? value;
+      break;
+    case 'log1p':
+    case 'log2p1': {
+      const log = transform === 'log1p' ? Math.log1p : (x: number) => Math.log2(x + 1);
+      next = value => {
+        const num = toNumber(value);
+        return num !== null && num > -1 ? log(num) : value;
+      };
+      break;
+    }
+    case 'zscore': {
+      const nums = values.map(toNumber).filter((v): v is number => v !== null);
+      const mean = nums.reduce((a, b) => a + b, 0) / Math.max(1, nums.length);
+      const sd = Math.sqrt(nums.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, nums.length - 1));
+      next = value => {
+        const num = toNumber(value);
+        return num !== null && sd > 0 ? (num - mean) / sd : value;
+      };
+      break;
+    }
+    case 'stage':
+      next = value => (value === null || value === undefined || value === '' ? null : parseStageOrdinal(value));
+      break;
+  }
+
+  return values.flatMap((value, r) => cellEdit(table, r, column, value == null ? value : next(value)) ?? []);
+}
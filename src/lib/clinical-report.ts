@@ -0,0 +1,266 @@
+import type { ModelBundle } from '@/lib/model-bundle';
+import type { PatientResult, PredictionSettings } from '@/lib/prediction';
+import type { PredictionAttribution } from '@/lib/attribution';
+import { riskGroupTone, type RiskTone } from '@/lib/risk-groups';
+import { PdfDocument, type PdfColor } from '@/lib/pdf';
+
+/**
+ * One-page clinical reports of a patient's prediction, for tumor boards:
+ * risk score and group, survival curve, S(t) at the selected timepoints, the
+ * features contributing most to the risk, model and data provenance and a
+ * disclaimer. A batch is one PDF file per patient, named by `reportFileName`.
+ */
+
+/** Cohort-wide details shared by every report of a batch */
+export interface ReportContext {
+  modelFileName: string | null;
+  dataFileName: string | null;
+  /** Rows in the uploaded table */
+  cohortSize: number;
+  settings: PredictionSettings;
+  /** Risk group labels from lowest to highest risk */
+  riskGroups: string[];
+  /** ISO timestamp printed on every page */
+  generatedAt: string;
+}
+
+export interface PatientReportInput {
+  row: Record<string, unknown>;
+  /** Position of the row in the uploaded table; null for rows added in the app */
+  uploadedRow: number | null;
+  result: PatientResult;
+  /** Why the patient is outside the training distribution, when flagged */
+  outlier: string | null;
+  /** Model input values changed in the app after upload */
+  editedValues: number;
+}
+
+export const REPORT_DISCLAIMER =
+  'For research use only. This report was generated by a random survival forest from the data entered and is ' +
+  'not a medical device. Predictions are estimates for patients resembling the training cohort, have not been ' +
+  'validated for individual treatment decisions and must be interpreted by qualified clinicians together with ' +
+  'all other clinical information.';
+
+/** Contributions listed per patient */
+export const REPORT_TOP_FEATURES = 8;
+
+/** Imputed features named per patient; the rest are counted */
+export const REPORT_IMPUTED_NAMES = 10;
+
+const MARGIN = 48;
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.85, 0.86, 0.88];
+const PRIMARY: PdfColor = [0.15, 0.39, 0.92];
+const TONE_COLORS: Record<RiskTone, PdfColor> = {
+  low: [0.13, 0.6, 0.36],
+  medium: [0.88, 0.56, 0.07],
+  high: [0.84, 0.19, 0.19]
+};
+
+const DAYS_PER_YEAR = 365;
+const CURVE_HEIGHT = 170;
+const HEADING_HEIGHT = 20;
+const LINE_HEIGHT = 11;
+const CONTRIBUTION_ROW_HEIGHT = 15;
+
+const formatNumber = (value: number) => (Number.isNaN(value) ? 'missing' : Number.isInteger(value) ? String(value) : value.toPrecision(4));
+
+function sectionHeading(pdf: PdfDocument, y: number, title: string): number {
+  pdf.text(MARGIN, y, title, { size: 11, bold: true });
+  pdf.line(MARGIN, y + 5, pdf.width - MARGIN, y + 5, { color: RULE, width: 0.75 });
+  return y + HEADING_HEIGHT;
+}
+
+function keyValue(pdf: PdfDocument, x: number, y: number, key: string, value: string, color?: PdfColor): void {
+  pdf.text(x, y, key, { size: 8, color: MUTED });
+  pdf.text(x, y + 14, value, { size: 12, bold: true, color });
+}
+
+// Step curve of S(t) with the selected timepoints marked
+function drawSurvivalCurve(pdf: PdfDocument, top: number, result: PatientResult, timepoints: number[]): number {
+  const height = CURVE_HEIGHT;
+  const left = MARGIN + 30;
+  const right = pdf.width - MARGIN;
+  const bottom = top + height;
+  const maxYears = Math.max(
+    ...timepoints,
+    ...result.survivalData.map(p => p.time / DAYS_PER_YEAR),
+    1
+  );
+  const xAt = (years: number) => left + (years / maxYears) * (right - left);
+  const yAt = (probability: number) => bottom - probability * height;
+
+  for (let p = 0; p <= 1.0001; p += 0.25) {
+    pdf.line(left, yAt(p), right, yAt(p), { color: RULE, width: 0.5 });
+    pdf.text(left - 6, yAt(p) + 3, `${Math.round(p * 100)}%`, { size: 7, color: MUTED, align: 'right' });
+  }
+  const step = maxYears > 10 ? 5 : maxYears > 4 ? 2 : 1;
+  for (let years = 0; years <= maxYears; years += step) {
+    pdf.text(xAt(years), bottom + 11, String(years), { size: 7, color: MUTED, align: 'center' });
+  }
+  pdf.text((left + right) / 2, bottom + 23, 'Years', { size: 8, color: MUTED, align: 'center' });
+  pdf.line(left, top, left, bottom, { color: MUTED, width: 0.75 });
+  pdf.line(left, bottom, right, bottom, { color: MUTED, width: 0.75 });
+
+  const points: [number, number][] = [[xAt(0), yAt(1)]];
+  let previous = 1;
+  result.survivalData.forEach(({ time, probability }) => {
+    const x = xAt(time / DAYS_PER_YEAR);
+    points.push([x, yAt(previous)], [x, yAt(probability)]);
+    previous = probability;
+  });
+  points.push([right, yAt(previous)]);
+  pdf.polyline(points, { color: PRIMARY, width: 1.5 });
+
+  result.survivalProbabilities.forEach(({ year, probability }) => {
+    pdf.line(xAt(year), top, xAt(year), bottom, { color: MUTED, width: 0.5, dash: [2, 2] });
+    pdf.rect(xAt(year) - 2, yAt(probability) - 2, 4, 4, { fill: PRIMARY });
+  });
+  return bottom + 36;
+}
+
+function drawContributions(pdf: PdfDocument, top: number, attribution: PredictionAttribution, maxRows: number): number {
+  const rows = attribution.contributions.slice(0, maxRows);
+  const largest = Math.max(...rows.map(c => Math.abs(c.contribution)), 1e-12);
+  const center = MARGIN + 360;
+  const halfWidth = pdf.width - MARGIN - center - 50;
+  let y = top;
+
+  pdf.text(MARGIN, y, 'Feature', { size: 8, color: MUTED });
+  pdf.text(MARGIN + 250, y, 'Value', { size: 8, color: MUTED, align: 'right' });
+  pdf.text(center, y, '← lowers risk · raises risk →', { size: 8, color: MUTED, align: 'center' });
+  y += 14;
+  rows.forEach(c => {
+    pdf.text(MARGIN, y, c.feature, { size: 9 });
+    const value = c.imputed ? `missing (imputed ${formatNumber(c.value)})` : formatNumber(c.raw);
+    pdf.text(MARGIN + 250, y, value, { size: 9, color: c.imputed ? MUTED : undefined, align: 'right' });
+    const width = (Math.abs(c.contribution) / largest) * halfWidth;
+    const color = c.contribution >= 0 ? TONE_COLORS.high : TONE_COLORS.low;
+    pdf.rect(c.contribution >= 0 ? center : center - width, y - 8, Math.max(width, 0.5), 9, { fill: color });
+    const label = `${c.contribution >= 0 ? '+' : ''}${c.contribution.toFixed(3)}`;
+    pdf.text(pdf.width - MARGIN, y, label, { size: 8, align: 'right' });
+    y += CONTRIBUTION_ROW_HEIGHT;
+  });
+  pdf.line(center, top + 4, center, y - 4, { color: MUTED, width: 0.5 });
+
+  const note = attribution.method === 'tree-path'
+    ? `Contributions follow the tree paths and sum to the risk score minus the model's baseline of ${attribution.baseline.toFixed(3)}.`
+    : `Change in risk score when each feature is replaced by its training median; contributions are not additive.`;
+  pdf.text(MARGIN, y + 2, note, { size: 7.5, color: MUTED });
+  return y + 24;
+}
+
+function imputedSummary(features: string[]): string {
+  if (features.length === 0) return 'None';
+  const named = features.slice(0, REPORT_IMPUTED_NAMES).join(', ');
+  const rest = features.length - REPORT_IMPUTED_NAMES;
+  return rest > 0 ? `${named} and ${rest} more` : named;
+}
+
+/**
+ * Draw one patient's report on a new page. Blocks that would run into the
+ * disclaimer are shortened or left out, so the report never needs a second page.
+ */
+export function drawPatientReport(
+  pdf: PdfDocument,
+  bundle: ModelBundle,
+  patient: PatientReportInput,
+  attribution: PredictionAttribution | null,
+  context: ReportContext
+): void {
+  const { result } = patient;
+  pdf.addPage();
+
+  pdf.text(MARGIN, MARGIN + 10, 'Survival Prediction Report', { size: 18, bold: true });
+  pdf.text(pdf.width - MARGIN, MARGIN + 10, `Generated ${context.generatedAt.replace('T', ' ').slice(0, 16)} UTC`, {
+    size: 8,
+    color: MUTED,
+    align: 'right'
+  });
+  pdf.line(MARGIN, MARGIN + 20, pdf.width - MARGIN, MARGIN + 20, { color: PRIMARY, width: 1.5 });
+
+  const disclaimer = pdf.wrapText(REPORT_DISCLAIMER, pdf.width - 2 * MARGIN, 7.5);
+  const footerTop = pdf.height - MARGIN - disclaimer.length * 10;
+  const contentBottom = footerTop - 20;
+  let y = MARGIN + 44;
+  const fits = (height: number) => y + height <= contentBottom;
+
+  const column = (pdf.width - 2 * MARGIN) / 3;
+  const tone = riskGroupTone(result.riskGroup, context.riskGroups);
+  keyValue(pdf, MARGIN, y, 'PATIENT', result.patientId);
+  keyValue(pdf, MARGIN + column, y, 'RISK SCORE', result.riskScore.toFixed(4));
+  keyValue(pdf, MARGIN + 2 * column, y, 'RISK GROUP', result.riskGroup ?? '—', tone ? TONE_COLORS[tone] : undefined);
+  y += 34;
+
+  const flags = [
+    patient.outlier,
+    result.imputationFlag ? `${result.imputedFeatures.length} of ${bundle.features.length} features imputed` : null
+  ].filter((flag): flag is string => !!flag);
+  flags.forEach(flag => {
+    if (!fits(12)) return;
+    pdf.text(MARGIN, y, `Caution: ${flag}`, { size: 8.5, color: TONE_COLORS.medium });
+    y += 12;
+  });
+  y += 10;
+
+  // Heading, curve with its axis labels and the row of S(t) values
+  if (fits(HEADING_HEIGHT + CURVE_HEIGHT + 36 + 36)) {
+    y = sectionHeading(pdf, y, 'Predicted Survival');
+    y = drawSurvivalCurve(pdf, y, result, context.settings.timepoints);
+    const cell = (pdf.width - 2 * MARGIN) / Math.max(result.survivalProbabilities.length, 1);
+    result.survivalProbabilities.forEach(({ year, probability }, i) => {
+      const x = MARGIN + i * cell + cell / 2;
+      pdf.text(x, y, `S(${year} year${year === 1 ? '' : 's'})`, { size: 8, color: MUTED, align: 'center' });
+      pdf.text(x, y + 15, `${(probability * 100).toFixed(1)}%`, { size: 12, bold: true, align: 'center' });
+    });
+    y += 36;
+  }
+
+  if (attribution) {
+    // Heading, column labels and the note below the bars take 58pt besides the rows
+    const rows = Math.min(REPORT_TOP_FEATURES, Math.floor((contentBottom - y - HEADING_HEIGHT - 38) / CONTRIBUTION_ROW_HEIGHT));
+    if (rows > 0) {
+      y = sectionHeading(pdf, y, 'Top Contributing Features');
+      y = drawContributions(pdf, y, attribution, rows);
+    }
+  }
+
+  const showProvenance = fits(HEADING_HEIGHT + LINE_HEIGHT);
+  if (showProvenance) y = sectionHeading(pdf, y, 'Model and Data');
+  const mapping = context.settings.mapping;
+  const remapped = mapping ? bundle.features.filter(f => mapping[f] !== undefined && mapping[f] !== f).length : 0;
+  const provenance: [string, string][] = [
+    ['Model', `${bundle.name ?? 'Unnamed model'}${bundle.version ? ` v${bundle.version}` : ''}${context.modelFileName ? ` (${context.modelFileName})` : ''}`],
+    ['Forest', `${bundle.trees.length} trees, ${bundle.features.length} features${bundle.trainingSummary?.n ? `, trained on ${bundle.trainingSummary.n} patients` : ''}`],
+    [
+      'Data',
+      `${context.dataFileName ?? 'Unsaved table'}, ${patient.uploadedRow === null ? 'row added after upload' : `row ${patient.uploadedRow + 1} of ${context.cohortSize}`}`
+    ],
+    ['Input', `${context.settings.rawPtpm ? 'Raw pTPM values, log1p-transformed and scaled' : 'Preprocessed protein values'}; ${remapped} feature(s) read from renamed columns`],
+    ['Imputed', imputedSummary(result.imputedFeatures)],
+    ['Edited', patient.editedValues ? `${patient.editedValues} model input value(s) changed after upload` : 'None']
+  ];
+  for (const [key, value] of provenance) {
+    const room = Math.floor((contentBottom - y) / LINE_HEIGHT) + 1;
+    if (!showProvenance || room < 1) break;
+    const wrapped = pdf.wrapText(value, pdf.width - 2 * MARGIN - 70, 8.5);
+    const lines = wrapped.length > room ? [...wrapped.slice(0, room - 1), `${wrapped[room - 1]} …`] : wrapped;
+    pdf.text(MARGIN, y, key, { size: 8.5, color: MUTED });
+    lines.forEach((line, i) => pdf.text(MARGIN + 70, y + i * LINE_HEIGHT, line, { size: 8.5 }));
+    y += Math.max(lines.length, 1) * LINE_HEIGHT + 2;
+  }
+
+  let footer = footerTop;
+  pdf.line(MARGIN, footer - 10, pdf.width - MARGIN, footer - 10, { color: RULE, width: 0.75 });
+  disclaimer.forEach(line => {
+    pdf.text(MARGIN, footer, line, { size: 7.5, color: MUTED });
+    footer += 10;
+  });
+}
+
+/**
+ * File name of a single patient's report
+ */
+export function reportFileName(patientId: string): string {
+  return `survival_report_${patientId.replace(/[^\w.-]+/g, '_')}.pdf`;
+}
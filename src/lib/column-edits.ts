@@ -0,0 +1,169 @@
+import { formulaOrder, recomputeEdits, type DataEdit, type EditableTable } from '@/lib/data-history';
+import { compileExpression, renameReference } from '@/lib/expressions';
+
+/**
+ * Edits that add, rename, move, delete and derive columns of the patient
+ * table. Like the cell edits in `bulk-edit`, they are committed with
+ * `commitChange` and can be undone.
+ */
+
+/**
+ * Raised for a column operation that would leave the table inconsistent
+ */
+export class ColumnEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ColumnEditError';
+  }
+}
+
+/**
+ * Problem with a proposed column name, or null when it can be used
+ */
+export function columnNameError(table: EditableTable, name: string, current?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Column name is required';
+  if (trimmed !== name) return 'Column name cannot start or end with spaces';
+  if (name !== current && table.columns.includes(name)) return `Column '${name}' already exists`;
+  return null;
+}
+
+/**
+ * Derived columns whose formula reads the given column
+ */
+export function dependentColumns(table: EditableTable, column: string): string[] {
+  return Object.keys(table.formulas).filter(derived => {
+    try {
+      return compileExpression(table.formulas[derived], table.columns).references.includes(column);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Check a formula for a derived column; throws an ExpressionError when it does
+ * not parse, reads an unknown column or would make formulas circular
+ */
+export function validateFormula(table: EditableTable, column: string, formula: string): void {
+  const columns = table.columns.includes(column) ? table.columns : [...table.columns, column];
+  compileExpression(formula, columns);
+  formulaOrder({ columns, formulas: { ...table.formulas, [column]: formula } });
+}
+
+/**
+ * Add an empty column, or a derived column when a formula is given. The
+ * derived values are filled in when the change is committed.
+ */
+export function addColumnEdits(table: EditableTable, name: string, formula: string | null = null, index = table.columns.length): DataEdit[] {
+  const problem = columnNameError(table, name);
+  if (problem) throw new ColumnEditError(problem);
+  if (formula !== null) validateFormula(table, name, formula);
+  return [{
+    type: 'insertColumn',
+    index,
+    column: name,
+    source: null,
+    formula,
+    values: table.rows.map(() => null)
+  }];
+}
+
+/**
+ * Set, change or remove (null) the formula of an existing column
+ */
+export function formulaEdits(table: EditableTable, column: string, formula: string | null): DataEdit[] {
+  const before = table.formulas[column] ?? null;
+  if (formula !== null) validateFormula(table, column, formula);
+  return before === formula ? [] : [{ type: 'formula', column, before, after: formula }];
+}
+
+/**
+ * Rename a column; formulas that read it are rewritten to the new name
+ */
+export function renameColumnEdits(table: EditableTable, column: string, name: string): DataEdit[] {
+  if (name === column) return [];
+  const problem = columnNameError(table, name, column);
+  if (problem) throw new ColumnEditError(problem);
+  const index = table.columns.indexOf(column);
+  if (index < 0) throw new ColumnEditError(`Unknown column '${column}'`);
+
+  const edits: DataEdit[] = [{ type: 'renameColumn', index, before: column, after: name }];
+  for (const derived of dependentColumns(table, column)) {
+    const before = table.formulas[derived];
+    edits.push({ type: 'formula', column: derived, before, after: renameReference(before, column, name) });
+  }
+  return edits;
+}
+
+/**
+ * Delete a column. Columns that derived columns read cannot be deleted.
+ */
+export function deleteColumnEdits(table: EditableTable, column: string): DataEdit[] {
+  const index = table.columns.indexOf(column);
+  if (index < 0) throw new ColumnEditError(`Unknown column '${column}'`);
+  const dependents = dependentColumns(table, column);
+  if (dependents.length > 0) {
+    throw new ColumnEditError(`${column} is used by derived column(s) ${dependents.join(', ')}`);
+  }
+  return [{
+    type: 'deleteColumn',
+    index,
+    column,
+    source: table.columnSources[index],
+    formula: table.formulas[column] ?? null,
+    values: table.rows.map(row => row[column] ?? null)
+  }];
+}
+
+/**
+ * Move a column to another position in the column order
+ */
+export function moveColumnEdits(table: EditableTable, column: string, to: number): DataEdit[] {
+  const from = table.columns.indexOf(column);
+  const target = Math.max(0, Math.min(table.columns.length - 1, to));
+  return from < 0 || from === target ? [] : [{ type: 'moveColumn', from, to: target }];
+}
+
+/**
+ * Values a formula would produce for the first rows, for previews
+ */
+export function previewFormula(table: EditableTable, column: string, formula: string, count: number): unknown[] {
+  validateFormula(table, column, formula);
+  const formulas = { ...table.formulas, [column]: formula };
+  const rows = table.rows.slice(0, count);
+  const preview = recomputeEdits({ ...table, rows, formulas, columns: table.columns.includes(column) ? table.columns : [...table.columns, column] });
+  const values = rows.map(row => row[column] ?? null);
+  preview.forEach(edit => {
+    if (edit.type === 'cell' && edit.column === column) values[edit.row] = edit.after;
+  });
+  return values;
+}
+
+/**
+ * How the column names of a change map when it is applied (or, with
+ * `forward` false, reverted): old name to new name, or null when the column
+ * is removed. Columns that are unaffected are not listed.
+ */
+export function columnRenames(edits: DataEdit[], forward = true): Map<string, string | null> {
+  const renames = new Map<string, string | null>();
+  const track = (from: string, to: string | null) => {
+    let found = false;
+    renames.forEach((current, start) => {
+      if (current === from) {
+        renames.set(start, to);
+        found = true;
+      }
+    });
+    if (!found && !renames.has(from)) renames.set(from, to);
+  };
+  const ordered = forward ? edits : [...edits].reverse();
+  for (const edit of ordered) {
+    if (edit.type === 'renameColumn') {
+      track(forward ? edit.before : edit.after, forward ? edit.after : edit.before);
+    } else if (edit.type === (forward ? 'deleteColumn' : 'insertColumn')) {
+      track(edit.column, null);
+    }
+  }
+  return renames;
+}
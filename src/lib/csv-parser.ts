@@ -0,0 +1,251 @@
+/**
+ * RFC 4180 delimited-text parser with delimiter detection and per-column type inference
+ */
+
+export type CellValue = string | number | null;
+export type ColumnType = 'number' | 'string' | 'empty';
+
+export interface ParseError {
+  /** 1-based line number where the offending record starts */
+  line: number;
+  message: string;
+}
+
+export interface ParsedTable {
+  columns: string[];
+  rows: Record<string, CellValue>[];
+  columnTypes: Record<string, ColumnType>;
+  errors: ParseError[];
+  delimiter?: string;
+}
+
+export interface ParseOptions {
+  /** Force a delimiter instead of detecting it */
+  delimiter?: string;
+}
+
+interface RawRecord {
+  fields: string[];
+  /** Whether each field was quoted; quoted fields keep their whitespace */
+  quoted: boolean[];
+  line: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const MISSING_TOKENS = new Set(['', 'NA', 'N/A', 'NAN', 'NULL', 'NONE', '#N/A']);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const ID_COLUMN_NAMES = new Set([
+  'id', 'sample', 'sampleid', 'samplename', 'patient', 'patientid',
+  'subject', 'subjectid', 'case', 'caseid', 'barcode', 'mrn'
+]);
+
+/**
+ * Pick the delimiter that splits the first records into the most consistent number of fields
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    let { records } = splitRecords(sample, delimiter);
+    // The last record of a truncated sample may be cut short
+    if (sample.length < text.length) records = records.slice(0, -1);
+    const counts = records.slice(0, 10).map(r => r.fields.length);
+    const header = counts[0] ?? 1;
+    if (header < 2) continue;
+    const score = counts.filter(c => c === header).length * 1000 + header;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split text into records and fields. Quoted fields may contain delimiters,
+ * line breaks and escaped quotes (""). Accepts LF, CRLF and CR line endings.
+ */
+function splitRecords(text: string, delimiter: string): { records: RawRecord[]; errors: ParseError[] } {
+  const records: RawRecord[] = [];
+  const errors: ParseError[] = [];
+  let fields: string[] = [];
+  let quoted: boolean[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let afterQuote = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endField = () => {
+    fields.push(field);
+    quoted.push(fieldQuoted);
+    field = '';
+    fieldQuoted = false;
+    afterQuote = false;
+  };
+  const endRecord = () => {
+    endField();
+    records.push({ fields, quoted, line: recordLine });
+    fields = [];
+    quoted = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        afterQuote = true;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      recordLine = line;
+    } else if (char === '"' && field.trim() === '' && !afterQuote) {
+      // Padding before the opening quote is not part of the value
+      field = '';
+      inQuotes = true;
+      fieldQuoted = true;
+    } else if (afterQuote && char === ' ') {
+      // Padding after the closing quote is not part of the value either
+    } else {
+      if (afterQuote) {
+        errors.push({ line: recordLine, message: `Unexpected character after closing quote in field ${fields.length + 1}` });
+        afterQuote = false;
+      }
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: 'Unterminated quoted field' });
+  }
+  if (field !== '' || fields.length > 0 || afterQuote) {
+    endRecord();
+  }
+
+  return { records, errors };
+}
+
+/**
+ * Whether a raw cell is one of the usual missing-value spellings (blank, NA, NaN, NULL, ...)
+ */
+export function isMissing(value: string): boolean {
+  return MISSING_TOKENS.has(value.trim().toUpperCase());
+}
+
+/**
+ * Whether a column name looks like a patient/sample identifier
+ */
+export function isIdColumnName(name: string): boolean {
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return ID_COLUMN_NAMES.has(key) || /[_\s-]id$/i.test(name) || /[a-z]ID$/.test(name);
+}
+
+function hasLeadingZero(value: string): boolean {
+  return /^[+-]?0\d/.test(value.trim());
+}
+
+/**
+ * Decide whether a column holds numbers. ID-like columns and values with
+ * leading zeros (e.g. 00123) are kept as strings.
+ */
+function inferColumnType(name: string, values: string[]): ColumnType {
+  const present = values.filter(v => !isMissing(v));
+  if (present.length === 0) return 'empty';
+  if (isIdColumnName(name)) return 'string';
+  const numeric = present.every(v => NUMBER_PATTERN.test(v.trim()) && !hasLeadingZero(v));
+  return numeric ? 'number' : 'string';
+}
+
+/**
+ * Fill blank header names and rename duplicates, reporting each rename on line 1
+ */
+export function uniqueHeaders(raw: string[], errors: ParseError[], line: number = 1): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((header, idx) => {
+    let name = header.trim() || `Column_${idx + 1}`;
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    if (count > 0) {
+      const renamed = `${name}_${count + 1}`;
+      errors.push({ line, message: `Duplicate column "${name}" renamed to "${renamed}"` });
+      name = renamed;
+    }
+    return name;
+  });
+}
+
+/**
+ * Parse CSV/TSV text into typed rows. Records whose field count does not match
+ * the header are reported in `errors` and left out of `rows`.
+ */
+export function parseDelimited(text: string, options: ParseOptions = {}): ParsedTable {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(content);
+  const { records, errors } = splitRecords(content, delimiter);
+
+  const nonEmpty = records.filter(r => r.fields.some(f => f.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return { columns: [], rows: [], columnTypes: {}, errors, delimiter };
+  }
+
+  const [headerRecord, ...dataRecords] = nonEmpty;
+  const columns = uniqueHeaders(headerRecord.fields, errors);
+
+  const valid: RawRecord[] = [];
+  for (const record of dataRecords) {
+    if (record.fields.length !== columns.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${columns.length} fields but found ${record.fields.length}`
+      });
+      continue;
+    }
+    valid.push(record);
+  }
+
+  const columnTypes: Record<string, ColumnType> = {};
+  columns.forEach((col, idx) => {
+    columnTypes[col] = inferColumnType(col, valid.map(record => record.fields[idx]));
+  });
+
+  const rows = valid.map(({ fields, quoted }) => {
+    const row: Record<string, CellValue> = {};
+    columns.forEach((col, idx) => {
+      const value = quoted[idx] ? fields[idx] : fields[idx].trim();
+      if (isMissing(value)) {
+        row[col] = null;
+      } else if (columnTypes[col] === 'number') {
+        row[col] = Number(value);
+      } else {
+        row[col] = value;
+      }
+    });
+    return row;
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { columns, rows, columnTypes, errors, delimiter };
+}
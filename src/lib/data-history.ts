@@ -0,0 +1,512 @@
+import { compileExpression, ExpressionError, type CompiledExpression } from '@/lib/expressions';
+
+/**
+ * Undoable edits of the patient table.
+ *
+ * Every modification is recorded as a change: a labelled list of primitive
+ * edits that can be applied forwards or reverted in reverse order. Each
+ * current row remembers which uploaded row it came from, and each current
+ * column which uploaded column, so edited cells can be compared with (and
+ * restored to) their original values even after rows or columns were added,
+ * deleted or renamed.
+ *
+ * Derived columns hold a formula. Committing a change recomputes them and
+ * records the recomputed cells in the same change, so undo reverts both.
+ */
+
+export type DataRow = Record<string, unknown>;
+
+export type DataEdit =
+  | { type: 'cell'; row: number; column: string; before: unknown; after: unknown }
+  | { type: 'insertRow'; index: number; row: DataRow; origin: number | null }
+  | { type: 'deleteRow'; index: number; row: DataRow; origin: number | null }
+  | {
+      type: 'insertColumn' | 'deleteColumn';
+      index: number;
+      column: string;
+      source: string | null;
+      formula: string | null;
+      /** Cell values of the column, one per current row */
+      values: unknown[];
+    }
+  | { type: 'renameColumn'; index: number; before: string; after: string }
+  | { type: 'moveColumn'; from: number; to: number }
+  | { type: 'formula'; column: string; before: string | null; after: string | null };
+
+export interface DataChange {
+  id: number;
+  label: string;
+  timestamp: number;
+  edits: DataEdit[];
+}
+
+export interface EditableTable {
+  rows: DataRow[];
+  /** Index of the uploaded row each current row came from; null for added rows */
+  origins: (number | null)[];
+  columns: string[];
+  /** Uploaded column each current column came from; null for added columns */
+  columnSources: (string | null)[];
+  /** Formula of each derived column */
+  formulas: Record<string, string>;
+}
+
+/**
+ * Table state saved with a session, restored with `createHistory`
+ */
+export interface SavedTable {
+  original?: DataRow[];
+  origins?: (number | null)[];
+  columnSources?: (string | null)[];
+  formulas?: Record<string, string>;
+}
+
+/** Position of a cell in the current table */
+export interface CellRef {
+  row: number;
+  column: string;
+}
+
+export interface DataHistory {
+  /** Rows as uploaded */
+  original: DataRow[];
+  current: EditableTable;
+  /** Cells that already differed from the upload when the history was created, e.g. edits restored with a session */
+  initialEdits: CellRef[];
+  /** Applied changes, oldest first */
+  past: DataChange[];
+  /** Undone changes, most recently undone last */
+  future: DataChange[];
+}
+
+let nextChangeId = 1;
+
+/**
+ * Parse text typed into a cell: blank or NA is missing, numbers become numbers
+ */
+export function parseCellInput(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed === '' || trimmed.toUpperCase() === 'NA') return null;
+  return isNaN(Number(trimmed)) ? text : Number(trimmed);
+}
+
+/**
+ * Cell equality that treats null and undefined as the same missing value
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (a == null && b == null) || (Number.isNaN(a) && Number.isNaN(b));
+}
+
+/**
+ * Columns of a table in first-seen order
+ */
+export function columnsOf(rows: DataRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(c => columns.add(c)));
+  return [...columns];
+}
+
+/**
+ * Fresh history for an uploaded table, optionally continuing earlier edits
+ */
+export function createHistory(rows: DataRow[], columns: string[] = columnsOf(rows), saved: SavedTable = {}): DataHistory {
+  const original = saved.original ?? rows;
+  const current: EditableTable = {
+    rows,
+    origins: saved.origins ?? rows.map((_, i) => i),
+    columns,
+    columnSources: saved.columnSources ?? columns,
+    formulas: saved.formulas ?? {}
+  };
+  const initialEdits: CellRef[] = [];
+  if (original !== rows) {
+    const sources = uploadedColumns(current);
+    rows.forEach((row, r) => {
+      sources.forEach((_, column) => {
+        if (differsFromUpload(original, current, sources, r, column)) initialEdits.push({ row: r, column });
+      });
+    });
+  }
+  return { original, current, initialEdits, past: [], future: [] };
+}
+
+// Uploaded column behind each current column that holds uploaded values (not added or derived)
+function uploadedColumns(table: EditableTable): Map<string, string> {
+  const sources = new Map<string, string>();
+  table.columns.forEach((column, i) => {
+    const source = table.columnSources[i];
+    if (source !== null && !(column in table.formulas)) sources.set(column, source);
+  });
+  return sources;
+}
+
+function differsFromUpload(
+  original: DataRow[],
+  table: EditableTable,
+  sources: Map<string, string>,
+  row: number,
+  column: string
+): boolean {
+  const origin = table.origins[row];
+  const uploaded = origin === null || origin === undefined ? null : original[origin];
+  const source = sources.get(column);
+  return !!uploaded && source !== undefined && !sameValue(uploaded[source], table.rows[row]?.[column]);
+}
+
+const withoutKey = (row: DataRow, key: string): DataRow => {
+  const next = { ...row };
+  delete next[key];
+  return next;
+};
+
+function applyEdit(table: EditableTable, edit: DataEdit, forward: boolean) {
+  switch (edit.type) {
+    case 'cell':
+      table.rows[edit.row] = { ...table.rows[edit.row], [edit.column]: forward ? edit.after : edit.before };
+      break;
+    case 'insertRow':
+    case 'deleteRow':
+      if ((edit.type === 'insertRow') === forward) {
+        table.rows.splice(edit.index, 0, edit.row);
+        table.origins.splice(edit.index, 0, edit.origin);
+      } else {
+        table.rows.splice(edit.index, 1);
+        table.origins.splice(edit.index, 1);
+      }
+      break;
+    case 'insertColumn':
+    case 'deleteColumn':
+      if ((edit.type === 'insertColumn') === forward) {
+        table.rows = table.rows.map((row, r) => ({ ...row, [edit.column]: edit.values[r] ?? null }));
+        table.columns.splice(edit.index, 0, edit.column);
+        table.columnSources.splice(edit.index, 0, edit.source);
+        if (edit.formula !== null) table.formulas[edit.column] = edit.formula;
+      } else {
+        table.rows = table.rows.map(row => withoutKey(row, edit.column));
+        table.columns.splice(edit.index, 1);
+        table.columnSources.splice(edit.index, 1);
+        delete table.formulas[edit.column];
+      }
+      break;
+    case 'renameColumn': {
+      const [from, to] = forward ? [edit.before, edit.after] : [edit.after, edit.before];
+      table.rows = table.rows.map(row => {
+        const { [from]: value, ...rest } = row;
+        return { ...rest, [to]: value };
+      });
+      table.columns[edit.index] = to;
+      if (from in table.formulas) {
+        table.formulas[to] = table.formulas[from];
+        delete table.formulas[from];
+      }
+      break;
+    }
+    case 'moveColumn': {
+      const [from, to] = forward ? [edit.from, edit.to] : [edit.to, edit.from];
+      table.columns.splice(to, 0, ...table.columns.splice(from, 1));
+      table.columnSources.splice(to, 0, ...table.columnSources.splice(from, 1));
+      break;
+    }
+    case 'formula': {
+      const formula = forward ? edit.after : edit.before;
+      if (formula === null) delete table.formulas[edit.column];
+      else table.formulas[edit.column] = formula;
+      break;
+    }
+  }
+}
+
+/**
+ * Whether an edit changes the column set, order or formulas
+ */
+export function isColumnEdit(edit: DataEdit): boolean {
+  return edit.type !== 'cell' && edit.type !== 'insertRow' && edit.type !== 'deleteRow';
+}
+
+// Column state is only copied when it changes, so cell edits keep `columns` referentially stable
+const copyTable = (table: EditableTable, edits: DataEdit[]): EditableTable => {
+  const columnsChange = edits.some(isColumnEdit);
+  return {
+    rows: [...table.rows],
+    origins: [...table.origins],
+    columns: columnsChange ? [...table.columns] : table.columns,
+    columnSources: columnsChange ? [...table.columnSources] : table.columnSources,
+    formulas: columnsChange ? { ...table.formulas } : table.formulas
+  };
+};
+
+/**
+ * Apply edits in order
+ */
+export function applyEdits(table: EditableTable, edits: DataEdit[]): EditableTable {
+  const next = copyTable(table, edits);
+  edits.forEach(edit => applyEdit(next, edit, true));
+  return next;
+}
+
+/**
+ * Undo edits, last one first
+ */
+export function revertEdits(table: EditableTable, edits: DataEdit[]): EditableTable {
+  const next = copyTable(table, edits);
+  for (let i = edits.length - 1; i >= 0; i--) applyEdit(next, edits[i], false);
+  return next;
+}
+
+/**
+ * Derived columns in an order where every formula comes after the derived
+ * columns it reads. Throws an ExpressionError for circular formulas.
+ */
+export function formulaOrder(table: Pick<EditableTable, 'columns' | 'formulas'>): { column: string; expression: CompiledExpression }[] {
+  const compiled = new Map<string, CompiledExpression>();
+  for (const [column, formula] of Object.entries(table.formulas)) {
+    compiled.set(column, compileExpression(formula, table.columns));
+  }
+  const ordered: { column: string; expression: CompiledExpression }[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (column: string, path: string[]) => {
+    if (state.get(column) === 'done') return;
+    if (state.get(column) === 'visiting') {
+      throw new ExpressionError(`Circular formula: ${[...path, column].join(' → ')}`);
+    }
+    state.set(column, 'visiting');
+    const expression = compiled.get(column)!;
+    expression.references.filter(ref => compiled.has(ref)).forEach(ref => visit(ref, [...path, column]));
+    state.set(column, 'done');
+    ordered.push({ column, expression });
+  };
+  compiled.forEach((_, column) => visit(column, []));
+  return ordered;
+}
+
+/**
+ * Cell edits that bring every derived column up to date with its formula
+ */
+export function recomputeEdits(table: EditableTable): DataEdit[] {
+  if (Object.keys(table.formulas).length === 0) return [];
+  const rows = [...table.rows];
+  const edits: DataEdit[] = [];
+  for (const { column, expression } of formulaOrder(table)) {
+    rows.forEach((row, r) => {
+      const value = expression.evaluate(row);
+      if (sameValue(row[column], value)) return;
+      edits.push({ type: 'cell', row: r, column, before: row[column], after: value });
+      rows[r] = { ...row, [column]: value };
+    });
+  }
+  return edits;
+}
+
+/**
+ * Apply a new change and record it; clears the redo stack. Derived columns
+ * are recomputed as part of the change.
+ */
+export function commitChange(history: DataHistory, label: string, edits: DataEdit[]): DataHistory {
+  if (edits.length === 0) return history;
+  const applied = applyEdits(history.current, edits);
+  const recomputed = recomputeEdits(applied);
+  const change: DataChange = { id: nextChangeId++, label, timestamp: Date.now(), edits: [...edits, ...recomputed] };
+  return {
+    ...history,
+    current: recomputed.length > 0 ? applyEdits(applied, recomputed) : applied,
+    past: [...history.past, change],
+    future: []
+  };
+}
+
+export function undoChange(history: DataHistory): DataHistory {
+  const change = history.past[history.past.length - 1];
+  if (!change) return history;
+  return {
+    ...history,
+    current: revertEdits(history.current, change.edits),
+    past: history.past.slice(0, -1),
+    future: [...history.future, change]
+  };
+}
+
+export function redoChange(history: DataHistory): DataHistory {
+  const change = history.future[history.future.length - 1];
+  if (!change) return history;
+  return {
+    ...history,
+    current: applyEdits(history.current, change.edits),
+    past: [...history.past, change],
+    future: history.future.slice(0, -1)
+  };
+}
+
+function inverseEdit(edit: DataEdit): DataEdit {
+  switch (edit.type) {
+    case 'cell':
+      return { ...edit, before: edit.after, after: edit.before };
+    case 'renameColumn':
+      return { ...edit, before: edit.after, after: edit.before };
+    case 'formula':
+      return { ...edit, before: edit.after, after: edit.before };
+    case 'insertRow':
+      return { ...edit, type: 'deleteRow' };
+    case 'deleteRow':
+      return { ...edit, type: 'insertRow' };
+    case 'insertColumn':
+      return { ...edit, type: 'deleteColumn' };
+    case 'deleteColumn':
+      return { ...edit, type: 'insertColumn' };
+    case 'moveColumn':
+      return { ...edit, from: edit.to, to: edit.from };
+  }
+}
+
+/**
+ * Edits that undo the given ones when applied in order
+ */
+export function inverseEdits(edits: DataEdit[]): DataEdit[] {
+  return edits.map(inverseEdit).reverse();
+}
+
+/**
+ * Edits that take `previous.current` to `next.current` when `next` is one
+ * commit, undo or redo away from `previous`. Null for any other pair, such as
+ * a history started again for a new upload.
+ */
+export function editsBetween(previous: DataHistory, next: DataHistory): DataEdit[] | null {
+  if (previous === next) return [];
+  if (previous.original !== next.original) return null;
+  const before = previous.past.length;
+  const after = next.past.length;
+  const sharedTail = (length: number) => length === 0 || previous.past[length - 1] === next.past[length - 1];
+  if (after === before + 1 && sharedTail(before)) return next.past[before].edits;
+  if (after === before - 1 && sharedTail(after)) return inverseEdits(previous.past[after].edits);
+  return null;
+}
+
+/**
+ * Position of a row once the given edits are applied, or null when they
+ * delete it
+ */
+export function followRow(row: number, edits: DataEdit[]): number | null {
+  let position = row;
+  for (const edit of edits) {
+    if (edit.type === 'insertRow' && edit.index <= position) position++;
+    else if (edit.type === 'deleteRow') {
+      if (edit.index === position) return null;
+      if (edit.index < position) position--;
+    }
+  }
+  return position;
+}
+
+/**
+ * Uploaded values behind a current row, keyed by the current column names.
+ * Columns added in the app are left out; rows added in the app give null.
+ */
+export function originalRow(history: DataHistory, row: number): DataRow | null {
+  const origin = history.current.origins[row];
+  const uploaded = origin === null || origin === undefined ? null : history.original[origin];
+  if (!uploaded) return null;
+  const { columns, columnSources } = history.current;
+  const values: DataRow = {};
+  columns.forEach((column, i) => {
+    const source = columnSources[i];
+    if (source !== null) values[column] = uploaded[source];
+  });
+  return values;
+}
+
+/**
+ * Whether a cell differs from its uploaded value (added rows count as edited,
+ * cells of added columns do not)
+ */
+export function isCellEdited(history: DataHistory, row: number, column: string): boolean {
+  const original = originalRow(history, row);
+  if (!original) return true;
+  return column in original && !sameValue(original[column], history.current.rows[row]?.[column]);
+}
+
+/**
+ * Cells of uploaded rows and columns that differ from their uploaded value,
+ * by row. Built by following the recorded cell edits through later row and
+ * column changes, so the cost depends on the number of edits rather than the
+ * size of the table.
+ */
+export function editedCellsByRow(history: DataHistory): Map<number, Set<string>> {
+  let candidates = new Map<number, Set<string>>();
+  const add = (row: number, column: string) => {
+    const cells = candidates.get(row);
+    if (cells) cells.add(column);
+    else candidates.set(row, new Set([column]));
+  };
+  const shiftRows = (from: number, by: 1 | -1) => {
+    const shifted = new Map<number, Set<string>>();
+    candidates.forEach((cells, row) => {
+      if (row < from) shifted.set(row, cells);
+      else if (by === 1) shifted.set(row + 1, cells);
+      else if (row > from) shifted.set(row - 1, cells);
+    });
+    candidates = shifted;
+  };
+
+  history.initialEdits.forEach(({ row, column }) => add(row, column));
+  for (const change of history.past) {
+    for (const edit of change.edits) {
+      switch (edit.type) {
+        case 'cell':
+          add(edit.row, edit.column);
+          break;
+        case 'insertRow':
+          shiftRows(edit.index, 1);
+          // An uploaded row put back may carry values edited before it was removed
+          if (edit.origin !== null) Object.keys(edit.row).forEach(column => add(edit.index, column));
+          break;
+        case 'deleteRow':
+          shiftRows(edit.index, -1);
+          break;
+        case 'insertColumn':
+          if (edit.source !== null) edit.values.forEach((_, row) => add(row, edit.column));
+          break;
+        case 'deleteColumn':
+          candidates.forEach(cells => cells.delete(edit.column));
+          break;
+        case 'renameColumn':
+          candidates.forEach(cells => {
+            if (cells.delete(edit.before)) cells.add(edit.after);
+          });
+          break;
+      }
+    }
+  }
+
+  const sources = uploadedColumns(history.current);
+  const edited = new Map<number, Set<string>>();
+  candidates.forEach((cells, row) => {
+    const changed = [...cells].filter(column => differsFromUpload(history.original, history.current, sources, row, column));
+    if (changed.length > 0) edited.set(row, new Set(changed));
+  });
+  return edited;
+}
+
+/**
+ * Edit setting one cell, or null when the value does not change
+ */
+export function cellEdit(table: EditableTable, row: number, column: string, value: unknown): DataEdit | null {
+  const before = table.rows[row]?.[column];
+  return sameValue(before, value) ? null : { type: 'cell', row, column, before, after: value };
+}
+
+/**
+ * Cell edits turning a row into `next`, for every column that changed
+ */
+export function rowEdits(table: EditableTable, row: number, next: DataRow): DataEdit[] {
+  const columns = new Set([...Object.keys(table.rows[row] ?? {}), ...Object.keys(next)]);
+  return [...columns].flatMap(column => cellEdit(table, row, column, next[column]) ?? []);
+}
+
+/**
+ * Edits restoring the uploaded values of one cell, or of every cell in the row
+ */
+export function restoreEdits(history: DataHistory, row: number, column?: string): DataEdit[] {
+  const original = originalRow(history, row);
+  if (!original) return [];
+  const columns = column ? [column] : Object.keys(original);
+  return columns.flatMap(c => cellEdit(history.current, row, c, original[c]) ?? []);
+}
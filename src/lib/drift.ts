@@ -0,0 +1,216 @@
+import type { FeatureSummary, ModelBundle } from '@/lib/model-bundle';
+import { buildFeatureVector, featureColumn, isPtpmFeature } from '@/lib/preprocessing';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+import { chiSquarePValue, ksPValue } from '@/lib/statistics';
+
+/**
+ * Comparison of an uploaded cohort with the training distribution in the
+ * bundle's `training_summary`.
+ *
+ * Per feature: the population stability index (PSI) over the training
+ * quantile bins, a one-sample Kolmogorov–Smirnov test against the training
+ * CDF (interpolated linearly between quantiles) and the change in
+ * missingness. Per patient: a Mahalanobis distance with a diagonal covariance
+ * from the training means and standard deviations.
+ */
+
+export type DriftLevel = 'stable' | 'moderate' | 'major';
+
+export interface DriftBin {
+  label: string;
+  /** Fraction of training values in the bin */
+  expected: number;
+  /** Fraction of cohort values in the bin */
+  observed: number;
+}
+
+export interface FeatureDrift {
+  feature: string;
+  column: string;
+  /** Number of non-missing cohort values */
+  n: number;
+  missingRate: number;
+  trainMissingRate: number;
+  psi: number;
+  ks: { statistic: number; pValue: number };
+  level: DriftLevel;
+  bins: DriftBin[];
+}
+
+export interface PatientOutlier {
+  row: number;
+  /** Squared Mahalanobis distance */
+  distance: number;
+  pValue: number;
+  /** Features furthest from the training mean, by |z| */
+  features: { feature: string; z: number }[];
+}
+
+export interface DriftReport {
+  features: FeatureDrift[];
+  /** Summarized features without a drift estimate, with the reason */
+  skipped: { feature: string; reason: string }[];
+  outliers: PatientOutlier[];
+}
+
+/** PSI from which a feature counts as moderately or majorly shifted */
+export const PSI_THRESHOLDS = { moderate: 0.1, major: 0.25 };
+/** Change in missingness rate from which a feature counts as moderately or majorly shifted */
+export const MISSINGNESS_THRESHOLDS = { moderate: 0.1, major: 0.25 };
+/** Patients whose distance has a chi-square p-value below this are out of distribution */
+export const OUTLIER_P_VALUE = 0.001;
+/** Fewest non-missing values for which feature drift is estimated */
+export const MIN_DRIFT_VALUES = 10;
+
+/** Floor for empty bins, so the PSI stays finite */
+const PSI_EPSILON = 1e-4;
+/** Features listed per outlier */
+const OUTLIER_FEATURES = 3;
+
+const LEVEL_ORDER: DriftLevel[] = ['stable', 'moderate', 'major'];
+
+const formatEdge = (value: number) => (Number.isInteger(value) ? String(value) : value.toPrecision(3));
+
+/**
+ * Training CDF at x, linear between the summary's quantiles
+ */
+export function trainingCdf(summary: FeatureSummary, probabilities: number[], x: number): number {
+  const { quantiles } = summary;
+  const last = quantiles.length - 1;
+  if (x < quantiles[0]) return 0;
+  if (x >= quantiles[last]) return 1;
+  let j = 0;
+  while (j < last && quantiles[j + 1] <= x) j++;
+  const span = quantiles[j + 1] - quantiles[j];
+  return probabilities[j] + (probabilities[j + 1] - probabilities[j]) * (x - quantiles[j]) / span;
+}
+
+/**
+ * Population stability index of observed against expected bin fractions
+ */
+export function populationStabilityIndex(bins: Pick<DriftBin, 'expected' | 'observed'>[]): number {
+  return bins.reduce((sum, { expected, observed }) => {
+    const e = Math.max(expected, PSI_EPSILON);
+    const o = Math.max(observed, PSI_EPSILON);
+    return sum + (o - e) * Math.log(o / e);
+  }, 0);
+}
+
+/**
+ * Bins bounded by the distinct interior training quantiles, with the training
+ * and cohort fraction in each
+ */
+export function driftBins(values: number[], summary: FeatureSummary, probabilities: number[]): DriftBin[] {
+  const edges = [...new Set(summary.quantiles.slice(1, -1))];
+  const cdf = (x: number) => trainingCdf(summary, probabilities, x);
+  const counts = new Array(edges.length + 1).fill(0);
+  values.forEach(value => {
+    const index = edges.findIndex(edge => value <= edge);
+    counts[index < 0 ? edges.length : index]++;
+  });
+
+  return counts.map((count, i) => {
+    const lower = i === 0 ? 0 : cdf(edges[i - 1]);
+    const upper = i === edges.length ? 1 : cdf(edges[i]);
+    const label = i === 0
+      ? `≤ ${formatEdge(edges[0])}`
+      : i === edges.length
+        ? `> ${formatEdge(edges[i - 1])}`
+        : `${formatEdge(edges[i - 1])}–${formatEdge(edges[i])}`;
+    return { label, expected: upper - lower, observed: values.length ? count / values.length : 0 };
+  });
+}
+
+/**
+ * One-sample Kolmogorov–Smirnov statistic and p-value against the training CDF
+ */
+export function ksTest(values: number[], summary: FeatureSummary, probabilities: number[]): { statistic: number; pValue: number } {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  let statistic = 0;
+  sorted.forEach((value, i) => {
+    const f = trainingCdf(summary, probabilities, value);
+    statistic = Math.max(statistic, (i + 1) / n - f, f - i / n);
+  });
+  return { statistic, pValue: ksPValue(statistic, n) };
+}
+
+function driftLevel(psi: number, missingShift: number): DriftLevel {
+  const level = (value: number, thresholds: { moderate: number; major: number }) =>
+    value >= thresholds.major ? 2 : value >= thresholds.moderate ? 1 : 0;
+  return LEVEL_ORDER[Math.max(level(psi, PSI_THRESHOLDS), level(missingShift, MISSINGNESS_THRESHOLDS))];
+}
+
+/**
+ * Compare the cohort with the bundle's training summary. Protein features
+ * are only compared when raw pTPM values are entered, since the summary
+ * describes raw values. Returns null when the bundle has no training summary.
+ */
+export function computeDrift(
+  rows: Record<string, unknown>[],
+  bundle: ModelBundle,
+  mapping: ColumnMapping | null,
+  rawPtpm: boolean
+): DriftReport | null {
+  const summary = bundle.trainingSummary;
+  if (!summary) return null;
+
+  const skipped: DriftReport['skipped'] = [];
+  const usable: { feature: string; column: string; summary: FeatureSummary }[] = [];
+  for (const feature of bundle.features) {
+    const featureSummary = summary.features[feature];
+    if (!featureSummary) continue;
+    const column = featureColumn(feature, mapping);
+    if (column === null) {
+      skipped.push({ feature, reason: 'Not mapped to a column' });
+    } else if (isPtpmFeature(feature) && !rawPtpm) {
+      skipped.push({ feature, reason: 'Protein values are entered preprocessed' });
+    } else {
+      usable.push({ feature, column, summary: featureSummary });
+    }
+  }
+
+  const vectors = rows.map(row => buildFeatureVector(row, usable.map(u => u.feature), mapping));
+
+  const features: FeatureDrift[] = [];
+  usable.forEach(({ feature, column, summary: featureSummary }, idx) => {
+    const values = vectors.map(x => x[idx]).filter(v => !Number.isNaN(v));
+    if (values.length < MIN_DRIFT_VALUES) {
+      skipped.push({ feature, reason: `Fewer than ${MIN_DRIFT_VALUES} values` });
+      return;
+    }
+    const bins = driftBins(values, featureSummary, summary.probabilities);
+    const psi = populationStabilityIndex(bins);
+    const missingRate = 1 - values.length / rows.length;
+    features.push({
+      feature,
+      column,
+      n: values.length,
+      missingRate,
+      trainMissingRate: featureSummary.missingRate,
+      psi,
+      ks: ksTest(values, featureSummary, summary.probabilities),
+      level: driftLevel(psi, Math.abs(missingRate - featureSummary.missingRate)),
+      bins
+    });
+  });
+
+  const outliers: PatientOutlier[] = [];
+  vectors.forEach((x, row) => {
+    const z: { feature: string; z: number }[] = [];
+    usable.forEach(({ feature, summary: { mean, sd } }, idx) => {
+      if (!Number.isNaN(x[idx]) && sd > 0) z.push({ feature, z: (x[idx] - mean) / sd });
+    });
+    if (z.length === 0) return;
+    const distance = z.reduce((sum, d) => sum + d.z * d.z, 0);
+    const pValue = chiSquarePValue(distance, z.length);
+    if (pValue < OUTLIER_P_VALUE) {
+      const top = [...z].sort((a, b) => Math.abs(b.z) - Math.abs(a.z)).slice(0, OUTLIER_FEATURES);
+      outliers.push({ row, distance, pValue, features: top });
+    }
+  });
+  outliers.sort((a, b) => a.pValue - b.pValue);
+
+  features.sort((a, b) => LEVEL_ORDER.indexOf(b.level) - LEVEL_ORDER.indexOf(a.level) || b.psi - a.psi);
+  return { features, skipped, outliers };
+}
@@ -0,0 +1,314 @@
+import type { SurvivalPoint } from '@/lib/rsf';
+import { getSurvivalAtTime } from '@/lib/survival-utils';
+import { quantile } from '@/lib/statistics';
+import {
+  censoringDistribution,
+  kaplanMeier,
+  stepAt,
+  survivalAt,
+  survivalBefore,
+  type KaplanMeierStep,
+  type SurvivalObservation
+} from '@/lib/survival-metrics';
+
+/**
+ * Time-dependent accuracy of predicted survival curves against observed outcomes.
+ * All metrics use inverse probability of censoring weights (IPCW) from a
+ * Kaplan–Meier estimate of the censoring distribution.
+ */
+
+export interface EvaluationSample extends SurvivalObservation {
+  survivalData: SurvivalPoint[];
+}
+
+export interface TimepointEvaluation {
+  /** Evaluation time in days */
+  time: number;
+  /** Cumulative/dynamic AUC; NaN when there are no cases or no controls at this time */
+  auc: number;
+  brier: number;
+  /** Brier score of the Kaplan–Meier null model, which predicts the same S(t) for everyone */
+  nullBrier: number;
+  cases: number;
+  controls: number;
+}
+
+export interface BrierCurvePoint {
+  time: number;
+  brier: number;
+  nullBrier: number;
+}
+
+export interface EvaluationSummary {
+  timepoints: TimepointEvaluation[];
+  /** Integrated Brier score over [start, end]; NaN when the range is empty */
+  integratedBrier: number;
+  nullIntegratedBrier: number;
+  brierCurve: BrierCurvePoint[];
+  range: { start: number; end: number };
+  /** Calibration at each timepoint for each requested bin count; left out when there are too few patients */
+  calibration: CalibrationSummary[];
+}
+
+/** Maximum number of grid points used to integrate the Brier score */
+const BRIER_GRID_SIZE = 100;
+
+/** Bin counts offered for the calibration plot */
+export const CALIBRATION_BIN_COUNTS = [4, 5, 10];
+
+/**
+ * Cumulative/dynamic AUC at time t (Uno et al. 2007): cases had an event by t,
+ * controls are still event-free after t. `marker` is the predicted risk at t.
+ */
+export function cumulativeDynamicAUC(
+  data: SurvivalObservation[],
+  marker: number[],
+  time: number,
+  censoring: KaplanMeierStep[] = censoringDistribution(data)
+): { auc: number; cases: number; controls: number } {
+  const controlMarkers = data
+    .map((obs, i) => (obs.time > time ? marker[i] : NaN))
+    .filter(m => !Number.isNaN(m))
+    .sort((a, b) => a - b);
+
+  // Number of sorted values strictly below (or at most) the given value
+  const countBelow = (value: number, inclusive: boolean) => {
+    let lo = 0;
+    let hi = controlMarkers.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (inclusive ? controlMarkers[mid] <= value : controlMarkers[mid] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  let numerator = 0;
+  let totalWeight = 0;
+  let cases = 0;
+  data.forEach((obs, i) => {
+    if (!obs.event || obs.time > time) return;
+    const g = survivalBefore(censoring, obs.time);
+    if (g <= 0) return;
+    const below = countBelow(marker[i], false);
+    const ties = countBelow(marker[i], true) - below;
+    numerator += (below + 0.5 * ties) / g;
+    totalWeight += 1 / g;
+    cases++;
+  });
+
+  const controls = controlMarkers.length;
+  const auc = cases > 0 && controls > 0 ? numerator / (totalWeight * controls) : NaN;
+  return { auc, cases, controls };
+}
+
+/**
+ * IPCW Brier score at time t (Graf et al. 1999) for predicted S(t) values
+ */
+export function brierScore(
+  data: SurvivalObservation[],
+  predicted: number[],
+  time: number,
+  censoring: KaplanMeierStep[] = censoringDistribution(data)
+): number {
+  const gAtTime = survivalAt(censoring, time);
+  if (data.length === 0 || gAtTime <= 0) return NaN;
+
+  let total = 0;
+  data.forEach((obs, i) => {
+    if (obs.time <= time && obs.event) {
+      const g = survivalBefore(censoring, obs.time);
+      if (g > 0) total += predicted[i] ** 2 / g;
+    } else if (obs.time > time) {
+      total += (1 - predicted[i]) ** 2 / gAtTime;
+    }
+  });
+  return total / data.length;
+}
+
+function integrate(points: { time: number; value: number }[]): number {
+  if (points.length < 2) return NaN;
+  let area = 0;
+  for (let i = 1; i < points.length; i++) {
+    area += (points[i].time - points[i - 1].time) * (points[i].value + points[i - 1].value) / 2;
+  }
+  return area / (points[points.length - 1].time - points[0].time);
+}
+
+/**
+ * Evaluation grid for the integrated Brier score: distinct event times inside
+ * the follow-up range, thinned to at most BRIER_GRID_SIZE points
+ */
+function brierGrid(data: SurvivalObservation[], censoring: KaplanMeierStep[]): number[] {
+  const lastFollowUp = data.reduce((max, d) => Math.max(max, d.time), -Infinity);
+  const times = Array.from(new Set(data.filter(d => d.event).map(d => d.time)))
+    .filter(t => t < lastFollowUp && survivalAt(censoring, t) > 0)
+    .sort((a, b) => a - b);
+  if (times.length <= BRIER_GRID_SIZE) return times;
+  const step = (times.length - 1) / (BRIER_GRID_SIZE - 1);
+  return Array.from({ length: BRIER_GRID_SIZE }, (_, i) => times[Math.round(i * step)]);
+}
+
+/**
+ * Predicted S(t) at each of the ascending times, as getSurvivalAtTime gives
+ * it, in one pass over the curve
+ */
+function survivalAtTimes(curve: SurvivalPoint[], times: number[]): number[] {
+  if (curve.length === 0) return times.map(() => 1);
+  let last = 0;
+  return times.map(time => {
+    while (last + 1 < curve.length && curve[last + 1].time <= time) last++;
+    return curve[last].probability;
+  });
+}
+
+/**
+ * AUC and Brier score at each timepoint plus the integrated Brier score,
+ * with the Kaplan–Meier null model as reference, and calibration at each
+ * timepoint for the given bin counts
+ */
+export function evaluatePredictions(
+  samples: EvaluationSample[],
+  timepoints: number[],
+  binCounts: number[] = []
+): EvaluationSummary {
+  const censoring = censoringDistribution(samples);
+  const marginal = kaplanMeier(samples);
+  const grid = brierGrid(samples, censoring);
+
+  // Every sample's S(t) at every time needed, read once per curve
+  const times = Array.from(new Set([...timepoints, ...grid])).sort((a, b) => a - b);
+  const survival = samples.map(s => survivalAtTimes(s.survivalData, times));
+  const predictedAt = (time: number) => {
+    const column = times.indexOf(time);
+    return survival.map(values => values[column]);
+  };
+  const nullAt = (time: number) => {
+    const value = survivalAt(marginal, time);
+    return samples.map(() => value);
+  };
+
+  const evaluations = timepoints.map(time => {
+    const predicted = predictedAt(time);
+    const { auc, cases, controls } = cumulativeDynamicAUC(samples, predicted.map(p => 1 - p), time, censoring);
+    return {
+      time,
+      auc,
+      brier: brierScore(samples, predicted, time, censoring),
+      nullBrier: brierScore(samples, nullAt(time), time, censoring),
+      cases,
+      controls
+    };
+  });
+
+  const brierCurve = grid.map(time => ({
+    time,
+    brier: brierScore(samples, predictedAt(time), time, censoring),
+    nullBrier: brierScore(samples, nullAt(time), time, censoring)
+  }));
+
+  return {
+    timepoints: evaluations,
+    integratedBrier: integrate(brierCurve.map(p => ({ time: p.time, value: p.brier }))),
+    nullIntegratedBrier: integrate(brierCurve.map(p => ({ time: p.time, value: p.nullBrier }))),
+    brierCurve,
+    range: grid.length > 0 ? { start: grid[0], end: grid[grid.length - 1] } : { start: NaN, end: NaN },
+    calibration: timepoints
+      .flatMap(time => binCounts.map(binCount => calibrationOf(samples, predictedAt(time), time, binCount)))
+      .filter((summary): summary is CalibrationSummary => summary !== null)
+  };
+}
+
+export interface CalibrationBin {
+  n: number;
+  events: number;
+  /** Mean predicted S(t) in the bin */
+  predicted: number;
+  /** Kaplan–Meier S(t) of the bin with its 95% confidence band */
+  observed: number;
+  lower: number;
+  upper: number;
+}
+
+export interface CalibrationSummary {
+  time: number;
+  /** Requested number of bins; fewer are drawn when there are fewer patients */
+  binCount: number;
+  bins: CalibrationBin[];
+  /** Weighted least-squares fit of observed on predicted across bins (ideal: 0 and 1) */
+  intercept: number;
+  slope: number;
+  /** Mean, median and 90th percentile of |predicted - observed| over patients */
+  ici: number;
+  e50: number;
+  e90: number;
+}
+
+/**
+ * Observed survival at a predicted value, interpolated between bin centres
+ */
+function interpolateObserved(bins: CalibrationBin[], predicted: number): number {
+  if (predicted <= bins[0].predicted) return bins[0].observed;
+  for (let i = 1; i < bins.length; i++) {
+    if (predicted <= bins[i].predicted) {
+      const a = bins[i - 1];
+      const b = bins[i];
+      const span = b.predicted - a.predicted;
+      return span > 0 ? a.observed + (b.observed - a.observed) * (predicted - a.predicted) / span : b.observed;
+    }
+  }
+  return bins[bins.length - 1].observed;
+}
+
+/**
+ * Calibration of predicted S(t): patients are split into equal-size bins by
+ * predicted survival and each bin is compared with its Kaplan–Meier estimate
+ */
+export function calibrationAt(samples: EvaluationSample[], time: number, binCount: number = 10): CalibrationSummary | null {
+  return calibrationOf(samples, samples.map(s => getSurvivalAtTime(s.survivalData, time)), time, binCount);
+}
+
+function calibrationOf(samples: EvaluationSample[], predicted: number[], time: number, binCount: number): CalibrationSummary | null {
+  const order = samples.map((_, i) => i).sort((a, b) => predicted[a] - predicted[b]);
+  const count = Math.min(binCount, order.length);
+  if (count < 2) return null;
+
+  const bins: CalibrationBin[] = [];
+  for (let b = 0; b < count; b++) {
+    const members = order.slice(Math.floor(b * order.length / count), Math.floor((b + 1) * order.length / count));
+    if (members.length === 0) continue;
+    const step = stepAt(kaplanMeier(members.map(i => samples[i])), time);
+    bins.push({
+      n: members.length,
+      events: members.filter(i => samples[i].event && samples[i].time <= time).length,
+      predicted: members.reduce((sum, i) => sum + predicted[i], 0) / members.length,
+      observed: step?.survival ?? 1,
+      lower: step?.lower ?? 1,
+      upper: step?.upper ?? 1
+    });
+  }
+
+  // Weighted linear regression of observed on predicted
+  const totalN = bins.reduce((sum, b) => sum + b.n, 0);
+  const meanX = bins.reduce((sum, b) => sum + b.n * b.predicted, 0) / totalN;
+  const meanY = bins.reduce((sum, b) => sum + b.n * b.observed, 0) / totalN;
+  const sxx = bins.reduce((sum, b) => sum + b.n * (b.predicted - meanX) ** 2, 0);
+  const sxy = bins.reduce((sum, b) => sum + b.n * (b.predicted - meanX) * (b.observed - meanY), 0);
+  const slope = sxx > 0 ? sxy / sxx : NaN;
+  const intercept = Number.isFinite(slope) ? meanY - slope * meanX : NaN;
+
+  const errors = predicted
+    .map(p => Math.abs(p - interpolateObserved(bins, p)))
+    .sort((a, b) => a - b);
+
+  return {
+    time,
+    binCount,
+    bins,
+    intercept,
+    slope,
+    ici: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+    e50: quantile(errors, 0.5),
+    e90: quantile(errors, 0.9)
+  };
+}
@@ -0,0 +1,345 @@
+import { parseStageOrdinal } from '@/lib/survival-utils';
+
+/**
+ * Formulas for derived columns, e.g. `log1p(EGFR_pTPM)` or
+ * `if(Age >= 65, 1, 0)`.
+ *
+ * Expressions are parsed by a small recursive-descent parser and evaluated
+ * against one row at a time; nothing is passed to `eval`. Column names that
+ * are not plain identifiers are written in backticks. Missing values
+ * propagate: arithmetic on NA gives NA, as do non-finite results.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Row = Record<string, unknown>;
+type Evaluator = (row: Row) => unknown;
+
+export interface CompiledExpression {
+  source: string;
+  /** Columns read by the expression */
+  references: string[];
+  evaluate: Evaluator;
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'name'; value: string; quoted: boolean; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), pos: start });
+      i += number[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))![0];
+      tokens.push({ kind: 'name', value: name, quoted: false, pos: start });
+      i += name.length;
+    } else if (ch === '`' || ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) throw new ExpressionError(`Unterminated ${ch === '`' ? 'column name' : 'string'} at position ${start + 1}`);
+      const text = source.slice(i + 1, end);
+      tokens.push(ch === '`' ? { kind: 'name', value: text, quoted: true, pos: start } : { kind: 'string', value: text, pos: start });
+      i = end + 1;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new ExpressionError(`Unexpected '${ch}' at position ${start + 1}`);
+      tokens.push({ kind: 'op', value: op, pos: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '' || Number.isNaN(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (isMissing(value)) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(num) ? num : null;
+};
+
+const finite = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+// Numeric functions return NA when any argument is missing or not a number
+const numeric = (fn: (...args: number[]) => number) => (...args: unknown[]) => {
+  const nums = args.map(toNumber);
+  return nums.some(n => n === null) ? null : finite(fn(...(nums as number[])));
+};
+
+interface FunctionDef {
+  arity: [number, number];
+  /** Receives unevaluated arguments so `if` only evaluates the taken branch */
+  lazy?: boolean;
+  call: (...args: unknown[]) => unknown;
+}
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  log: { arity: [1, 1], call: numeric(x => (x > 0 ? Math.log(x) : NaN)) },
+  log1p: { arity: [1, 1], call: numeric(x => (x > -1 ? Math.log1p(x) : NaN)) },
+  log2: { arity: [1, 1], call: numeric(x => (x > 0 ? Math.log2(x) : NaN)) },
+  log10: { arity: [1, 1], call: numeric(x => (x > 0 ? Math.log10(x) : NaN)) },
+  exp: { arity: [1, 1], call: numeric(Math.exp) },
+  sqrt: { arity: [1, 1], call: numeric(x => (x >= 0 ? Math.sqrt(x) : NaN)) },
+  abs: { arity: [1, 1], call: numeric(Math.abs) },
+  round: { arity: [1, 2], call: numeric((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits) },
+  floor: { arity: [1, 1], call: numeric(Math.floor) },
+  ceil: { arity: [1, 1], call: numeric(Math.ceil) },
+  pow: { arity: [2, 2], call: numeric(Math.pow) },
+  min: { arity: [1, Infinity], call: numeric(Math.min) },
+  max: { arity: [1, Infinity], call: numeric(Math.max) },
+  parseStageOrdinal: { arity: [1, 1], call: x => (isMissing(x) ? null : parseStageOrdinal(x)) },
+  isNA: { arity: [1, 1], call: x => (isMissing(x) ? 1 : 0) },
+  coalesce: { arity: [1, Infinity], call: (...args) => args.find(a => !isMissing(a)) ?? null },
+  if: {
+    arity: [2, 3],
+    lazy: true,
+    call: (...args) => {
+      const [condition, then, otherwise] = args as Evaluator[];
+      const row = args[args.length - 1] as Row;
+      const test = toNumber(condition(row));
+      if (test === null) return null;
+      return test !== 0 ? then(row) : otherwise ? otherwise(row) : null;
+    }
+  }
+};
+
+/** Function names available in formulas, for help text */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const BINARY: Record<string, (a: number, b: number) => number | boolean> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': (a, b) => a ** b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+
+// Lowest precedence first; '^' is handled separately as it is right-associative
+const PRECEDENCE: string[][] = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+function binary(op: string, left: Evaluator, right: Evaluator): Evaluator {
+  if (op === '&&' || op === '||') {
+    return row => {
+      const a = toNumber(left(row));
+      if (op === '&&' && a === 0) return 0;
+      if (op === '||' && a !== null && a !== 0) return 1;
+      const b = toNumber(right(row));
+      if (a === null || b === null) return null;
+      return b !== 0 ? 1 : 0;
+    };
+  }
+  if (op === '==' || op === '!=') {
+    return row => {
+      const a = left(row);
+      const b = right(row);
+      if (isMissing(a) || isMissing(b)) return null;
+      const na = toNumber(a);
+      const nb = toNumber(b);
+      const equal = na !== null && nb !== null ? na === nb : String(a).toLowerCase() === String(b).toLowerCase();
+      return equal === (op === '==') ? 1 : 0;
+    };
+  }
+  const fn = BINARY[op];
+  return row => {
+    const a = toNumber(left(row));
+    const b = toNumber(right(row));
+    if (a === null || b === null) return null;
+    const result = fn(a, b);
+    return typeof result === 'boolean' ? (result ? 1 : 0) : finite(result);
+  };
+}
+
+class Parser {
+  private index = 0;
+  readonly references = new Set<string>();
+
+  constructor(private tokens: Token[], private columns: Set<string>) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) throw this.unexpected(`expected '${value}'`);
+    this.index++;
+  }
+
+  private unexpected(detail: string): ExpressionError {
+    const token = this.peek();
+    const found = token.kind === 'end' ? 'end of formula' : `'${'value' in token ? token.value : ''}'`;
+    return new ExpressionError(`Unexpected ${found} at position ${token.pos + 1}: ${detail}`);
+  }
+
+  parse(): Evaluator {
+    if (this.peek().kind === 'end') throw new ExpressionError('Formula is empty');
+    const evaluator = this.binary(0);
+    if (this.peek().kind !== 'end') throw this.unexpected('expected an operator');
+    return evaluator;
+  }
+
+  private binary(level: number): Evaluator {
+    if (level === PRECEDENCE.length) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || !PRECEDENCE[level].includes(token.value)) return left;
+      this.index++;
+      left = binary(token.value, left, this.binary(level + 1));
+    }
+  }
+
+  private unary(): Evaluator {
+    if (this.isOp('-') || this.isOp('+') || this.isOp('!')) {
+      const op = (this.peek() as { value: string }).value;
+      this.index++;
+      const operand = this.unary();
+      return row => {
+        const value = toNumber(operand(row));
+        if (value === null) return null;
+        return op === '-' ? -value : op === '!' ? (value === 0 ? 1 : 0) : value;
+      };
+    }
+    return this.power();
+  }
+
+  private power(): Evaluator {
+    const base = this.primary();
+    if (!this.isOp('^')) return base;
+    this.index++;
+    return binary('^', base, this.unary());
+  }
+
+  private primary(): Evaluator {
+    const token = this.peek();
+    this.index++;
+    switch (token.kind) {
+      case 'number':
+        return () => token.value;
+      case 'string':
+        return () => token.value;
+      case 'name':
+        if (!token.quoted && this.isOp('(')) return this.call(token.value, token.pos);
+        return this.column(token.value, token.quoted, token.pos);
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.binary(0);
+          this.expect(')');
+          return inner;
+        }
+        break;
+    }
+    this.index--;
+    throw this.unexpected('expected a value, column or function');
+  }
+
+  private column(name: string, quoted: boolean, pos: number): Evaluator {
+    if (!this.columns.has(name)) {
+      if (!quoted && name.toUpperCase() === 'NA') return () => null;
+      throw new ExpressionError(`Unknown column '${name}' at position ${pos + 1}`);
+    }
+    this.references.add(name);
+    return row => row[name];
+  }
+
+  private call(name: string, pos: number): Evaluator {
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new ExpressionError(`Unknown function '${name}' at position ${pos + 1}`);
+    this.expect('(');
+    const args: Evaluator[] = [];
+    if (!this.isOp(')')) {
+      args.push(this.binary(0));
+      while (this.isOp(',')) {
+        this.index++;
+        args.push(this.binary(0));
+      }
+    }
+    this.expect(')');
+    const [lo, hi] = fn.arity;
+    if (args.length < lo || args.length > hi) {
+      const expected = lo === hi ? `${lo}` : hi === Infinity ? `at least ${lo}` : `${lo} to ${hi}`;
+      throw new ExpressionError(`${name}() takes ${expected} argument(s), got ${args.length}`);
+    }
+    if (fn.lazy) return row => fn.call(...args, row);
+    return row => fn.call(...args.map(arg => arg(row)));
+  }
+}
+
+/**
+ * Parse a formula against the available columns.
+ * Throws an ExpressionError describing the first problem found.
+ */
+export function compileExpression(source: string, columns: string[]): CompiledExpression {
+  const parser = new Parser(tokenize(source), new Set(columns));
+  const evaluator = parser.parse();
+  return {
+    source,
+    references: [...parser.references],
+    evaluate: row => {
+      try {
+        const value = evaluator(row);
+        return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+const isIdentifier = (name: string) => /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !(name in FUNCTIONS);
+
+/**
+ * How to write a column name in a formula
+ */
+export function columnReference(name: string): string {
+  return isIdentifier(name) && name.toUpperCase() !== 'NA' ? name : `\`${name}\``;
+}
+
+/**
+ * Rewrite a formula so references to one column use its new name
+ */
+export function renameReference(source: string, from: string, to: string): string {
+  const tokens = tokenize(source);
+  let result = '';
+  let last = 0;
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    const isCall = token.kind === 'name' && !token.quoted && next?.kind === 'op' && next.value === '(';
+    if (token.kind !== 'name' || token.value !== from || isCall) return;
+    const length = token.quoted ? token.value.length + 2 : token.value.length;
+    result += source.slice(last, token.pos) + columnReference(to);
+    last = token.pos + length;
+  });
+  return result + source.slice(last);
+}
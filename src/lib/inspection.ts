@@ -0,0 +1,185 @@
+import type { ModelBundle } from '@/lib/model-bundle';
+import type { ObservedOutcome } from '@/lib/outcomes';
+import type { PredictionSettings } from '@/lib/prediction';
+import { predictForest } from '@/lib/rsf';
+import { prepareModelInput } from '@/lib/preprocessing';
+import { getSurvivalAtTime } from '@/lib/survival-utils';
+import { harrellC } from '@/lib/survival-metrics';
+import { quantile } from '@/lib/statistics';
+
+/**
+ * Global model inspection on the uploaded cohort: permutation importance and
+ * partial dependence / ICE curves. All computations work on the model-input
+ * matrix (after preprocessing and imputation).
+ */
+
+/** 'concordance': drop in Harrell's C; 'risk': mean absolute change in risk score */
+export type ImportanceMetric = 'concordance' | 'risk';
+export type DependenceTarget = 'risk' | 'survival';
+
+export interface FeatureImportance {
+  feature: string;
+  importance: number;
+  /** Standard deviation over permutation repeats */
+  std: number;
+}
+
+export interface ImportanceResult {
+  metric: ImportanceMetric;
+  /** Unpermuted Harrell's C (NaN for the risk metric) */
+  baseline: number;
+  repeats: number;
+  /** Sorted by importance, largest first */
+  features: FeatureImportance[];
+}
+
+export interface PermutationContext {
+  bundle: ModelBundle;
+  X: Float64Array[];
+  metric: ImportanceMetric;
+  /** Outcomes of the rows in X; only used for the concordance metric */
+  outcomes: (ObservedOutcome | null)[];
+  baselineRisk: number[];
+  baselineScore: number;
+}
+
+export interface DependenceOptions {
+  target: DependenceTarget;
+  /** Evaluation time in days for the survival target */
+  time: number;
+  gridSize?: number;
+  /** Number of patients drawn as ICE curves */
+  iceSamples?: number;
+}
+
+export interface DependenceCurve {
+  feature: string;
+  target: DependenceTarget;
+  time: number;
+  /** Feature values in model-input space */
+  grid: number[];
+  /** Partial dependence: mean prediction over the cohort at each grid value */
+  pdp: number[];
+  ice: { index: number; values: number[] }[];
+}
+
+/** Minimum number of events before importance is measured as a drop in concordance */
+const MIN_EVENTS_FOR_CONCORDANCE = 5;
+
+/**
+ * Model inputs for every row, in bundle feature order
+ */
+export function modelInputMatrix(
+  bundle: ModelBundle,
+  rows: Record<string, unknown>[],
+  settings: Pick<PredictionSettings, 'rawPtpm' | 'mapping'>
+): Float64Array[] {
+  return rows.map(row => prepareModelInput(row, bundle, settings.rawPtpm, settings.mapping).values);
+}
+
+function scoreRisks(context: Pick<PermutationContext, 'metric' | 'outcomes'>, risks: number[]): number {
+  if (context.metric === 'risk') return NaN;
+  const scored = context.outcomes.flatMap((outcome, i) => (outcome ? [{ ...outcome, riskScore: risks[i] }] : []));
+  return harrellC(scored);
+}
+
+/**
+ * Baseline predictions and metric for permutation importance
+ */
+export function createPermutationContext(
+  bundle: ModelBundle,
+  X: Float64Array[],
+  outcomes: (ObservedOutcome | null)[]
+): PermutationContext {
+  const events = outcomes.filter(o => o?.event).length;
+  const metric: ImportanceMetric = events >= MIN_EVENTS_FOR_CONCORDANCE ? 'concordance' : 'risk';
+  const baselineRisk = X.map(x => predictForest(bundle, x).riskScore);
+  return {
+    bundle,
+    X,
+    metric,
+    outcomes,
+    baselineRisk,
+    baselineScore: scoreRisks({ metric, outcomes }, baselineRisk)
+  };
+}
+
+/**
+ * Importance of one feature: shuffle its column across patients `repeats` times
+ */
+export function permuteFeature(
+  context: PermutationContext,
+  featureIndex: number,
+  repeats: number,
+  random: () => number
+): FeatureImportance {
+  const { bundle, X, baselineRisk } = context;
+  const column = X.map(x => x[featureIndex]);
+  const probe = new Float64Array(bundle.featureCount);
+  const scores: number[] = [];
+
+  for (let r = 0; r < repeats; r++) {
+    // Fisher–Yates shuffle of the column
+    const shuffled = [...column];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    const risks = X.map((x, i) => {
+      probe.set(x);
+      probe[featureIndex] = shuffled[i];
+      return predictForest(bundle, probe).riskScore;
+    });
+    scores.push(
+      context.metric === 'concordance'
+        ? context.baselineScore - scoreRisks(context, risks)
+        : risks.reduce((sum, risk, i) => sum + Math.abs(risk - baselineRisk[i]), 0) / risks.length
+    );
+  }
+
+  const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / Math.max(1, scores.length - 1);
+  return { feature: bundle.features[featureIndex], importance: mean, std: Math.sqrt(variance) };
+}
+
+/**
+ * Partial dependence and ICE curves of the risk score or S(t) for one feature.
+ * The grid spans the 5th–95th percentile of the feature in the cohort.
+ */
+export function partialDependence(
+  bundle: ModelBundle,
+  X: Float64Array[],
+  featureIndex: number,
+  options: DependenceOptions
+): DependenceCurve {
+  const { target, time, gridSize = 20, iceSamples = 50 } = options;
+  const values = X.map(x => x[featureIndex]).filter(Number.isFinite).sort((a, b) => a - b);
+  const lo = quantile(values, 0.05);
+  const hi = quantile(values, 0.95);
+  const grid = !Number.isFinite(lo)
+    ? []
+    : lo === hi
+      ? [lo]
+      : Array.from({ length: gridSize }, (_, i) => lo + (hi - lo) * i / (gridSize - 1));
+
+  const iceStep = Math.max(1, Math.floor(X.length / iceSamples));
+  const probe = new Float64Array(bundle.featureCount);
+  const curves = X.map(x => grid.map(value => {
+    probe.set(x);
+    probe[featureIndex] = value;
+    const prediction = predictForest(bundle, probe);
+    return target === 'risk' ? prediction.riskScore : getSurvivalAtTime(prediction.survivalData, time);
+  }));
+
+  return {
+    feature: bundle.features[featureIndex],
+    target,
+    time,
+    grid,
+    pdp: grid.map((_, g) => curves.reduce((sum, curve) => sum + curve[g], 0) / Math.max(1, curves.length)),
+    ice: curves
+      .map((values, index) => ({ index, values }))
+      .filter((_, index) => index % iceStep === 0)
+      .slice(0, iceSamples)
+  };
+}
@@ -0,0 +1,522 @@
+/**
+ * Loader for exported random survival forest bundles.
+ *
+ * A `.joblib` pickle cannot be read in the browser, so the trained forest is
+ * exported from Python to a JSON document with the following layout
+ * (see README for the export script):
+ *
+ * {
+ *   "format": "rsf-bundle",
+ *   "version": 1,
+ *   "model_name": "LUAD protein RSF",          // optional
+ *   "model_version": "2024.1",                  // optional
+ *   "features": ["age", "EGFR_pTPM", ...],
+ *   "feature_medians": { "age": 64, ... },      // or an array aligned with features
+ *   "risk_ref": { "q33": 12.1, "q66": 25.4 },   // optional
+ *   "scaler": {                                 // optional, fitted on log1p(pTPM)
+ *     "type": "standard",                       // or "minmax" with "min"/"max"
+ *     "mean": { "EGFR_pTPM": 2.1, ... },
+ *     "std": { "EGFR_pTPM": 0.8, ... }
+ *   },
+ *   "feature_schema": {                         // optional, per feature
+ *     "age": { "type": "numeric", "min": 18, "max": 110, "train_min": 34, "train_max": 88 },
+ *     "sex": { "type": "categorical", "levels": [0, 1] }
+ *   },
+ *   "training_summary": {                       // optional, raw input values of the training cohort
+ *     "n": 412,
+ *     "probabilities": [0, 0.1, ..., 1],        // optional, deciles by default
+ *     "features": {
+ *       "age": { "quantiles": [34, 48, ...], "mean": 63.8, "sd": 9.4, "missing_rate": 0.01 }
+ *     }
+ *   },
+ *   "event_times": [31, 58, 102, ...],          // strictly increasing, in days
+ *   "trees": [
+ *     {
+ *       "children_left":  [1, 3, -1, ...],      // -1 marks a leaf
+ *       "children_right": [2, 4, -1, ...],
+ *       "feature":        [4, 0, -2, ...],      // index into features
+ *       "threshold":      [1.7, 61.5, -2, ...], // go left when x <= threshold
+ *       "chf":      [null, null, [0.01, ...], ...],  // per node, one value per event time
+ *       "survival": [null, null, [0.99, ...], ...]
+ *     }
+ *   ]
+ * }
+ *
+ * `chf` and `survival` must be present for every leaf; values for internal
+ * nodes are optional.
+ */
+
+export const BUNDLE_FORMAT = 'rsf-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface SurvivalTree {
+  childrenLeft: Int32Array;
+  childrenRight: Int32Array;
+  feature: Int32Array;
+  threshold: Float64Array;
+  /** Per-node cumulative hazard at each event time; null when not exported */
+  chf: (Float64Array | null)[];
+  /** Per-node survival probability at each event time; null when not exported */
+  survival: (Float64Array | null)[];
+}
+
+export type ScalerParams =
+  | { type: 'standard'; mean: Record<string, number>; std: Record<string, number> }
+  | { type: 'minmax'; min: Record<string, number>; max: Record<string, number> };
+
+/**
+ * Type and valid range of a feature's raw input values
+ */
+export interface FeatureSpec {
+  type: 'numeric' | 'categorical';
+  /** Values outside [min, max] are invalid */
+  min?: number;
+  max?: number;
+  /** Range seen in the training data; values outside it are extrapolations */
+  trainMin?: number;
+  trainMax?: number;
+  /** Allowed values of a categorical feature */
+  levels?: (string | number)[];
+}
+
+/**
+ * Distribution of one feature in the training cohort
+ */
+export interface FeatureSummary {
+  /** Values at `TrainingSummary.probabilities` */
+  quantiles: number[];
+  mean: number;
+  sd: number;
+  missingRate: number;
+}
+
+export interface TrainingSummary {
+  /** Number of training patients, when exported */
+  n?: number;
+  /** Cumulative probabilities of the quantiles, from 0 to 1 */
+  probabilities: number[];
+  features: Record<string, FeatureSummary>;
+}
+
+/** Quantile probabilities assumed when a training summary does not list them */
+export const DEFAULT_SUMMARY_PROBABILITIES = Array.from({ length: 11 }, (_, i) => i / 10);
+
+export interface ModelBundle {
+  name?: string;
+  version?: string;
+  features: string[];
+  featureMedians: Record<string, number>;
+  riskRef?: {
+    q33: number;
+    q66: number;
+  };
+  /** Scaling applied to log1p-transformed `_pTPM` features during training */
+  scaler?: ScalerParams;
+  /** Input metadata for some or all features */
+  featureSchema?: Record<string, FeatureSpec>;
+  /** Training distribution of some or all features, for drift checks */
+  trainingSummary?: TrainingSummary;
+  eventTimes: number[];
+  trees: SurvivalTree[];
+  featureCount: number;
+}
+
+/**
+ * Raised when an uploaded bundle does not match the documented export format
+ */
+export class ModelBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelBundleError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function requireField(raw: JsonObject, field: string): unknown {
+  if (!(field in raw) || raw[field] === null || raw[field] === undefined) {
+    throw new ModelBundleError(`Missing required field "${field}"`);
+  }
+  return raw[field];
+}
+
+function parseNumberArray(value: unknown, label: string): number[] {
+  if (!Array.isArray(value)) {
+    throw new ModelBundleError(`${label} must be an array of numbers`);
+  }
+  value.forEach((v, idx) => {
+    if (!isFiniteNumber(v)) {
+      throw new ModelBundleError(`${label}[${idx}] is not a finite number`);
+    }
+  });
+  return value as number[];
+}
+
+function parseFeatures(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ModelBundleError('"features" must be a non-empty array of feature names');
+  }
+  const seen = new Set<string>();
+  value.forEach((name, idx) => {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new ModelBundleError(`features[${idx}] is not a valid feature name`);
+    }
+    if (seen.has(name)) {
+      throw new ModelBundleError(`Duplicate feature name "${name}"`);
+    }
+    seen.add(name);
+  });
+  return value as string[];
+}
+
+function parseFeatureMedians(value: unknown, features: string[]): Record<string, number> {
+  const medians: Record<string, number> = {};
+
+  if (Array.isArray(value)) {
+    if (value.length !== features.length) {
+      throw new ModelBundleError(
+        `"feature_medians" has ${value.length} values, expected ${features.length} (one per feature)`
+      );
+    }
+    features.forEach((feature, idx) => {
+      if (!isFiniteNumber(value[idx])) {
+        throw new ModelBundleError(`Median for feature "${feature}" is not a finite number`);
+      }
+      medians[feature] = value[idx];
+    });
+    return medians;
+  }
+
+  if (!isObject(value)) {
+    throw new ModelBundleError('"feature_medians" must be an object keyed by feature name or an array');
+  }
+
+  for (const feature of features) {
+    const median = value[feature];
+    if (median === undefined) {
+      throw new ModelBundleError(`"feature_medians" has no entry for feature "${feature}"`);
+    }
+    if (!isFiniteNumber(median)) {
+      throw new ModelBundleError(`Median for feature "${feature}" is not a finite number`);
+    }
+    medians[feature] = median;
+  }
+  return medians;
+}
+
+function parseRiskRef(value: unknown): ModelBundle['riskRef'] {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value) || !isFiniteNumber(value.q33) || !isFiniteNumber(value.q66)) {
+    throw new ModelBundleError('"risk_ref" must contain numeric "q33" and "q66" quantiles');
+  }
+  if (value.q33 > value.q66) {
+    throw new ModelBundleError('"risk_ref.q33" must not be greater than "risk_ref.q66"');
+  }
+  return { q33: value.q33, q66: value.q66 };
+}
+
+function parseScalerColumn(value: unknown, label: string, features: string[]): Record<string, number> {
+  if (!isObject(value)) {
+    throw new ModelBundleError(`"scaler.${label}" must be an object keyed by feature name`);
+  }
+  const params: Record<string, number> = {};
+  for (const feature of features) {
+    if (!isFiniteNumber(value[feature])) {
+      throw new ModelBundleError(`"scaler.${label}" has no numeric entry for feature "${feature}"`);
+    }
+    params[feature] = value[feature] as number;
+  }
+  return params;
+}
+
+function parseScaler(value: unknown, features: string[]): ScalerParams | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) {
+    throw new ModelBundleError('"scaler" must be an object');
+  }
+
+  // Scaling only ever applies to protein abundance columns
+  const ptpmFeatures = features.filter(f => f.endsWith('_pTPM'));
+
+  if (value.type === 'standard') {
+    const mean = parseScalerColumn(value.mean, 'mean', ptpmFeatures);
+    const std = parseScalerColumn(value.std, 'std', ptpmFeatures);
+    for (const feature of ptpmFeatures) {
+      if (std[feature] <= 0) {
+        throw new ModelBundleError(`"scaler.std" for feature "${feature}" must be positive`);
+      }
+    }
+    return { type: 'standard', mean, std };
+  }
+
+  if (value.type === 'minmax') {
+    const min = parseScalerColumn(value.min, 'min', ptpmFeatures);
+    const max = parseScalerColumn(value.max, 'max', ptpmFeatures);
+    for (const feature of ptpmFeatures) {
+      if (max[feature] <= min[feature]) {
+        throw new ModelBundleError(`"scaler.max" for feature "${feature}" must be greater than "scaler.min"`);
+      }
+    }
+    return { type: 'minmax', min, max };
+  }
+
+  throw new ModelBundleError(`Unknown scaler type "${String(value.type)}", expected "standard" or "minmax"`);
+}
+
+function optionalNumber(spec: JsonObject, field: string, feature: string): number | undefined {
+  const value = spec[field];
+  if (value === undefined || value === null) return undefined;
+  if (!isFiniteNumber(value)) {
+    throw new ModelBundleError(`"feature_schema.${feature}.${field}" must be a finite number`);
+  }
+  return value;
+}
+
+function parseFeatureSchema(value: unknown, features: string[]): Record<string, FeatureSpec> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) {
+    throw new ModelBundleError('"feature_schema" must be an object keyed by feature name');
+  }
+  const featureSet = new Set(features);
+  const schema: Record<string, FeatureSpec> = {};
+  for (const [feature, raw] of Object.entries(value)) {
+    if (!featureSet.has(feature)) {
+      throw new ModelBundleError(`"feature_schema" describes unknown feature "${feature}"`);
+    }
+    if (!isObject(raw) || (raw.type !== 'numeric' && raw.type !== 'categorical')) {
+      throw new ModelBundleError(`"feature_schema.${feature}.type" must be "numeric" or "categorical"`);
+    }
+    const spec: FeatureSpec = {
+      type: raw.type,
+      min: optionalNumber(raw, 'min', feature),
+      max: optionalNumber(raw, 'max', feature),
+      trainMin: optionalNumber(raw, 'train_min', feature),
+      trainMax: optionalNumber(raw, 'train_max', feature)
+    };
+    if (spec.min !== undefined && spec.max !== undefined && spec.min > spec.max) {
+      throw new ModelBundleError(`"feature_schema.${feature}.min" must not be greater than "max"`);
+    }
+    if (raw.type === 'categorical') {
+      const levels = raw.levels;
+      if (!Array.isArray(levels) || levels.length === 0 || !levels.every(l => typeof l === 'string' || isFiniteNumber(l))) {
+        throw new ModelBundleError(`"feature_schema.${feature}.levels" must be a non-empty array of strings or numbers`);
+      }
+      spec.levels = levels as (string | number)[];
+    }
+    schema[feature] = spec;
+  }
+  return schema;
+}
+
+function parseTrainingSummary(value: unknown, features: string[]): TrainingSummary | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value) || !isObject(value.features)) {
+    throw new ModelBundleError('"training_summary" must be an object with a "features" object');
+  }
+  if (value.n !== undefined && (!isFiniteNumber(value.n) || value.n <= 0)) {
+    throw new ModelBundleError('"training_summary.n" must be a positive number');
+  }
+  const probabilities = value.probabilities === undefined
+    ? DEFAULT_SUMMARY_PROBABILITIES
+    : parseNumberArray(value.probabilities, '"training_summary.probabilities"');
+  if (probabilities.length < 2 || probabilities[0] !== 0 || probabilities[probabilities.length - 1] !== 1
+    || probabilities.some((p, i) => i > 0 && p <= probabilities[i - 1])) {
+    throw new ModelBundleError('"training_summary.probabilities" must increase strictly from 0 to 1');
+  }
+
+  const featureSet = new Set(features);
+  const summaries: Record<string, FeatureSummary> = {};
+  for (const [feature, raw] of Object.entries(value.features)) {
+    const label = `"training_summary.features.${feature}"`;
+    if (!featureSet.has(feature)) {
+      throw new ModelBundleError(`"training_summary" describes unknown feature "${feature}"`);
+    }
+    if (!isObject(raw)) {
+      throw new ModelBundleError(`${label} must be an object`);
+    }
+    const quantiles = parseNumberArray(raw.quantiles, `${label}.quantiles`);
+    if (quantiles.length !== probabilities.length) {
+      throw new ModelBundleError(`${label}.quantiles has ${quantiles.length} values, expected ${probabilities.length}`);
+    }
+    if (quantiles.some((q, i) => i > 0 && q < quantiles[i - 1])) {
+      throw new ModelBundleError(`${label}.quantiles must not decrease`);
+    }
+    if (!isFiniteNumber(raw.mean) || !isFiniteNumber(raw.sd) || raw.sd < 0) {
+      throw new ModelBundleError(`${label} must have a numeric "mean" and a non-negative "sd"`);
+    }
+    const missingRate = raw.missing_rate ?? 0;
+    if (!isFiniteNumber(missingRate) || missingRate < 0 || missingRate > 1) {
+      throw new ModelBundleError(`${label}.missing_rate must be between 0 and 1`);
+    }
+    summaries[feature] = { quantiles, mean: raw.mean, sd: raw.sd, missingRate };
+  }
+  return { n: value.n as number | undefined, probabilities, features: summaries };
+}
+
+function parseEventTimes(value: unknown): number[] {
+  const times = parseNumberArray(value, '"event_times"');
+  if (times.length === 0) {
+    throw new ModelBundleError('"event_times" must not be empty');
+  }
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] <= times[i - 1]) {
+      throw new ModelBundleError('"event_times" must be strictly increasing');
+    }
+  }
+  return times;
+}
+
+function parseNodeValues(
+  value: unknown,
+  label: string,
+  nodeCount: number,
+  timeCount: number
+): (Float64Array | null)[] {
+  if (!Array.isArray(value) || value.length !== nodeCount) {
+    throw new ModelBundleError(`${label} must be an array with one entry per node (${nodeCount})`);
+  }
+  return value.map((nodeValues, node) => {
+    if (nodeValues === null) return null;
+    const values = parseNumberArray(nodeValues, `${label}[${node}]`);
+    if (values.length !== timeCount) {
+      throw new ModelBundleError(
+        `${label}[${node}] has ${values.length} values, expected ${timeCount} (one per event time)`
+      );
+    }
+    return Float64Array.from(values);
+  });
+}
+
+function parseTree(raw: unknown, treeIdx: number, featureCount: number, timeCount: number): SurvivalTree {
+  const label = `Tree ${treeIdx}`;
+  if (!isObject(raw)) {
+    throw new ModelBundleError(`${label} is not an object`);
+  }
+
+  const childrenLeft = parseNumberArray(raw.children_left, `${label}: "children_left"`);
+  const nodeCount = childrenLeft.length;
+  if (nodeCount === 0) {
+    throw new ModelBundleError(`${label} has no nodes`);
+  }
+
+  const arrays = {
+    children_right: parseNumberArray(raw.children_right, `${label}: "children_right"`),
+    feature: parseNumberArray(raw.feature, `${label}: "feature"`),
+    threshold: parseNumberArray(raw.threshold, `${label}: "threshold"`)
+  };
+  for (const [name, arr] of Object.entries(arrays)) {
+    if (arr.length !== nodeCount) {
+      throw new ModelBundleError(`${label}: "${name}" has ${arr.length} entries, expected ${nodeCount}`);
+    }
+  }
+
+  const chf = parseNodeValues(raw.chf, `${label}: "chf"`, nodeCount, timeCount);
+  const survival = parseNodeValues(raw.survival, `${label}: "survival"`, nodeCount, timeCount);
+
+  for (let node = 0; node < nodeCount; node++) {
+    const left = childrenLeft[node];
+    const right = arrays.children_right[node];
+    const isLeaf = left === -1 && right === -1;
+
+    if (isLeaf) {
+      if (!chf[node] || !survival[node]) {
+        throw new ModelBundleError(`${label}: leaf node ${node} has no "chf"/"survival" values`);
+      }
+      continue;
+    }
+
+    // sklearn stores children after their parent, which also rules out cycles
+    for (const child of [left, right]) {
+      if (!Number.isInteger(child) || child <= node || child >= nodeCount) {
+        throw new ModelBundleError(`${label}: node ${node} has invalid child index ${child}`);
+      }
+    }
+    const feature = arrays.feature[node];
+    if (!Number.isInteger(feature) || feature < 0 || feature >= featureCount) {
+      throw new ModelBundleError(
+        `${label}: node ${node} splits on feature index ${feature} but the bundle has ${featureCount} features`
+      );
+    }
+  }
+
+  return {
+    childrenLeft: Int32Array.from(childrenLeft),
+    childrenRight: Int32Array.from(arrays.children_right),
+    feature: Int32Array.from(arrays.feature),
+    threshold: Float64Array.from(arrays.threshold),
+    chf,
+    survival
+  };
+}
+
+/**
+ * Validate a decoded JSON export and convert it into a ModelBundle
+ */
+export function parseModelBundle(raw: unknown): ModelBundle {
+  if (!isObject(raw)) {
+    throw new ModelBundleError('Bundle must be a JSON object');
+  }
+
+  if (raw.format !== undefined && raw.format !== BUNDLE_FORMAT) {
+    throw new ModelBundleError(`Unknown bundle format "${String(raw.format)}", expected "${BUNDLE_FORMAT}"`);
+  }
+  if (raw.version !== undefined && raw.version !== BUNDLE_VERSION) {
+    throw new ModelBundleError(`Unsupported bundle version ${String(raw.version)}, expected ${BUNDLE_VERSION}`);
+  }
+
+  const features = parseFeatures(requireField(raw, 'features'));
+  const featureMedians = parseFeatureMedians(requireField(raw, 'feature_medians'), features);
+  const riskRef = parseRiskRef(raw.risk_ref);
+  const scaler = parseScaler(raw.scaler, features);
+  const featureSchema = parseFeatureSchema(raw.feature_schema, features);
+  const trainingSummary = parseTrainingSummary(raw.training_summary, features);
+  const eventTimes = parseEventTimes(requireField(raw, 'event_times'));
+
+  const rawTrees = requireField(raw, 'trees');
+  if (!Array.isArray(rawTrees) || rawTrees.length === 0) {
+    throw new ModelBundleError('"trees" must be a non-empty array');
+  }
+  const trees = rawTrees.map((tree, idx) => parseTree(tree, idx, features.length, eventTimes.length));
+
+  return {
+    name: typeof raw.model_name === 'string' ? raw.model_name : undefined,
+    version: typeof raw.model_version === 'string' ? raw.model_version : undefined,
+    features,
+    featureMedians,
+    riskRef,
+    scaler,
+    featureSchema,
+    trainingSummary,
+    eventTimes,
+    trees,
+    featureCount: features.length
+  };
+}
+
+/**
+ * Read an uploaded bundle file and return the validated ModelBundle
+ */
+export async function loadModelBundle(file: File): Promise<ModelBundle> {
+  if (file.name.toLowerCase().endsWith('.joblib')) {
+    throw new ModelBundleError(
+      'Joblib pickles cannot be read in the browser. Export the bundle to JSON with the export script first.'
+    );
+  }
+
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ModelBundleError('Bundle file is not valid JSON');
+  }
+  return parseModelBundle(raw);
+}
@@ -0,0 +1,96 @@
+import type { PatientResult } from '@/lib/prediction';
+
+export interface OutcomeColumns {
+  time: string | null;
+  event: string | null;
+}
+
+/** Observed follow-up for one patient; time is in days */
+export interface ObservedOutcome {
+  time: number;
+  event: boolean;
+}
+
+export interface PatientOutcome extends ObservedOutcome {
+  patientId: string;
+  riskScore: number;
+  riskGroup: PatientResult['riskGroup'];
+  survivalData: PatientResult['survivalData'];
+}
+
+const TIME_CANDIDATES = [
+  'OS_time', 'OS.time', 'os_time', 'OS_days', 'time', 'Time', 'survival_time',
+  'Survival_time', 'followup_days', 'follow_up_days', 'days_to_event', 'futime'
+];
+const EVENT_CANDIDATES = [
+  'OS_event', 'OS.event', 'os_event', 'OS_status', 'event', 'Event', 'status',
+  'Status', 'vital_status', 'death', 'dead', 'OS', 'fustat'
+];
+
+const EVENT_TRUE = new Set(['1', 'TRUE', 'YES', 'Y', 'DEAD', 'DECEASED', 'EVENT', 'DIED']);
+const EVENT_FALSE = new Set(['0', 'FALSE', 'NO', 'N', 'ALIVE', 'LIVING', 'CENSORED']);
+
+/**
+ * Detect follow-up time and event columns from common naming conventions
+ */
+export function detectOutcomeColumns(columns: string[]): OutcomeColumns {
+  const find = (candidates: string[]) =>
+    candidates.find(c => columns.includes(c)) ??
+    columns.find(col => candidates.some(c => c.toLowerCase() === col.toLowerCase())) ??
+    null;
+  return { time: find(TIME_CANDIDATES), event: find(EVENT_CANDIDATES) };
+}
+
+/**
+ * Interpret an event cell (1/0, TRUE/FALSE, Dead/Alive, ...). Returns null when unrecognised.
+ */
+export function parseEventValue(value: unknown): boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value;
+  const key = String(value).trim().toUpperCase();
+  if (EVENT_TRUE.has(key)) return true;
+  if (EVENT_FALSE.has(key)) return false;
+  return null;
+}
+
+/**
+ * Read the observed outcome from a patient row. Returns null when either value is missing or invalid.
+ */
+export function readOutcome(row: Record<string, unknown>, columns: OutcomeColumns): ObservedOutcome | null {
+  if (!columns.time || !columns.event) return null;
+  const rawTime = row[columns.time];
+  // Number('') and Number(null) are 0, which would read a blank cell as an immediate event
+  if (rawTime === null || rawTime === undefined || String(rawTime).trim() === '') return null;
+  const time = Number(rawTime);
+  const event = parseEventValue(row[columns.event]);
+  if (!Number.isFinite(time) || time < 0 || event === null) return null;
+  return { time, event };
+}
+
+/**
+ * Pair each prediction with the observed outcome of its row.
+ * Patients without a usable outcome are left out.
+ */
+export function matchOutcomes(
+  results: PatientResult[],
+  rows: Record<string, unknown>[],
+  columns: OutcomeColumns
+): PatientOutcome[] {
+  if (!columns.time || !columns.event) return [];
+
+  const matched: PatientOutcome[] = [];
+  for (const result of results) {
+    const row = rows[result.rowIndex];
+    const outcome = row ? readOutcome(row, columns) : null;
+    if (outcome) {
+      matched.push({
+        patientId: result.patientId,
+        riskScore: result.riskScore,
+        riskGroup: result.riskGroup,
+        survivalData: result.survivalData,
+        ...outcome
+      });
+    }
+  }
+  return matched;
+}
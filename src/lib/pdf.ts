@@ -0,0 +1,202 @@
+/**
+ * Minimal PDF writer for generated reports: A4 pages with text in the
+ * standard Helvetica fonts, lines, polylines and rectangles.
+ *
+ * Coordinates are in points from the top-left corner of the page; text is
+ * placed by its baseline. Text is encoded as WinAnsi, so characters outside
+ * Latin-1 and the common typographic punctuation are replaced.
+ */
+
+export type PdfColor = readonly [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfStrokeOptions {
+  color?: PdfColor;
+  width?: number;
+  /** Dash and gap lengths; solid when omitted */
+  dash?: number[];
+}
+
+export interface PdfRectOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  width?: number;
+}
+
+/** A4 page size in points */
+export const PAGE_SIZE = { width: 595.28, height: 841.89 };
+
+export const BLACK: PdfColor = [0, 0, 0];
+
+// Helvetica advance widths (1/1000 em) of the characters 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+/** Helvetica-Bold runs about this much wider than the regular weight */
+const BOLD_WIDTH_FACTOR = 1.06;
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters above 0x7F that are not at their Latin-1 position
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+// Characters without a WinAnsi code that have a readable substitute
+const SUBSTITUTES: Record<string, string> = { '−': '-', '≤': '<=', '≥': '>=', '→': '->', '←': '<-', '×': 'x' };
+
+/**
+ * WinAnsi byte codes of a string
+ */
+export function encodeWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const substitute = SUBSTITUTES[char];
+    if (substitute !== undefined) {
+      codes.push(...encodeWinAnsi(substitute));
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 63;
+    if (char in WIN_ANSI) codes.push(WIN_ANSI[char]);
+    else if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) codes.push(code);
+    else codes.push(63);
+  }
+  return codes;
+}
+
+// PDF literal string, with everything outside printable ASCII escaped
+function literal(text: string): string {
+  const body = encodeWinAnsi(text).map(code => {
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    if (code >= 32 && code < 127) return String.fromCharCode(code);
+    return `\\${code.toString(8).padStart(3, '0')}`;
+  }).join('');
+  return `(${body})`;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = (color: PdfColor) => color.map(num).join(' ');
+
+export class PdfDocument {
+  readonly width = PAGE_SIZE.width;
+  readonly height = PAGE_SIZE.height;
+  private pages: string[][] = [];
+
+  constructor(private readonly title = '') {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private draw(op: string): void {
+    if (this.pages.length === 0) this.addPage();
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  /**
+   * Width of a string in points
+   */
+  textWidth(text: string, size: number, bold = false): number {
+    const units = encodeWinAnsi(text).reduce(
+      (sum, code) => sum + (code >= 32 && code < 127 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH),
+      0
+    );
+    return (units * size / 1000) * (bold ? BOLD_WIDTH_FACTOR : 1);
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, at spaces where possible
+   */
+  wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  text(x: number, y: number, text: string, { size = 10, bold = false, color = BLACK, align = 'left' }: PdfTextOptions = {}): void {
+    const width = align === 'left' ? 0 : this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.draw(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(this.height - y)} Td ${literal(text)} Tj ET`);
+  }
+
+  polyline(points: [number, number][], { color = BLACK, width = 1, dash }: PdfStrokeOptions = {}): void {
+    if (points.length < 2) return;
+    const path = points
+      .map(([x, y], i) => `${num(x)} ${num(this.height - y)} ${i === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.draw(`q ${rgb(color)} RG ${num(width)} w [${(dash ?? []).map(num).join(' ')}] 0 d ${path} S Q`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfStrokeOptions = {}): void {
+    this.polyline([[x1, y1], [x2, y2]], options);
+  }
+
+  rect(x: number, y: number, width: number, height: number, { fill, stroke, width: lineWidth = 1 }: PdfRectOptions): void {
+    if (!fill && !stroke) return;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    const colors = `${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}`;
+    this.draw(`q ${colors}${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re ${paint} Q`);
+  }
+
+  /**
+   * Serialize the document; a document without pages gets one empty page
+   */
+  output(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${6 + 2 * i} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Title ${literal(this.title)} >>`
+    ];
+    this.pages.forEach((ops, i) => {
+      const content = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + 2 * i} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let body = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets = objects.map((object, i) => {
+      const offset = body.length;
+      body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = body.length;
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(body.length);
+    for (let i = 0; i < body.length; i++) bytes[i] = body.charCodeAt(i);
+    return bytes;
+  }
+}
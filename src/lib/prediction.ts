@@ -0,0 +1,66 @@
+import type { ModelBundle } from '@/lib/model-bundle';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+import { predictForest, type SurvivalPoint } from '@/lib/rsf';
+import { prepareModelInput } from '@/lib/preprocessing';
+import { classifyRisk, getSurvivalAtTime } from '@/lib/survival-utils';
+import { referenceScheme } from '@/lib/risk-groups';
+
+export interface PatientResult {
+  /** Display ID; may repeat across rows, so lookups go through rowIndex */
+  patientId: string;
+  /** Position of the patient's row in the current table */
+  rowIndex: number;
+  riskScore: number;
+  riskGroup: string | null;
+  survivalProbabilities: {
+    year: number;
+    probability: number;
+  }[];
+  survivalData: SurvivalPoint[];
+  imputedFeatures: string[];
+  imputationFlag: boolean;
+}
+
+export interface PredictionSettings {
+  rawPtpm: boolean;
+  mapping: ColumnMapping | null;
+  idColumn: string | null;
+  /** Years at which S(t) is reported */
+  timepoints: number[];
+}
+
+/**
+ * Display ID for a patient row, falling back to its 1-based position when
+ * there is no ID column or the row's ID is blank
+ */
+export function getPatientId(row: Record<string, unknown>, index: number, idColumn: string | null): string {
+  const id = idColumn ? row[idColumn] : null;
+  return id === null || id === undefined || String(id).trim() === '' ? `Patient_${index + 1}` : String(id);
+}
+
+/**
+ * Run the full pipeline (mapping, preprocessing, imputation, forest) for one patient row
+ */
+export function predictPatient(
+  bundle: ModelBundle,
+  row: Record<string, unknown>,
+  index: number,
+  settings: PredictionSettings
+): PatientResult {
+  const input = prepareModelInput(row, bundle, settings.rawPtpm, settings.mapping);
+  const { riskScore, survivalData } = predictForest(bundle, input.values);
+
+  return {
+    patientId: getPatientId(row, index, settings.idColumn),
+    rowIndex: index,
+    riskScore,
+    riskGroup: classifyRisk(riskScore, referenceScheme(bundle.riskRef)).group,
+    survivalProbabilities: settings.timepoints.map(year => ({
+      year,
+      probability: getSurvivalAtTime(survivalData, year * 365)
+    })),
+    survivalData,
+    imputedFeatures: input.imputed,
+    imputationFlag: input.flagged
+  };
+}
@@ -0,0 +1,119 @@
+import type { ModelBundle, ScalerParams } from '@/lib/model-bundle';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+
+export const PTPM_SUFFIX = '_pTPM';
+
+/** Patients with more than this fraction of features imputed are flagged */
+export const MAX_IMPUTED_FRACTION = 0.2;
+
+/**
+ * Protein abundance columns are identified by their `_pTPM` suffix
+ */
+export function isPtpmFeature(feature: string): boolean {
+  return feature.endsWith(PTPM_SUFFIX);
+}
+
+/**
+ * Data column a feature is read from: its mapped column, or the feature name
+ * itself when there is no mapping. Null when the feature is explicitly unmapped.
+ */
+export function featureColumn(feature: string, mapping?: ColumnMapping | null): string | null {
+  return mapping && feature in mapping ? mapping[feature] : feature;
+}
+
+/**
+ * Build the model input vector for a patient row, reading each feature from its
+ * mapped column. Missing, unmapped or non-numeric cells become NaN.
+ */
+export function buildFeatureVector(
+  row: Record<string, unknown>,
+  features: string[],
+  mapping?: ColumnMapping | null
+): Float64Array {
+  const x = new Float64Array(features.length);
+  features.forEach((feature, idx) => {
+    const column = featureColumn(feature, mapping);
+    const value = column === null ? null : row[column];
+    if (value === null || value === undefined || value === '') {
+      x[idx] = NaN;
+    } else {
+      const num = typeof value === 'number' ? value : Number(value);
+      x[idx] = Number.isFinite(num) ? num : NaN;
+    }
+  });
+  return x;
+}
+
+/**
+ * Apply log1p and the bundle's scaler to a single raw pTPM value. Negative
+ * values are not abundances and become NaN, so they are imputed like missing ones.
+ */
+export function transformPtpmValue(value: number, feature: string, scaler?: ScalerParams): number {
+  if (Number.isNaN(value) || value < 0) return NaN;
+  const logged = Math.log1p(value);
+  if (!scaler) return logged;
+
+  if (scaler.type === 'standard') {
+    return (logged - scaler.mean[feature]) / scaler.std[feature];
+  }
+  return (logged - scaler.min[feature]) / (scaler.max[feature] - scaler.min[feature]);
+}
+
+/**
+ * Prepare a feature vector (ordered as bundle.features) for inference.
+ * With rawPtpm on, every `_pTPM` feature is log1p-transformed and scaled;
+ * otherwise values are assumed to be preprocessed already and pass through unchanged.
+ */
+export function preprocessFeatureVector(
+  x: Float64Array,
+  bundle: ModelBundle,
+  rawPtpm: boolean
+): Float64Array {
+  if (!rawPtpm) return x;
+
+  const out = Float64Array.from(x);
+  bundle.features.forEach((feature, idx) => {
+    if (isPtpmFeature(feature)) {
+      out[idx] = transformPtpmValue(x[idx], feature, bundle.scaler);
+    }
+  });
+  return out;
+}
+
+/**
+ * Fill missing values (NaN) from the bundle's feature medians.
+ * Medians are in model-input space, so this runs after preprocessing.
+ */
+export function imputeMissing(
+  x: Float64Array,
+  bundle: ModelBundle
+): { values: Float64Array; imputed: string[] } {
+  const values = Float64Array.from(x);
+  const imputed: string[] = [];
+  bundle.features.forEach((feature, idx) => {
+    if (Number.isNaN(values[idx])) {
+      values[idx] = bundle.featureMedians[feature];
+      imputed.push(feature);
+    }
+  });
+  return { values, imputed };
+}
+
+/**
+ * Full input pipeline for one patient row: feature selection, preprocessing and imputation
+ */
+export function prepareModelInput(
+  row: Record<string, unknown>,
+  bundle: ModelBundle,
+  rawPtpm: boolean,
+  mapping?: ColumnMapping | null
+): { raw: Float64Array; values: Float64Array; imputed: string[]; flagged: boolean } {
+  const raw = buildFeatureVector(row, bundle.features, mapping);
+  const { values, imputed } = imputeMissing(preprocessFeatureVector(raw, bundle, rawPtpm), bundle);
+  return {
+    raw,
+    values,
+    imputed,
+    flagged: imputed.length > bundle.features.length * MAX_IMPUTED_FRACTION
+  };
+}
@@ -0,0 +1,155 @@
+import { logRankTest, type ScoredObservation } from '@/lib/survival-metrics';
+import { quantile } from '@/lib/statistics';
+
+/**
+ * Risk group schemes: ordered score thresholds that split patients into 2–5 groups.
+ * A score belongs to the first group whose upper threshold it does not exceed.
+ */
+
+export type RiskGroupMethod = 'reference' | 'manual' | 'quantile' | 'optimal';
+export type RiskTone = 'low' | 'medium' | 'high';
+
+export interface RiskGroupScheme {
+  method: RiskGroupMethod;
+  /** Ascending upper bounds of every group but the last */
+  thresholds: number[];
+  /** One label per group, from lowest to highest risk */
+  labels: string[];
+}
+
+export interface OptimalCutpoint {
+  cutpoint: number;
+  /** Maximally selected standardized log-rank statistic */
+  statistic: number;
+  /** P-value adjusted for the cutpoint search (Lausen & Schumacher, 1992) */
+  pValue: number;
+  lowerCount: number;
+  upperCount: number;
+}
+
+export const MIN_RISK_GROUPS = 2;
+export const MAX_RISK_GROUPS = 5;
+
+/** Candidate cutpoints are restricted to this central share of the cohort */
+const DEFAULT_MIN_PROPORTION = 0.1;
+const MAX_CANDIDATES = 200;
+
+const RISK_LABELS: Record<number, string[]> = {
+  2: ['Low', 'High'],
+  3: ['Low', 'Intermediate', 'High'],
+  4: ['Low', 'Low-Intermediate', 'High-Intermediate', 'High'],
+  5: ['Very Low', 'Low', 'Intermediate', 'High', 'Very High']
+};
+
+// HSL anchors of --risk-low, --risk-medium and --risk-high
+const TONE_ANCHORS: [number, number, number][] = [[142, 76, 36], [45, 93, 47], [0, 84, 60]];
+
+/**
+ * Default labels for a number of groups, from lowest to highest risk
+ */
+export function defaultRiskLabels(count: number): string[] {
+  return RISK_LABELS[count] ?? Array.from({ length: count }, (_, i) => `Group ${i + 1}`);
+}
+
+function schemeFromThresholds(method: RiskGroupMethod, thresholds: number[]): RiskGroupScheme {
+  const sorted = [...thresholds].sort((a, b) => a - b);
+  return { method, thresholds: sorted, labels: defaultRiskLabels(sorted.length + 1) };
+}
+
+/**
+ * The bundle's q33/q66 reference split, or null when the bundle has none
+ */
+export function referenceScheme(riskRef: { q33?: number; q66?: number } | null | undefined): RiskGroupScheme | null {
+  if (!riskRef || riskRef.q33 === undefined || riskRef.q66 === undefined) return null;
+  return schemeFromThresholds('reference', [riskRef.q33, riskRef.q66]);
+}
+
+/**
+ * Scheme from user-entered thresholds (sorted; duplicates removed)
+ */
+export function manualScheme(thresholds: number[]): RiskGroupScheme {
+  return schemeFromThresholds('manual', Array.from(new Set(thresholds.filter(Number.isFinite))));
+}
+
+/**
+ * Equal-size groups from quantiles of the current cohort's scores
+ */
+export function quantileScheme(scores: number[], count: number): RiskGroupScheme {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const thresholds = Array.from({ length: count - 1 }, (_, i) => quantile(sorted, (i + 1) / count));
+  return schemeFromThresholds('quantile', thresholds);
+}
+
+/**
+ * Scheme with a single cutpoint found by maximally selected rank statistics
+ */
+export function optimalScheme(cutpoint: OptimalCutpoint): RiskGroupScheme {
+  return schemeFromThresholds('optimal', [cutpoint.cutpoint]);
+}
+
+function normalDensity(x: number): number {
+  return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Cutpoint of the risk score that maximizes the two-group log-rank statistic.
+ * Only cutpoints leaving at least `minProportion` of patients on each side are tried.
+ */
+export function optimalCutpoint(
+  data: ScoredObservation[],
+  minProportion: number = DEFAULT_MIN_PROPORTION
+): OptimalCutpoint | null {
+  if (data.length < 4 || !data.some(d => d.event)) return null;
+  const sorted = [...data].sort((a, b) => a.riskScore - b.riskScore);
+  const scores = sorted.map(d => d.riskScore);
+  const minCount = Math.max(1, Math.ceil(minProportion * data.length));
+
+  let candidates = Array.from(new Set(scores.slice(minCount - 1, data.length - minCount)));
+  if (candidates.length > MAX_CANDIDATES) {
+    const step = (candidates.length - 1) / (MAX_CANDIDATES - 1);
+    candidates = Array.from({ length: MAX_CANDIDATES }, (_, i) => candidates[Math.round(i * step)]);
+  }
+
+  let best: OptimalCutpoint | null = null;
+  for (const cutpoint of candidates) {
+    const lower = sorted.filter(d => d.riskScore <= cutpoint);
+    const upper = sorted.filter(d => d.riskScore > cutpoint);
+    if (lower.length < minCount || upper.length < minCount) continue;
+    const test = logRankTest([lower, upper]);
+    if (!test || !Number.isFinite(test.chiSquare)) continue;
+    const statistic = Math.sqrt(test.chiSquare);
+    if (!best || statistic > best.statistic) {
+      best = { cutpoint, statistic, pValue: NaN, lowerCount: lower.length, upperCount: upper.length };
+    }
+  }
+  if (!best) return null;
+
+  // Lausen & Schumacher approximation for the maximum over the searched range
+  const b = best.statistic;
+  const e1 = minProportion;
+  const e2 = 1 - minProportion;
+  const p = normalDensity(b) * (b - 1 / b) * Math.log((e2 * (1 - e1)) / ((1 - e2) * e1)) + 4 * normalDensity(b) / b;
+  return { ...best, pValue: Math.min(1, Math.max(0, p)) };
+}
+
+/**
+ * Display tone of a group, spreading the labels from low to high
+ */
+export function riskGroupTone(label: string | null, labels: string[]): RiskTone | null {
+  const idx = label === null ? -1 : labels.indexOf(label);
+  if (idx < 0) return null;
+  const position = labels.length > 1 ? idx / (labels.length - 1) : 0;
+  return position < 1 / 3 ? 'low' : position <= 2 / 3 ? 'medium' : 'high';
+}
+
+/**
+ * Chart colour of a group, interpolated across the risk palette
+ */
+export function riskGroupColor(index: number, count: number): string {
+  const position = count > 1 ? index / (count - 1) : 0;
+  const scaled = position * (TONE_ANCHORS.length - 1);
+  const lo = Math.min(Math.floor(scaled), TONE_ANCHORS.length - 2);
+  const t = scaled - lo;
+  const [h, s, l] = TONE_ANCHORS[lo].map((v, i) => Math.round(v + (TONE_ANCHORS[lo + 1][i] - v) * t));
+  return `hsl(${h} ${s}% ${l}%)`;
+}
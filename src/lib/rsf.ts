@@ -0,0 +1,78 @@
+import type { ModelBundle, SurvivalTree } from '@/lib/model-bundle';
+
+export interface SurvivalPoint {
+  time: number;
+  probability: number;
+}
+
+export interface ForestPrediction {
+  /** Ensemble risk score: sum of the cumulative hazard over all event times */
+  riskScore: number;
+  cumulativeHazard: Float64Array;
+  survival: Float64Array;
+  /** Step function S(t), starting at S(0) = 1 */
+  survivalData: SurvivalPoint[];
+}
+
+/**
+ * Walk a single tree and return the index of the terminal node for x.
+ * Missing values (NaN) fail the `x <= threshold` test and follow the right child.
+ */
+export function findLeaf(tree: SurvivalTree, x: ArrayLike<number>): number {
+  let node = 0;
+  while (tree.childrenLeft[node] !== -1) {
+    node = x[tree.feature[node]] <= tree.threshold[node]
+      ? tree.childrenLeft[node]
+      : tree.childrenRight[node];
+  }
+  return node;
+}
+
+/**
+ * Convert survival values at the bundle's event times into a step function
+ */
+export function toSurvivalSteps(eventTimes: number[], survival: ArrayLike<number>): SurvivalPoint[] {
+  const steps: SurvivalPoint[] = [];
+  if (eventTimes[0] > 0) {
+    steps.push({ time: 0, probability: 1 });
+  }
+  for (let i = 0; i < eventTimes.length; i++) {
+    steps.push({ time: eventTimes[i], probability: Math.min(1, Math.max(0, survival[i])) });
+  }
+  return steps;
+}
+
+/**
+ * Evaluate the forest for one feature vector (ordered as bundle.features).
+ * Terminal-node cumulative hazard and survival functions are averaged over all trees.
+ */
+export function predictForest(bundle: ModelBundle, x: ArrayLike<number>): ForestPrediction {
+  const timeCount = bundle.eventTimes.length;
+  const cumulativeHazard = new Float64Array(timeCount);
+  const survival = new Float64Array(timeCount);
+
+  for (const tree of bundle.trees) {
+    const leaf = findLeaf(tree, x);
+    const leafChf = tree.chf[leaf]!;
+    const leafSurvival = tree.survival[leaf]!;
+    for (let i = 0; i < timeCount; i++) {
+      cumulativeHazard[i] += leafChf[i];
+      survival[i] += leafSurvival[i];
+    }
+  }
+
+  const treeCount = bundle.trees.length;
+  let riskScore = 0;
+  for (let i = 0; i < timeCount; i++) {
+    cumulativeHazard[i] /= treeCount;
+    survival[i] /= treeCount;
+    riskScore += cumulativeHazard[i];
+  }
+
+  return {
+    riskScore,
+    cumulativeHazard,
+    survival,
+    survivalData: toSurvivalSteps(bundle.eventTimes, survival)
+  };
+}
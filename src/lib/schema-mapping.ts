@@ -0,0 +1,162 @@
+import { PTPM_SUFFIX } from '@/lib/preprocessing';
+
+/**
+ * Maps each model feature to the uploaded column that provides it.
+ * A null entry means the feature has no source column and will be imputed.
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappingSuggestion {
+  feature: string;
+  column: string;
+  reason: string;
+}
+
+export interface SchemaAlignment {
+  required: string[];
+  /** Features with an identically named column */
+  matched: string[];
+  /** Features without an exact match but with a likely candidate column */
+  suggestions: MappingSuggestion[];
+  /** Features with neither an exact match nor a suggestion */
+  missing: string[];
+  /** Uploaded columns not used by any feature */
+  extra: string[];
+  /** Exact matches only; suggestions are applied once the user confirms them */
+  mapping: ColumnMapping;
+}
+
+// Common alternative names for the same gene product
+const GENE_ALIASES: string[][] = [
+  ['ERBB2', 'HER2', 'NEU'],
+  ['EGFR', 'ERBB1', 'HER1'],
+  ['CD274', 'PDL1', 'B7H1'],
+  ['PDCD1', 'PD1'],
+  ['TP53', 'P53'],
+  ['MKI67', 'KI67'],
+  ['MYC', 'CMYC'],
+  ['CDKN2A', 'P16'],
+  ['ESR1', 'ER'],
+  ['PGR', 'PR'],
+  ['VIM', 'VIMENTIN'],
+  ['CDH1', 'ECADHERIN']
+];
+
+const ALIAS_LOOKUP = new Map<string, string>();
+GENE_ALIASES.forEach(group => group.forEach(alias => ALIAS_LOOKUP.set(alias, group[0])));
+
+const STORAGE_KEY = 'rsf-column-mappings';
+
+// The pTPM suffix with any separator (or none) before it
+const PTPM_SUFFIX_PATTERN = new RegExp(`[^a-z0-9]*${PTPM_SUFFIX.replace(/^[^a-z0-9]+/i, '')}$`, 'i');
+
+/**
+ * Reduce a column name to a comparable key: case, separators and the pTPM suffix are ignored
+ */
+export function normalizeColumnName(name: string): string {
+  return name.trim().replace(PTPM_SUFFIX_PATTERN, '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function canonicalGene(name: string): string {
+  const key = normalizeColumnName(name);
+  return ALIAS_LOOKUP.get(key) ?? key;
+}
+
+function suggestColumn(feature: string, candidates: string[]): MappingSuggestion | null {
+  const lower = feature.toLowerCase();
+  const byCase = candidates.find(c => c.trim().toLowerCase() === lower);
+  if (byCase) return { feature, column: byCase, reason: 'Differs in case or whitespace' };
+
+  const key = normalizeColumnName(feature);
+  const byKey = candidates.find(c => normalizeColumnName(c) === key);
+  if (byKey) return { feature, column: byKey, reason: 'Differs in separators or _pTPM suffix' };
+
+  const gene = canonicalGene(feature);
+  const byAlias = candidates.find(c => canonicalGene(c) === gene);
+  if (byAlias) return { feature, column: byAlias, reason: 'Known gene alias' };
+
+  return null;
+}
+
+/**
+ * Compare uploaded columns with the model's features and suggest likely matches
+ */
+export function alignSchema(columns: string[], features: string[]): SchemaAlignment {
+  const columnSet = new Set(columns);
+  const matched = features.filter(f => columnSet.has(f));
+  const used = new Set(matched);
+  const mapping: ColumnMapping = {};
+  const suggestions: MappingSuggestion[] = [];
+  const missing: string[] = [];
+
+  for (const feature of features) {
+    if (columnSet.has(feature)) {
+      mapping[feature] = feature;
+      continue;
+    }
+    mapping[feature] = null;
+    const suggestion = suggestColumn(feature, columns.filter(c => !used.has(c)));
+    if (suggestion) {
+      suggestions.push(suggestion);
+      used.add(suggestion.column);
+    } else {
+      missing.push(feature);
+    }
+  }
+
+  return {
+    required: features,
+    matched,
+    suggestions,
+    missing,
+    extra: columns.filter(c => !used.has(c)),
+    mapping
+  };
+}
+
+/**
+ * Stable key for a set of headers, used to find saved mappings
+ */
+export function headerSignature(columns: string[]): string {
+  return [...columns].sort().join('\u001f');
+}
+
+function readSavedMappings(): Record<string, ColumnMapping> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Load a previously confirmed mapping for files with the same headers.
+ * Returns null unless the saved mapping covers every current feature.
+ */
+export function loadSavedMapping(columns: string[], features: string[]): ColumnMapping | null {
+  const saved = readSavedMappings()[headerSignature(columns)];
+  if (!saved || !features.every(f => f in saved)) return null;
+
+  const columnSet = new Set(columns);
+  const mapping: ColumnMapping = {};
+  for (const feature of features) {
+    const column = saved[feature];
+    mapping[feature] = column && columnSet.has(column) ? column : null;
+  }
+  return mapping;
+}
+
+/**
+ * Remember a confirmed mapping for later files with the same headers
+ */
+export function saveMapping(columns: string[], mapping: ColumnMapping): void {
+  const saved = readSavedMappings();
+  const key = headerSignature(columns);
+  saved[key] = { ...saved[key], ...mapping };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch {
+    // Storage can be full or disabled; the mapping still applies to this session
+  }
+}
@@ -0,0 +1,199 @@
+import type { ColumnMapping } from '@/lib/schema-mapping';
+import type { OutcomeColumns } from '@/lib/outcomes';
+import type { PatientResult } from '@/lib/prediction';
+import type { RiskGroupScheme } from '@/lib/risk-groups';
+
+/**
+ * Named analysis sessions persisted in IndexedDB.
+ *
+ * Summaries and full session state live in separate object stores so the
+ * session list can be shown without reading every patient table. The model
+ * bundle is kept as the uploaded file and parsed again on restore.
+ */
+
+const DB_NAME = 'rsf-survival-sessions';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries';
+const STATE_STORE = 'states';
+const LAST_SESSION_KEY = 'rsf-last-session';
+
+export interface SessionSettings {
+  rawPtpm: boolean;
+  timepoints: number[];
+  chartMode: 'single' | 'all' | 'km';
+}
+
+export interface SessionState {
+  modelFile: File | null;
+  dataFile: File | null;
+  /** Patient rows including edits made in the app */
+  patientData: Record<string, unknown>[];
+  /** Rows as uploaded and, per current row, the uploaded row it came from (absent in older sessions) */
+  originalData?: Record<string, unknown>[];
+  rowOrigins?: (number | null)[];
+  columns: string[];
+  /** Uploaded column behind each column and formulas of derived columns (absent in older sessions) */
+  columnSources?: (string | null)[];
+  formulas?: Record<string, string>;
+  idColumn: string | null;
+  outcomeColumns: OutcomeColumns;
+  columnMapping: ColumnMapping | null;
+  riskScheme: RiskGroupScheme | null;
+  settings: SessionSettings;
+  results: PatientResult[];
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  modelName: string | null;
+  dataName: string | null;
+  patientCount: number;
+  resultCount: number;
+}
+
+export interface SessionRecord extends SessionSummary {
+  state: SessionState;
+}
+
+/**
+ * Raised when sessions cannot be read or written, e.g. in private browsing
+ */
+export class SessionStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionStorageError';
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new SessionStorageError('IndexedDB is not available in this browser'));
+  }
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new SessionStorageError(`Could not open session storage: ${request.error?.message}`));
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new SessionStorageError(request.error?.message ?? 'Session storage request failed'));
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    const fail = () => reject(new SessionStorageError(transaction.error?.message ?? 'Session storage transaction failed'));
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+}
+
+/**
+ * New unique session id
+ */
+export function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * All saved sessions, most recently updated first
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const summaries = await settle(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Full session state, or null when the session no longer exists
+ */
+export async function loadSession(id: string): Promise<SessionRecord | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, STATE_STORE]);
+  const [summary, state] = await Promise.all([
+    settle(transaction.objectStore(SUMMARY_STORE).get(id) as IDBRequest<SessionSummary | undefined>),
+    settle(transaction.objectStore(STATE_STORE).get(id) as IDBRequest<SessionState | undefined>)
+  ]);
+  return summary && state ? { ...summary, state } : null;
+}
+
+/**
+ * Create or overwrite a session
+ */
+export async function saveSession(
+  session: Pick<SessionSummary, 'id' | 'name' | 'createdAt'>,
+  state: SessionState
+): Promise<SessionSummary> {
+  const summary: SessionSummary = {
+    ...session,
+    updatedAt: Date.now(),
+    modelName: state.modelFile?.name ?? null,
+    dataName: state.dataFile?.name ?? null,
+    patientCount: state.patientData.length,
+    resultCount: state.results.length
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, STATE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction.objectStore(STATE_STORE).put(state, summary.id);
+  await completion(transaction);
+  return summary;
+}
+
+/**
+ * Copy a session under a new id and name
+ */
+export async function duplicateSession(id: string, name: string): Promise<SessionSummary> {
+  const source = await loadSession(id);
+  if (!source) throw new SessionStorageError('Session not found');
+  return saveSession({ id: createSessionId(), name, createdAt: Date.now() }, source.state);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, STATE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(STATE_STORE).delete(id);
+  await completion(transaction);
+  if (getLastSessionId() === id) setLastSessionId(null);
+}
+
+/**
+ * Id of the session that was open when the page was last used
+ */
+export function getLastSessionId(): string | null {
+  try {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastSessionId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(LAST_SESSION_KEY, id);
+    else localStorage.removeItem(LAST_SESSION_KEY);
+  } catch {
+    // Storage can be disabled; the session is then not reopened automatically
+  }
+}
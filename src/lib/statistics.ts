@@ -0,0 +1,128 @@
+/**
+ * Special functions and distributions used by the survival statistics
+ */
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+/** Natural log of the gamma function (Lanczos approximation) */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ */
+export function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+}
+
+/**
+ * Linearly interpolated quantile of an ascending array
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Upper-tail p-value of a chi-square statistic */
+export function chiSquarePValue(statistic: number, df: number): number {
+  if (!Number.isFinite(statistic) || df <= 0) return NaN;
+  return gammaQ(df / 2, statistic / 2);
+}
+
+/**
+ * Asymptotic p-value of a one-sample Kolmogorov–Smirnov statistic D for n
+ * observations, using Stephens' small-sample correction
+ */
+export function ksPValue(statistic: number, n: number): number {
+  if (!Number.isFinite(statistic) || n <= 0) return NaN;
+  const sqrtN = Math.sqrt(n);
+  const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * statistic;
+  if (lambda < 1e-3) return 1;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return Math.min(1, Math.max(0, sum));
+}
+
+/**
+ * Solve the linear system A x = b by Gaussian elimination with partial pivoting.
+ * Returns null when A is singular.
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = a[r][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[r][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = a[r][n];
+    for (let k = r + 1; k < n; k++) sum -= a[r][k] * x[k];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+}
@@ -0,0 +1,392 @@
+import { chiSquarePValue, quantile, solveLinearSystem } from '@/lib/statistics';
+
+/**
+ * Survival statistics for evaluating predictions against observed outcomes.
+ * Times are in days; `event` is true for an observed death and false for censoring.
+ */
+
+export interface SurvivalObservation {
+  time: number;
+  event: boolean;
+}
+
+export interface ScoredObservation extends SurvivalObservation {
+  riskScore: number;
+}
+
+export interface KaplanMeierStep {
+  time: number;
+  /** S(t) just after this time */
+  survival: number;
+  atRisk: number;
+  events: number;
+  censored: number;
+  /** Pointwise 95% confidence band (Greenwood variance, log-log transform) */
+  lower: number;
+  upper: number;
+}
+
+export interface Estimate {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ConcordanceSummary {
+  harrell: Estimate;
+  uno: Estimate;
+  n: number;
+  events: number;
+}
+
+export interface LogRankResult {
+  chiSquare: number;
+  df: number;
+  pValue: number;
+  observed: number[];
+  expected: number[];
+}
+
+export interface SurvivalGroup {
+  label: string;
+  observations: SurvivalObservation[];
+}
+
+export interface GroupSurvivalSummary {
+  label: string;
+  n: number;
+  events: number;
+  curve: KaplanMeierStep[];
+  /** Median survival time, null when the curve never drops to 50% */
+  median: number | null;
+}
+
+export interface RiskTableEntry {
+  time: number;
+  /** Patients still under observation at this time */
+  atRisk: number;
+  /** Cumulative events and censorings up to and including this time */
+  events: number;
+  censored: number;
+}
+
+const Z_95 = 1.959963984540054;
+
+function logLogBand(survival: number, greenwood: number): [number, number] {
+  if (survival <= 0) return [0, 0];
+  if (survival >= 1 || greenwood <= 0) return [survival, survival];
+  const se = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+  return [Math.pow(survival, Math.exp(Z_95 * se)), Math.pow(survival, Math.exp(-Z_95 * se))];
+}
+
+/**
+ * Kaplan–Meier product-limit estimate with one step per distinct observed time
+ */
+export function kaplanMeier(observations: SurvivalObservation[]): KaplanMeierStep[] {
+  const sorted = [...observations].sort((a, b) => a.time - b.time);
+  const steps: KaplanMeierStep[] = [];
+  let atRisk = sorted.length;
+  let survival = 1;
+  let greenwood = 0;
+  let i = 0;
+
+  while (i < sorted.length) {
+    const time = sorted[i].time;
+    let events = 0;
+    let censored = 0;
+    while (i < sorted.length && sorted[i].time === time) {
+      if (sorted[i].event) events++;
+      else censored++;
+      i++;
+    }
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      if (atRisk > events) greenwood += events / (atRisk * (atRisk - events));
+    }
+    const [lower, upper] = logLogBand(survival, greenwood);
+    steps.push({ time, survival, atRisk, events, censored, lower, upper });
+    atRisk -= events + censored;
+  }
+  return steps;
+}
+
+// Index of the last step with time <= t (or < t when strict), -1 if none
+function lastStepIndex(curve: KaplanMeierStep[], time: number, strict: boolean): number {
+  let lo = 0;
+  let hi = curve.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (strict ? curve[mid].time < time : curve[mid].time <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * The Kaplan–Meier step in effect at time t, null before the first step
+ */
+export function stepAt(curve: KaplanMeierStep[], time: number): KaplanMeierStep | null {
+  const idx = lastStepIndex(curve, time, false);
+  return idx < 0 ? null : curve[idx];
+}
+
+/**
+ * S(t) from a Kaplan–Meier curve (right-continuous)
+ */
+export function survivalAt(curve: KaplanMeierStep[], time: number): number {
+  return stepAt(curve, time)?.survival ?? 1;
+}
+
+/**
+ * S(t-) from a Kaplan–Meier curve, i.e. excluding events at exactly t
+ */
+export function survivalBefore(curve: KaplanMeierStep[], time: number): number {
+  const idx = lastStepIndex(curve, time, true);
+  return idx < 0 ? 1 : curve[idx].survival;
+}
+
+/**
+ * Median survival: the first time at which S(t) drops to 0.5 or below
+ */
+export function medianSurvival(curve: KaplanMeierStep[]): number | null {
+  const step = curve.find(s => s.survival <= 0.5);
+  return step ? step.time : null;
+}
+
+/**
+ * Number at risk and cumulative events/censorings at each tick, read off a Kaplan–Meier curve
+ */
+export function riskTableCounts(curve: KaplanMeierStep[], ticks: number[]): RiskTableEntry[] {
+  const entries: RiskTableEntry[] = [];
+  let idx = 0;
+  let events = 0;
+  let censored = 0;
+
+  for (const time of [...ticks].sort((a, b) => a - b)) {
+    // Steps before the tick have left the risk set
+    while (idx < curve.length && curve[idx].time < time) {
+      events += curve[idx].events;
+      censored += curve[idx].censored;
+      idx++;
+    }
+    const atRisk = idx < curve.length ? curve[idx].atRisk : 0;
+    const atTick = idx < curve.length && curve[idx].time === time ? curve[idx] : null;
+    entries.push({
+      time,
+      atRisk,
+      events: events + (atTick?.events ?? 0),
+      censored: censored + (atTick?.censored ?? 0)
+    });
+  }
+  return entries;
+}
+
+/**
+ * Multi-group log-rank test (k - 1 degrees of freedom). Empty groups are ignored.
+ */
+export function logRankTest(groups: SurvivalObservation[][]): LogRankResult | null {
+  const active = groups.filter(g => g.length > 0);
+  const k = active.length;
+  if (k < 2) return null;
+
+  const all = active
+    .flatMap((g, group) => g.map(o => ({ ...o, group })))
+    .sort((a, b) => a.time - b.time);
+  const atRisk = active.map(g => g.length);
+  const observed = new Array<number>(k).fill(0);
+  const expected = new Array<number>(k).fill(0);
+  const variance = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  let i = 0;
+
+  while (i < all.length) {
+    const time = all[i].time;
+    const deaths = new Array<number>(k).fill(0);
+    const leaving = new Array<number>(k).fill(0);
+    while (i < all.length && all[i].time === time) {
+      if (all[i].event) deaths[all[i].group]++;
+      leaving[all[i].group]++;
+      i++;
+    }
+
+    const d = deaths.reduce((a, b) => a + b, 0);
+    const n = atRisk.reduce((a, b) => a + b, 0);
+    if (d > 0) {
+      const spread = n > 1 ? (n - d) / (n - 1) : 0;
+      for (let j = 0; j < k; j++) {
+        observed[j] += deaths[j];
+        expected[j] += d * atRisk[j] / n;
+        for (let l = 0; l < k; l++) {
+          const share = atRisk[j] / n;
+          variance[j][l] += d * share * ((j === l ? 1 : 0) - atRisk[l] / n) * spread;
+        }
+      }
+    }
+    for (let j = 0; j < k; j++) atRisk[j] -= leaving[j];
+  }
+
+  // The k deviations sum to zero, so drop the last group
+  const diff = observed.slice(0, k - 1).map((o, j) => o - expected[j]);
+  const reduced = variance.slice(0, k - 1).map(row => row.slice(0, k - 1));
+  const solved = solveLinearSystem(reduced, diff);
+  const chiSquare = solved ? solved.reduce((sum, v, j) => sum + v * diff[j], 0) : NaN;
+
+  return { chiSquare, df: k - 1, pValue: chiSquarePValue(chiSquare, k - 1), observed, expected };
+}
+
+/**
+ * Kaplan–Meier curve and median per group, plus the log-rank test across groups
+ */
+export function compareSurvivalGroups(groups: SurvivalGroup[]): {
+  groups: GroupSurvivalSummary[];
+  logRank: LogRankResult | null;
+} {
+  const nonEmpty = groups.filter(g => g.observations.length > 0);
+  return {
+    groups: nonEmpty.map(g => {
+      const curve = kaplanMeier(g.observations);
+      return {
+        label: g.label,
+        n: g.observations.length,
+        events: g.observations.filter(o => o.event).length,
+        curve,
+        median: medianSurvival(curve)
+      };
+    }),
+    logRank: logRankTest(nonEmpty.map(g => g.observations))
+  };
+}
+
+/**
+ * Kaplan–Meier estimate of the censoring distribution G(t), used for IPCW weights
+ */
+export function censoringDistribution(observations: SurvivalObservation[]): KaplanMeierStep[] {
+  return kaplanMeier(observations.map(o => ({ time: o.time, event: !o.event })));
+}
+
+/**
+ * Weighted concordance in O(n log n). A pair (i, j) is comparable when i has an
+ * event before j's time; it is concordant when i also has the higher risk.
+ * Risk ties count one half.
+ */
+function weightedConcordance(
+  data: ScoredObservation[],
+  weight: (obs: ScoredObservation) => number
+): number {
+  const ranks = Array.from(new Set(data.map(d => d.riskScore))).sort((a, b) => a - b);
+  const rankOf = new Map(ranks.map((r, idx) => [r, idx + 1]));
+  const tree = new Float64Array(ranks.length + 1);
+  const add = (rank: number) => {
+    for (let k = rank; k < tree.length; k += k & -k) tree[k] += 1;
+  };
+  const countUpTo = (rank: number) => {
+    let total = 0;
+    for (let k = rank; k > 0; k -= k & -k) total += tree[k];
+    return total;
+  };
+
+  const byTimeDesc = [...data].sort((a, b) => b.time - a.time);
+  let inserted = 0;
+  let numerator = 0;
+  let denominator = 0;
+  let i = 0;
+
+  while (i < byTimeDesc.length) {
+    let end = i;
+    while (end < byTimeDesc.length && byTimeDesc[end].time === byTimeDesc[i].time) end++;
+
+    // Everyone inserted so far has a strictly later time than this group
+    for (let k = i; k < end; k++) {
+      const obs = byTimeDesc[k];
+      if (!obs.event || inserted === 0) continue;
+      const w = weight(obs);
+      if (w <= 0) continue;
+      const rank = rankOf.get(obs.riskScore)!;
+      const lower = countUpTo(rank - 1);
+      const ties = countUpTo(rank) - lower;
+      numerator += w * (lower + 0.5 * ties);
+      denominator += w * inserted;
+    }
+    for (let k = i; k < end; k++) {
+      add(rankOf.get(byTimeDesc[k].riskScore)!);
+      inserted++;
+    }
+    i = end;
+  }
+
+  return denominator > 0 ? numerator / denominator : NaN;
+}
+
+/**
+ * Harrell's concordance index
+ */
+export function harrellC(data: ScoredObservation[]): number {
+  return weightedConcordance(data, () => 1);
+}
+
+/**
+ * Uno's IPCW concordance index, truncated at tau (defaults to the largest time
+ * at which the censoring distribution is still positive)
+ */
+export function unoC(data: ScoredObservation[], tau?: number): number {
+  const censoring = censoringDistribution(data);
+  return weightedConcordance(data, obs => {
+    if (tau !== undefined && obs.time >= tau) return 0;
+    const g = survivalBefore(censoring, obs.time);
+    return g > 0 ? 1 / (g * g) : 0;
+  });
+}
+
+/**
+ * Deterministic PRNG so bootstrap intervals do not change between renders
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval for a statistic of resampled data
+ */
+export function bootstrapCI<T>(
+  data: T[],
+  statistic: (sample: T[]) => number,
+  options: { replicates?: number; level?: number; seed?: number } = {}
+): Estimate {
+  const { replicates = 200, level = 0.95, seed = 20240601 } = options;
+  const estimate = statistic(data);
+  const random = mulberry32(seed);
+  const values: number[] = [];
+
+  for (let b = 0; b < replicates; b++) {
+    const sample = data.map(() => data[Math.floor(random() * data.length)]);
+    const value = statistic(sample);
+    if (Number.isFinite(value)) values.push(value);
+  }
+  values.sort((a, b) => a - b);
+
+  const alpha = (1 - level) / 2;
+  return { estimate, lower: quantile(values, alpha), upper: quantile(values, 1 - alpha) };
+}
+
+/**
+ * Harrell's and Uno's C-index with bootstrap confidence intervals
+ */
+export function summarizeConcordance(data: ScoredObservation[], replicates: number = 200): ConcordanceSummary {
+  return {
+    harrell: bootstrapCI(data, harrellC, { replicates }),
+    uno: bootstrapCI(data, sample => unoC(sample), { replicates }),
+    n: data.length,
+    events: data.filter(d => d.event).length
+  };
+}
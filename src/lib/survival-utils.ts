@@ -1,4 +1,6 @@
-import * as XLSX from 'xlsx';
+import { parseDelimited, type ParsedTable } from '@/lib/csv-parser';
+import { readWorkbook, inspectWorkbook, defaultSheetOptions, sheetToTable } from '@/lib/workbook';
+import type { RiskGroupScheme } from '@/lib/risk-groups';
 
 // Roman numeral mapping for cancer stages
 const ROMAN_MAP: Record<string, number> = {
@@ -31,101 +33,52 @@ export function parseStageOrdinal(stageVal: any): number {
 }
 
 /**
- * Read uploaded file (CSV or Excel) and return parsed data
+ * Whether the file is an Excel workbook
  */
-export async function readUploadedFile(file: File): Promise<Record<string, any>[]> {
+export function isSpreadsheetFile(file: File): boolean {
   const name = file.name.toLowerCase();
-  
-  if (name.endsWith('.csv')) {
-    const text = await file.text();
-    return parseCSV(text);
-  }
-  
-  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
-    const buffer = await file.arrayBuffer();
-    const workbook = XLSX.read(buffer, { type: 'array' });
-    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-    return XLSX.utils.sheet_to_json(firstSheet);
-  }
-  
-  throw new Error('Unsupported file type. Please upload .csv or .xlsx');
+  return name.endsWith('.xlsx') || name.endsWith('.xls');
 }
 
 /**
- * Parse CSV string to array of objects
+ * Read uploaded file (CSV, TSV or Excel) and return the parsed table.
+ * Workbooks are read from the first sheet with data, using the detected header row.
  */
-function parseCSV(text: string): Record<string, any>[] {
-  const lines = text.trim().split('\n');
-  if (lines.length === 0) return [];
-  
-  const headers = parseCSVLine(lines[0]);
-  const data: Record<string, any>[] = [];
+export async function readUploadedFile(file: File): Promise<ParsedTable> {
+  const name = file.name.toLowerCase();
   
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    const row: Record<string, any> = {};
-    
-    headers.forEach((header, idx) => {
-      const value = values[idx]?.trim();
-      
-      if (value === '' || value === 'NA' || value === 'NaN' || value === undefined) {
-        row[header] = null;
-      } else if (!isNaN(Number(value))) {
-        row[header] = Number(value);
-      } else {
-        row[header] = value;
-      }
-    });
-    
-    data.push(row);
+  if (name.endsWith('.csv') || name.endsWith('.tsv') || name.endsWith('.txt')) {
+    const text = await file.text();
+    return parseDelimited(text, name.endsWith('.tsv') ? { delimiter: '\t' } : {});
   }
   
-  return data;
-}
-
-/**
- * Parse a single CSV line, handling quoted values
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+  if (isSpreadsheetFile(file)) {
+    const workbook = readWorkbook(await file.arrayBuffer());
+    const options = defaultSheetOptions(inspectWorkbook(workbook));
+    if (!options) throw new Error('Workbook contains no sheets');
+    return sheetToTable(workbook, options);
   }
   
-  result.push(current.trim());
-  return result;
+  throw new Error('Unsupported file type. Please upload .csv, .tsv or .xlsx');
 }
 
 /**
- * Classify risk based on score and reference quantiles
+ * Classify risk based on score and a risk group scheme
  */
 export function classifyRisk(
   score: number,
-  riskRef: { q33?: number; q66?: number } | null
-): { group: 'Low' | 'Intermediate' | 'High' | null; threshold: number | null } {
-  if (!riskRef || riskRef.q33 === undefined || riskRef.q66 === undefined) {
+  scheme: RiskGroupScheme | null
+): { group: string | null; threshold: number | null } {
+  if (!scheme || scheme.thresholds.length === 0) {
     return { group: null, threshold: null };
   }
   
-  if (score <= riskRef.q33) {
-    return { group: 'Low', threshold: riskRef.q33 };
-  }
-  if (score <= riskRef.q66) {
-    return { group: 'Intermediate', threshold: riskRef.q66 };
+  const { thresholds, labels } = scheme;
+  const idx = thresholds.findIndex(t => score <= t);
+  if (idx >= 0) {
+    return { group: labels[idx], threshold: thresholds[idx] };
   }
-  return { group: 'High', threshold: riskRef.q66 };
+  return { group: labels[labels.length - 1], threshold: thresholds[thresholds.length - 1] };
 }
 
 /**
@@ -141,26 +94,6 @@ export function detectIdColumn(columns: string[]): string | null {
   return null;
 }
 
-/**
- * Generate mock survival data for demonstration
- * In production, this would be replaced with actual model predictions
- */
-export function generateMockSurvivalData(
-  patientId: string,
-  riskScore: number,
-  maxDays: number = 3650
-): { time: number; probability: number }[] {
-  const data: { time: number; probability: number }[] = [];
-  const lambda = 0.0001 + riskScore * 0.0002; // Higher risk = faster decay
-  
-  for (let t = 0; t <= maxDays; t += 30) {
-    const probability = Math.exp(-lambda * t);
-    data.push({ time: t, probability: Math.max(0, probability) });
-  }
-  
-  return data;
-}
-
 /**
  * Calculate survival probability at specific timepoint
  */
@@ -215,7 +148,13 @@ export function exportToCSV(data: Record<string, any>[], filename: string): void
     )
   ].join('\n');
   
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), filename);
+}
+
+/**
+ * Save a generated file through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const link = document.createElement('a');
   link.href = URL.createObjectURL(blob);
   link.download = filename;
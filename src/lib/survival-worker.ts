@@ -0,0 +1,247 @@
+import type { ModelBundle } from '@/lib/model-bundle';
+import type { ParsedTable } from '@/lib/csv-parser';
+import type { SheetOptions, SheetPreview } from '@/lib/workbook';
+import type { PatientResult, PredictionSettings } from '@/lib/prediction';
+import type { ObservedOutcome } from '@/lib/outcomes';
+import type { DependenceCurve, DependenceOptions, ImportanceResult } from '@/lib/inspection';
+import type { PatientReportInput, ReportContext } from '@/lib/clinical-report';
+import type { ConcordanceSummary, ScoredObservation } from '@/lib/survival-metrics';
+import type { DriftReport } from '@/lib/drift';
+import type { EvaluationSample, EvaluationSummary } from '@/lib/evaluation';
+import type { ColumnMapping } from '@/lib/schema-mapping';
+
+/** Number of patients evaluated between progress updates */
+export const PREDICTION_CHUNK_SIZE = 250;
+
+export type WorkerRequest =
+  | { type: 'parseFile'; id: number; file: File }
+  | { type: 'readSheet'; id: number; options: SheetOptions }
+  | { type: 'setModel'; id: number; bundle: ModelBundle | null }
+  | { type: 'predict'; id: number; rows: Record<string, unknown>[]; settings: PredictionSettings }
+  | {
+      type: 'importance';
+      id: number;
+      rows: Record<string, unknown>[];
+      settings: PredictionSettings;
+      /** Observed outcome per row, null where unknown */
+      outcomes: (ObservedOutcome | null)[];
+      repeats: number;
+      seed: number;
+    }
+  | {
+      type: 'dependence';
+      id: number;
+      rows: Record<string, unknown>[];
+      settings: PredictionSettings;
+      feature: string;
+      options: DependenceOptions;
+    }
+  | { type: 'report'; id: number; patients: PatientReportInput[]; context: ReportContext }
+  | { type: 'concordance'; id: number; data: ScoredObservation[] }
+  | { type: 'evaluation'; id: number; samples: EvaluationSample[]; timepoints: number[]; binCounts: number[] }
+  | { type: 'drift'; id: number; rows: Record<string, unknown>[]; mapping: ColumnMapping | null; rawPtpm: boolean }
+  | { type: 'cancel'; id: number };
+
+export type ParseFileResult =
+  | { kind: 'table'; table: ParsedTable }
+  | { kind: 'workbook'; sheets: SheetPreview[] };
+
+export type WorkerResponse =
+  | { type: 'parsed'; id: number; result: ParseFileResult }
+  | { type: 'sheet'; id: number; table: ParsedTable }
+  | { type: 'modelSet'; id: number }
+  | { type: 'chunk'; id: number; results: PatientResult[]; done: number; total: number }
+  | { type: 'complete'; id: number }
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'importance'; id: number; result: ImportanceResult }
+  | { type: 'dependence'; id: number; result: DependenceCurve }
+  | { type: 'report'; id: number; pdfs: Uint8Array[] }
+  | { type: 'concordance'; id: number; result: ConcordanceSummary }
+  | { type: 'evaluation'; id: number; result: EvaluationSummary }
+  | { type: 'drift'; id: number; result: DriftReport | null }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export interface WorkerJob<T> {
+  /** Resolves once the job completes; rejects with CancelledError on cancel */
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type PredictionJob = WorkerJob<PatientResult[]>;
+
+/**
+ * Raised when a running worker job is cancelled by the user
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export interface SurvivalWorkerClient {
+  parseFile: (file: File) => Promise<ParseFileResult>;
+  readSheet: (options: SheetOptions) => Promise<ParsedTable>;
+  setModel: (bundle: ModelBundle | null) => Promise<void>;
+  predict: (
+    rows: Record<string, unknown>[],
+    settings: PredictionSettings,
+    onChunk: (results: PatientResult[], done: number, total: number) => void
+  ) => PredictionJob;
+  /** Permutation importance of every model feature on the given cohort */
+  importance: (
+    rows: Record<string, unknown>[],
+    settings: PredictionSettings,
+    outcomes: (ObservedOutcome | null)[],
+    options: { repeats: number; seed: number },
+    onProgress: (done: number, total: number) => void
+  ) => WorkerJob<ImportanceResult>;
+  dependence: (
+    rows: Record<string, unknown>[],
+    settings: PredictionSettings,
+    feature: string,
+    options: DependenceOptions
+  ) => WorkerJob<DependenceCurve>;
+  /** One single-page PDF per patient, in the order given */
+  report: (
+    patients: PatientReportInput[],
+    context: ReportContext,
+    onProgress: (done: number, total: number) => void
+  ) => WorkerJob<Uint8Array[]>;
+  /** Harrell's and Uno's C with bootstrap intervals */
+  concordance: (data: ScoredObservation[]) => WorkerJob<ConcordanceSummary>;
+  /** Time-dependent AUC, Brier scores and calibration at the given times (days) */
+  evaluation: (samples: EvaluationSample[], timepoints: number[], binCounts: number[]) => WorkerJob<EvaluationSummary>;
+  /** Cohort compared with the model's training summary; null when the bundle has none */
+  drift: (rows: Record<string, unknown>[], mapping: ColumnMapping | null, rawPtpm: boolean) => WorkerJob<DriftReport | null>;
+  terminate: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onUpdate?: (response: Extract<WorkerResponse, { type: 'chunk' | 'progress' }>) => void;
+}
+
+/**
+ * Start the parsing/prediction worker and wrap its message protocol in promises
+ */
+export function createSurvivalWorker(): SurvivalWorkerClient {
+  const worker = new Worker(new URL('../workers/survival.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'chunk' || response.type === 'progress') {
+      request.onUpdate?.(response);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else if (response.type === 'cancelled') {
+      request.reject(new CancelledError());
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    const error = new Error(event.message || 'Worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  const send = (
+    request: WorkerRequest,
+    onUpdate?: PendingRequest['onUpdate']
+  ): Promise<WorkerResponse> =>
+    new Promise((resolve, reject) => {
+      pending.set(request.id, { resolve, reject, onUpdate });
+      worker.postMessage(request);
+    });
+
+  const cancel = (id: number) => () => worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+
+  return {
+    parseFile: async file => {
+      const response = await send({ type: 'parseFile', id: nextId++, file });
+      return (response as Extract<WorkerResponse, { type: 'parsed' }>).result;
+    },
+
+    readSheet: async options => {
+      const response = await send({ type: 'readSheet', id: nextId++, options });
+      return (response as Extract<WorkerResponse, { type: 'sheet' }>).table;
+    },
+
+    setModel: async bundle => {
+      await send({ type: 'setModel', id: nextId++, bundle });
+    },
+
+    predict: (rows, settings, onChunk) => {
+      const id = nextId++;
+      const results: PatientResult[] = [];
+      const promise = send({ type: 'predict', id, rows, settings }, response => {
+        if (response.type !== 'chunk') return;
+        results.push(...response.results);
+        onChunk(response.results, response.done, response.total);
+      }).then(() => results);
+      return { promise, cancel: cancel(id) };
+    },
+
+    importance: (rows, settings, outcomes, { repeats, seed }, onProgress) => {
+      const id = nextId++;
+      const promise = send({ type: 'importance', id, rows, settings, outcomes, repeats, seed }, response => {
+        onProgress(response.done, response.total);
+      }).then(response => (response as Extract<WorkerResponse, { type: 'importance' }>).result);
+      return { promise, cancel: cancel(id) };
+    },
+
+    dependence: (rows, settings, feature, options) => {
+      const id = nextId++;
+      const promise = send({ type: 'dependence', id, rows, settings, feature, options })
+        .then(response => (response as Extract<WorkerResponse, { type: 'dependence' }>).result);
+      return { promise, cancel: cancel(id) };
+    },
+
+    report: (patients, context, onProgress) => {
+      const id = nextId++;
+      const promise = send({ type: 'report', id, patients, context }, response => {
+        onProgress(response.done, response.total);
+      }).then(response => (response as Extract<WorkerResponse, { type: 'report' }>).pdfs);
+      return { promise, cancel: cancel(id) };
+    },
+
+    concordance: data => {
+      const id = nextId++;
+      const promise = send({ type: 'concordance', id, data })
+        .then(response => (response as Extract<WorkerResponse, { type: 'concordance' }>).result);
+      return { promise, cancel: cancel(id) };
+    },
+
+    evaluation: (samples, timepoints, binCounts) => {
+      const id = nextId++;
+      const promise = send({ type: 'evaluation', id, samples, timepoints, binCounts })
+        .then(response => (response as Extract<WorkerResponse, { type: 'evaluation' }>).result);
+      return { promise, cancel: cancel(id) };
+    },
+
+    drift: (rows, mapping, rawPtpm) => {
+      const id = nextId++;
+      const promise = send({ type: 'drift', id, rows, mapping, rawPtpm })
+        .then(response => (response as Extract<WorkerResponse, { type: 'drift' }>).result);
+      return { promise, cancel: cancel(id) };
+    },
+
+    terminate: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new CancelledError()));
+      pending.clear();
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import type { FeatureSpec, ModelBundle } from '@/lib/model-bundle';
+import { isColumnEdit, type DataEdit } from '@/lib/data-history';
+import { featureColumn, isPtpmFeature } from '@/lib/preprocessing';
+import { normalizeColumnName, type ColumnMapping } from '@/lib/schema-mapping';
+
+/**
+ * Checks of patient data cells against the model's feature schema.
+ *
+ * Errors are values the model cannot use as intended (not a number, outside
+ * the valid range, unknown category); warnings are valid values outside the
+ * range seen in training. Missing values are not issues: they are imputed.
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface CellProblem {
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface CellIssue extends CellProblem {
+  row: number;
+  column: string;
+  feature: string;
+}
+
+export interface ValidationReport {
+  issues: CellIssue[];
+  errorCount: number;
+  warningCount: number;
+  /** Data column to the feature it provides and that feature's spec */
+  columns: Map<string, { feature: string; spec: FeatureSpec }>;
+  /** Issues keyed by `cellKey(row, column)` */
+  cells: Map<string, CellIssue>;
+}
+
+/** Plausible range of patient age in years */
+const AGE_RANGE = { min: 0, max: 120 };
+
+export const cellKey = (row: number, column: string) => `${row}\u001f${column}`;
+
+const isAgeFeature = (feature: string) => ['AGE', 'AGEYEARS', 'AGEATDIAGNOSIS'].includes(normalizeColumnName(feature));
+
+/**
+ * Spec of a feature: the bundle's entry when there is one, otherwise
+ * numeric with non-negative pTPM values and a plausible age. With raw pTPM
+ * input off, protein values are already transformed and only need to be numbers.
+ */
+export function featureSpec(bundle: ModelBundle, feature: string, rawPtpm: boolean): FeatureSpec {
+  const declared = bundle.featureSchema?.[feature];
+  if (isPtpmFeature(feature) && !rawPtpm) return { type: declared?.type ?? 'numeric' };
+  if (declared) return declared;
+  if (isPtpmFeature(feature)) return { type: 'numeric', min: 0 };
+  if (isAgeFeature(feature)) return { type: 'numeric', ...AGE_RANGE };
+  return { type: 'numeric' };
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toPrecision(4));
+
+/**
+ * Problem with one cell value, or null when it is valid or missing
+ */
+export function validateValue(value: unknown, spec: FeatureSpec): CellProblem | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (spec.type === 'categorical') {
+    const text = String(value).trim().toLowerCase();
+    if (spec.levels && !spec.levels.some(level => String(level).toLowerCase() === text)) {
+      return { severity: 'error', message: `Not an allowed level (${spec.levels.join(', ')})` };
+    }
+    return null;
+  }
+
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(num)) return { severity: 'error', message: 'Not a number' };
+  if (spec.min !== undefined && num < spec.min) {
+    return { severity: 'error', message: `Below the minimum of ${formatNumber(spec.min)}` };
+  }
+  if (spec.max !== undefined && num > spec.max) {
+    return { severity: 'error', message: `Above the maximum of ${formatNumber(spec.max)}` };
+  }
+  if ((spec.trainMin !== undefined && num < spec.trainMin) || (spec.trainMax !== undefined && num > spec.trainMax)) {
+    const range = `${spec.trainMin !== undefined ? formatNumber(spec.trainMin) : '−∞'}–${spec.trainMax !== undefined ? formatNumber(spec.trainMax) : '∞'}`;
+    return { severity: 'warning', message: `Outside the training range ${range}` };
+  }
+  return null;
+}
+
+/**
+ * Validate every cell that feeds a model feature
+ */
+export function validateTable(
+  rows: Record<string, unknown>[],
+  bundle: ModelBundle,
+  mapping: ColumnMapping | null,
+  rawPtpm: boolean
+): ValidationReport {
+  const columns = new Map<string, { feature: string; spec: FeatureSpec }>();
+  for (const feature of bundle.features) {
+    const column = featureColumn(feature, mapping);
+    if (column !== null) columns.set(column, { feature, spec: featureSpec(bundle, feature, rawPtpm) });
+  }
+
+  const issues: CellIssue[] = [];
+  rows.forEach((row, index) => {
+    columns.forEach(({ feature, spec }, column) => {
+      const problem = validateValue(row[column], spec);
+      if (problem) issues.push({ ...problem, row: index, column, feature });
+    });
+  });
+
+  return summarize(issues, columns);
+}
+
+function summarize(issues: CellIssue[], columns: ValidationReport['columns']): ValidationReport {
+  const cells = new Map(issues.map(issue => [cellKey(issue.row, issue.column), issue]));
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  return { issues, errorCount, warningCount: issues.length - errorCount, columns, cells };
+}
+
+/**
+ * Update a report after edits to the validated rows, checking only the cells
+ * the edits touched and moving issues along with inserted or deleted rows.
+ * `rows` is the table after the edits. Returns null when an edit changes the
+ * columns, which needs a full `validateTable` pass.
+ */
+export function revalidateEdits(
+  report: ValidationReport,
+  rows: Record<string, unknown>[],
+  edits: DataEdit[]
+): ValidationReport | null {
+  if (edits.some(isColumnEdit)) return null;
+  if (edits.length === 0) return report;
+
+  let issues = report.issues;
+  let touched = new Map<number, Set<string>>();
+  const touch = (row: number, column: string) => {
+    if (!report.columns.has(column)) return;
+    const columns = touched.get(row);
+    if (columns) columns.add(column);
+    else touched.set(row, new Set([column]));
+  };
+  const shiftTouched = (from: number, by: 1 | -1) => {
+    const shifted = new Map<number, Set<string>>();
+    touched.forEach((columns, row) => {
+      if (row < from) shifted.set(row, columns);
+      else if (by === 1) shifted.set(row + 1, columns);
+      else if (row > from) shifted.set(row - 1, columns);
+    });
+    touched = shifted;
+  };
+
+  for (const edit of edits) {
+    if (edit.type === 'cell') {
+      touch(edit.row, edit.column);
+    } else if (edit.type === 'insertRow') {
+      issues = issues.map(issue => (issue.row >= edit.index ? { ...issue, row: issue.row + 1 } : issue));
+      shiftTouched(edit.index, 1);
+      report.columns.forEach((_, column) => touch(edit.index, column));
+    } else if (edit.type === 'deleteRow') {
+      issues = issues
+        .filter(issue => issue.row !== edit.index)
+        .map(issue => (issue.row > edit.index ? { ...issue, row: issue.row - 1 } : issue));
+      shiftTouched(edit.index, -1);
+    }
+  }
+
+  const next = issues.filter(issue => !touched.get(issue.row)?.has(issue.column));
+  touched.forEach((columns, row) => {
+    columns.forEach(column => {
+      const { feature, spec } = report.columns.get(column)!;
+      const problem = validateValue(rows[row]?.[column], spec);
+      if (problem) next.push({ ...problem, row, column, feature });
+    });
+  });
+  // Same order as a full pass: by row, then by feature
+  const order = new Map([...report.columns.keys()].map((column, i) => [column, i]));
+  next.sort((a, b) => a.row - b.row || order.get(a.column)! - order.get(b.column)!);
+  return summarize(next, report.columns);
+}
+
+/**
+ * Split edits into those to commit and the cell edits whose new value breaks
+ * the feature schema, which are rejected as a single-cell edit would be
+ */
+export function rejectInvalidEdits(
+  report: ValidationReport | null,
+  edits: DataEdit[]
+): { accepted: DataEdit[]; rejected: CellIssue[] } {
+  const accepted: DataEdit[] = [];
+  const rejected: CellIssue[] = [];
+  for (const edit of edits) {
+    if (edit.type === 'cell') {
+      const target = report?.columns.get(edit.column);
+      const problem = target ? validateValue(edit.after, target.spec) : null;
+      if (target && problem?.severity === 'error') {
+        rejected.push({ ...problem, row: edit.row, column: edit.column, feature: target.feature });
+        continue;
+      }
+    }
+    accepted.push(edit);
+  }
+  return { accepted, rejected };
+}
@@ -0,0 +1,73 @@
+import type { ModelBundle } from '@/lib/model-bundle';
+import { featureColumn } from '@/lib/preprocessing';
+import type { PredictionSettings } from '@/lib/prediction';
+import { featureSpec } from '@/lib/validation';
+
+/**
+ * Input control of one feature in the what-if panel
+ */
+export interface WhatIfControl {
+  feature: string;
+  /** Data column the control edits; null when the feature is not mapped */
+  column: string | null;
+  /** Allowed values of a categorical feature, offered as a choice instead of a slider */
+  levels: (string | number)[] | null;
+  /** Slider range: the cohort's observed values, widened when they are all equal */
+  min: number;
+  max: number;
+  /** 1 when every observed value is a whole number (stages, counts), otherwise a hundredth of the range */
+  step: number;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Control for each model feature, from the bundle's schema and the values in the cohort
+ */
+export function whatIfControls(
+  bundle: ModelBundle,
+  cohort: Record<string, unknown>[],
+  settings: PredictionSettings
+): WhatIfControl[] {
+  return bundle.features.map(feature => {
+    const column = featureColumn(feature, settings.mapping);
+    const spec = featureSpec(bundle, feature, settings.rawPtpm);
+    const levels = spec.type === 'categorical' && spec.levels ? spec.levels : null;
+
+    let min = Infinity;
+    let max = -Infinity;
+    let integral = true;
+    if (column) {
+      for (const row of cohort) {
+        const value = toNumber(row[column]);
+        if (value === null) continue;
+        if (value < min) min = value;
+        if (value > max) max = value;
+        if (!Number.isInteger(value)) integral = false;
+      }
+    }
+    if (min > max) {
+      min = 0;
+      max = 1;
+      integral = false;
+    }
+    if (min === max) {
+      min -= Math.abs(min) || 1;
+      max += Math.abs(max) || 1;
+    }
+    return { feature, column, levels, min, max, step: integral ? 1 : (max - min) / 100 };
+  });
+}
+
+/**
+ * Level of a categorical control matching a cell value, compared as the validator does
+ */
+export function matchLevel(levels: (string | number)[], value: unknown): string | number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value).trim().toLowerCase();
+  return levels.find(level => String(level).toLowerCase() === text) ?? null;
+}
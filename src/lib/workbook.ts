@@ -0,0 +1,237 @@
+import * as XLSX from 'xlsx';
+import {
+  isIdColumnName,
+  isMissing,
+  uniqueHeaders,
+  type CellValue,
+  type ColumnType,
+  type ParseError,
+  type ParsedTable
+} from '@/lib/csv-parser';
+
+const PREVIEW_ROWS = 15;
+const HEADER_SEARCH_ROWS = 20;
+const FOOTER_SEARCH_ROWS = 10;
+const FOOTER_PATTERN = /^(total|sum|mean|average|median|overall|summary|count|n\s*=|note|source)\b/i;
+
+export interface SheetPreview {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  /** First rows of the sheet, as displayed values */
+  preview: CellValue[][];
+  /** Detected header row, 0-based */
+  headerRow: number;
+  /** Detected number of summary/footer rows at the bottom */
+  footerRows: number;
+}
+
+export interface SheetOptions {
+  sheet: string;
+  headerRow: number;
+  footerRows: number;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Convert a raw SheetJS value to a cell value. Dates become ISO strings.
+ */
+function toCellValue(value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+    return hasTime ? `${date}T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}` : date;
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const text = String(value).trim();
+  return isMissing(text) ? null : text;
+}
+
+/**
+ * Copy the top-left value of every merged range into all of its cells,
+ * so merged headers and grouped IDs apply to each row and column they span.
+ */
+function fillMergedCells(sheet: XLSX.WorkSheet): void {
+  for (const merge of sheet['!merges'] ?? []) {
+    const source = sheet[XLSX.utils.encode_cell(merge.s)];
+    if (!source) continue;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r === merge.s.r && c === merge.s.c) continue;
+        sheet[XLSX.utils.encode_cell({ r, c })] = { ...source };
+      }
+    }
+  }
+}
+
+function readRows(sheet: XLSX.WorkSheet, startRow?: number, endRow?: number): CellValue[][] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const first = range.s.r;
+  if (startRow !== undefined) range.s.r = first + startRow;
+  if (endRow !== undefined) range.e.r = Math.min(range.e.r, first + endRow);
+  if (range.s.r > range.e.r) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    range,
+    defval: null,
+    blankrows: true,
+    raw: true
+  });
+  return rows.map(row => row.map(toCellValue));
+}
+
+function filledCount(row: CellValue[]): number {
+  return row.filter(v => v !== null).length;
+}
+
+/**
+ * The header is the first row that is mostly filled with distinct text labels;
+ * title rows above it usually have a single filled cell.
+ */
+export function detectHeaderRow(rows: CellValue[][]): number {
+  const width = rows.reduce((max, row) => Math.max(max, filledCount(row)), 0);
+  for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+    const filled = rows[r].filter((v): v is string | number => v !== null);
+    if (filled.length < Math.max(2, width * 0.5)) continue;
+    const labels = filled.filter(v => typeof v === 'string');
+    if (labels.length === filled.length && new Set(labels).size === labels.length) {
+      return r;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Count trailing summary rows (totals, means, notes) below the data
+ */
+export function detectFooterRows(rows: CellValue[][], width: number): number {
+  let footer = 0;
+  for (let r = rows.length - 1; r >= 0 && footer < FOOTER_SEARCH_ROWS; r--) {
+    const filled = rows[r].filter(v => v !== null);
+    if (filled.length === 0) {
+      footer++;
+      continue;
+    }
+    const first = filled[0];
+    const isSummary = typeof first === 'string' && FOOTER_PATTERN.test(first);
+    const isSparse = filled.length < width * 0.5 && typeof first === 'string' && first.length > 20;
+    if (!isSummary && !isSparse) break;
+    footer++;
+  }
+  return footer;
+}
+
+/**
+ * Parse a workbook buffer, with date cells typed as dates and merged ranges filled in
+ */
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  workbook.SheetNames.forEach(name => fillMergedCells(workbook.Sheets[name]));
+  return workbook;
+}
+
+/**
+ * Summarise every sheet with a preview and detected header/footer rows
+ */
+export function inspectWorkbook(workbook: XLSX.WorkBook): SheetPreview[] {
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet['!ref']) {
+      return { name, rowCount: 0, columnCount: 0, preview: [], headerRow: 0, footerRows: 0 };
+    }
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const rowCount = range.e.r - range.s.r + 1;
+    const columnCount = range.e.c - range.s.c + 1;
+    const head = readRows(sheet, 0, HEADER_SEARCH_ROWS - 1);
+    const headerRow = detectHeaderRow(head);
+    const tailStart = Math.max(headerRow + 1, rowCount - FOOTER_SEARCH_ROWS);
+    const tail = readRows(sheet, tailStart);
+    const width = filledCount(head[headerRow] ?? []);
+    return {
+      name,
+      rowCount,
+      columnCount,
+      preview: head.slice(0, PREVIEW_ROWS),
+      headerRow,
+      footerRows: detectFooterRows(tail, width)
+    };
+  });
+}
+
+/**
+ * Default options: the first sheet with data, using its detected header and footer rows
+ */
+export function defaultSheetOptions(previews: SheetPreview[]): SheetOptions | null {
+  const sheet = previews.find(p => p.rowCount > 1) ?? previews[0];
+  if (!sheet) return null;
+  return { sheet: sheet.name, headerRow: sheet.headerRow, footerRows: sheet.footerRows };
+}
+
+/**
+ * Whether the defaults are ambiguous enough that the user should confirm them
+ */
+export function needsSheetSelection(previews: SheetPreview[]): boolean {
+  const withData = previews.filter(p => p.rowCount > 1);
+  if (withData.length > 1) return true;
+  const sheet = withData[0];
+  return !!sheet && (sheet.headerRow > 0 || sheet.footerRows > 0 || sheet !== previews[0]);
+}
+
+/**
+ * Read the selected sheet into a table, starting at the header row and
+ * dropping footer rows.
+ */
+export function sheetToTable(workbook: XLSX.WorkBook, options: SheetOptions): ParsedTable {
+  const sheet = workbook.Sheets[options.sheet];
+  if (!sheet) {
+    throw new Error(`Sheet "${options.sheet}" not found in workbook`);
+  }
+
+  const rows = readRows(sheet, options.headerRow);
+  const errors: ParseError[] = [];
+  if (rows.length === 0) {
+    return { columns: [], rows: [], columnTypes: {}, errors };
+  }
+
+  const firstLine = options.headerRow + 1;
+  const rawHeaders = rows[0].map(v => (v === null ? '' : String(v)));
+  // Trailing unnamed, empty columns are formatting artefacts
+  while (rawHeaders.length > 0 && rawHeaders[rawHeaders.length - 1] === '' &&
+    rows.every(row => row[rawHeaders.length - 1] === null)) {
+    rawHeaders.pop();
+  }
+  const columns = uniqueHeaders(rawHeaders, errors, firstLine);
+
+  const body = rows.slice(1, Math.max(1, rows.length - options.footerRows));
+  const dataRows = body.filter(values => filledCount(values) > 0);
+
+  const columnTypes: Record<string, ColumnType> = {};
+  columns.forEach((col, c) => {
+    const present = dataRows.map(values => values[c]).filter(v => v !== null && v !== undefined);
+    if (present.length === 0) {
+      columnTypes[col] = 'empty';
+    } else if (!isIdColumnName(col) && present.every(v => typeof v === 'number')) {
+      columnTypes[col] = 'number';
+    } else {
+      columnTypes[col] = 'string';
+    }
+  });
+
+  const table = dataRows.map(values => {
+    const row: Record<string, CellValue> = {};
+    columns.forEach((col, c) => {
+      const value = values[c] ?? null;
+      row[col] = value === null || columnTypes[col] === 'number' ? value : String(value);
+    });
+    return row;
+  });
+
+  return { columns, rows: table, columnTypes, errors };
+}
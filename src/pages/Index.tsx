@@ -1,6 +1,6 @@
-import { useState, useMemo, useCallback, lazy, Suspense } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef, lazy, Suspense } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileUploader, MetricCard, SurvivalChart, DataTable, PatientDataEditor } from '@/components/survival';
+import { FileUploader, MetricCard, SurvivalChart, DataTable, PatientDataEditor, PreprocessingPreview, ColumnMappingDialog, ParseErrorList, SheetPickerDialog, EvaluationPanel, CalibrationPlot, RiskGroupDialog, AttributionWaterfall, WhatIfPanel, ModelInspectionPanel, DriftReportPanel, SessionsDialog, ValidationSummaryDialog } from '@/components/survival';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
@@ -9,163 +9,471 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
-import { Activity, Users, TrendingUp, TrendingDown, Download, Play, ChevronDown, Settings, Info, Dna, BarChart3, FileText } from 'lucide-react';
-import { readUploadedFile, detectIdColumn, generateMockSurvivalData, getSurvivalAtTime, classifyRisk, exportToCSV } from '@/lib/survival-utils';
+import { Progress } from '@/components/ui/progress';
+import { Activity, Users, TrendingUp, TrendingDown, Download, Play, ChevronDown, Settings, Info, Dna, BarChart3, FileText, Columns3, FileSpreadsheet, X, Target, Layers, FolderOpen } from 'lucide-react';
+import { classifyRisk, detectIdColumn, downloadBlob, exportToCSV } from '@/lib/survival-utils';
+import { referenceScheme, riskGroupColor, riskGroupTone, type RiskGroupScheme } from '@/lib/risk-groups';
+import { loadModelBundle, type ModelBundle } from '@/lib/model-bundle';
+import { MAX_IMPUTED_FRACTION, featureColumn } from '@/lib/preprocessing';
+import type { ParseError, ParsedTable } from '@/lib/csv-parser';
+import { defaultSheetOptions, needsSheetSelection, type SheetOptions, type SheetPreview } from '@/lib/workbook';
+import { getPatientId, predictPatient, type PatientResult, type PredictionSettings } from '@/lib/prediction';
+import { createSurvivalWorker, CancelledError, type PredictionJob, type SurvivalWorkerClient, type WorkerJob } from '@/lib/survival-worker';
+import { alignSchema, loadSavedMapping, saveMapping, type ColumnMapping } from '@/lib/schema-mapping';
+import { detectOutcomeColumns, matchOutcomes, readOutcome, type OutcomeColumns } from '@/lib/outcomes';
+import { CALIBRATION_BIN_COUNTS, type EvaluationSummary } from '@/lib/evaluation';
+import { explainPrediction } from '@/lib/attribution';
+import { createSessionId, getLastSessionId, loadSession, saveSession, setLastSessionId, type SessionState, type SessionSummary } from '@/lib/sessions';
+import { compareSurvivalGroups, kaplanMeier, type ConcordanceSummary, type Estimate } from '@/lib/survival-metrics';
+import { useDataHistory } from '@/hooks/use-data-history';
+import { editsBetween, followRow, inverseEdits, isCellEdited, isColumnEdit, rowEdits, type DataEdit, type DataHistory } from '@/lib/data-history';
+import { columnRenames } from '@/lib/column-edits';
+import { revalidateEdits, validateTable, type ValidationReport } from '@/lib/validation';
+import type { DriftReport } from '@/lib/drift';
+import { reportFileName, type PatientReportInput } from '@/lib/clinical-report';
 import { toast } from 'sonner';
 
 // Lazy load 3D scene for performance
 const Scene3D = lazy(() => import('@/components/3d/Scene3D'));
 
-// Mock model bundle structure (in production would come from .joblib file)
-interface ModelBundle {
-  features: string[];
-  riskRef?: {
-    q33: number;
-    q66: number;
-  };
-  featureCount: number;
-}
-interface PatientResult {
-  patientId: string;
-  riskScore: number;
-  riskGroup: 'Low' | 'Intermediate' | 'High' | null;
-  survivalProbabilities: {
-    year: number;
-    probability: number;
-  }[];
-  survivalData: {
-    time: number;
-    probability: number;
-  }[];
+interface WorkbookSource {
+  sheets: SheetPreview[];
+  options: SheetOptions;
 }
 const TIMEPOINT_OPTIONS = [1, 2, 3, 5, 10];
+const NO_COLUMN = '__none__';
+type ChartMode = 'single' | 'all' | 'km';
+type ResultsTab = 'predictions' | 'evaluation' | 'inspection' | 'drift';
+type ActiveSession = Pick<SessionSummary, 'id' | 'name' | 'createdAt'>;
+// Autosave waits for edits to settle before writing to IndexedDB
+const SESSION_SAVE_DELAY = 800;
+/** Quiet period after edits before cohort-wide statistics are recomputed */
+const ANALYSIS_DELAY = 400;
+/** Pause between report downloads; browsers drop downloads started in quick succession */
+const REPORT_DOWNLOAD_INTERVAL = 250;
+const defaultSessionName = (modelFile: File | null, dataFile: File | null) => `${dataFile?.name ?? modelFile?.name ?? 'Untitled'} — ${new Date().toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short'
+})}`;
+const formatEstimate = (value: Estimate) => `95% CI ${value.lower.toFixed(3)}–${value.upper.toFixed(3)}`;
 export default function Index() {
   // File states
   const [modelFile, setModelFile] = useState<File | null>(null);
   const [dataFile, setDataFile] = useState<File | null>(null);
 
   // Data states
-  const [patientData, setPatientData] = useState<Record<string, any>[]>([]);
-  const [columns, setColumns] = useState<string[]>([]);
+  const {
+    history: dataHistory,
+    data: patientData,
+    reset: resetPatientData,
+    commit: commitDataChange,
+    undo: undoDataChange,
+    redo: redoDataChange
+  } = useDataHistory();
+  const columns = dataHistory.current.columns;
   const [idColumn, setIdColumn] = useState<string | null>(null);
+  const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+  const [workbookSource, setWorkbookSource] = useState<WorkbookSource | null>(null);
+  const [sheetDialogOpen, setSheetDialogOpen] = useState(false);
+  const [outcomeColumns, setOutcomeColumns] = useState<OutcomeColumns>({
+    time: null,
+    event: null
+  });
 
   // Model states
   const [modelBundle, setModelBundle] = useState<ModelBundle | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [mappingDialogOpen, setMappingDialogOpen] = useState(false);
+  const [riskScheme, setRiskScheme] = useState<RiskGroupScheme | null>(null);
+  const [riskDialogOpen, setRiskDialogOpen] = useState(false);
+  const [validationDialogOpen, setValidationDialogOpen] = useState(false);
 
   // Prediction states
   const [results, setResults] = useState<PatientResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+
+  // Parsing and forest evaluation run in a Web Worker
+  const workerRef = useRef<SurvivalWorkerClient | null>(null);
+  const jobRef = useRef<PredictionJob | null>(null);
+  const reportJobRef = useRef<WorkerJob<Uint8Array[]> | null>(null);
+  const [reportProgress, setReportProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  useEffect(() => {
+    const worker = createSurvivalWorker();
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
 
   // Settings
   const [rawPtpmInput, setRawPtpmInput] = useState(true);
   const [selectedTimepoints, setSelectedTimepoints] = useState<number[]>([1, 2, 3, 5]);
-  const [selectedPatient, setSelectedPatient] = useState<string | null>(null);
-  const [chartMode, setChartMode] = useState<'single' | 'all'>('single');
+  // Row index of the selected patient; display IDs may repeat
+  const [selectedPatient, setSelectedPatient] = useState<number | null>(null);
+  const [chartMode, setChartMode] = useState<ChartMode>('single');
+  const [whatIfResult, setWhatIfResult] = useState<PatientResult | null>(null);
+  const [resultsTab, setResultsTab] = useState<ResultsTab>('predictions');
 
   // UI states
   const [infoExpanded, setInfoExpanded] = useState(true);
 
+  // Session persistence
+  const [session, setSession] = useState<ActiveSession | null>(null);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  // Autosave starts once the last session had a chance to restore
+  const [sessionReady, setSessionReady] = useState(false);
+  // Columns of a just-restored session, whose saved mapping must not be re-aligned
+  const restoredColumnsRef = useRef<string[] | null>(null);
+  // Set when columns were edited in the editor; the mapping then follows the edit instead of being re-aligned
+  const columnsEditedRef = useRef(false);
+  // State is null right after a session was opened, until its restored state has rendered
+  const lastSavedRef = useRef<{
+    session: ActiveSession;
+    state: SessionState | null;
+  } | null>(null);
+  const saveErrorShownRef = useRef(false);
+
   // Handle model file upload
   const handleModelUpload = useCallback(async (file: File | null) => {
     setModelFile(file);
+    setResults([]);
     if (file) {
-      // In production, this would parse the .joblib file
-      // For demo, we create a mock bundle
-      setModelBundle({
-        features: ['age', 'stage_ordinal', 'tumor_size', 'lymph_nodes', 'EGFR_pTPM', 'TP53_pTPM', 'KRAS_pTPM', 'ALK_pTPM', 'BRCA1_pTPM', 'BRCA2_pTPM', 'MYC_pTPM', 'HER2_pTPM'],
-        riskRef: {
-          q33: 0.35,
-          q66: 0.65
-        },
-        featureCount: 12
-      });
-      toast.success('Model bundle loaded successfully');
+      try {
+        const bundle = await loadModelBundle(file);
+        await workerRef.current?.setModel(bundle);
+        setModelBundle(bundle);
+        setRiskScheme(referenceScheme(bundle.riskRef));
+        toast.success(`Model bundle loaded: ${bundle.trees.length} trees, ${bundle.featureCount} features`);
+      } catch (error) {
+        toast.error(`Failed to load model bundle: ${error instanceof Error ? error.message : error}`);
+        setModelFile(null);
+        setModelBundle(null);
+        setRiskScheme(null);
+      }
     } else {
       setModelBundle(null);
-      setResults([]);
+      setRiskScheme(null);
+      workerRef.current?.setModel(null).catch(error => {
+        toast.error(`Failed to unload the model bundle: ${error instanceof Error ? error.message : error}`);
+      });
     }
   }, []);
 
+  // Replace the patient data with a freshly parsed table
+  const applyTable = useCallback((table: ParsedTable) => {
+    const {
+      rows: data,
+      columns: cols,
+      errors
+    } = table;
+    resetPatientData(data, cols);
+    setIdColumn(detectIdColumn(cols));
+    setOutcomeColumns(detectOutcomeColumns(cols));
+    setParseErrors(errors);
+    setResults([]);
+    toast.success(`Loaded ${data.length} patients with ${cols.length} features`);
+    if (errors.length > 0) {
+      toast.warning(`${errors.length} issue(s) found while reading the file`);
+    }
+  }, [resetPatientData]);
+
   // Handle data file upload
   const handleDataUpload = useCallback(async (file: File | null) => {
     setDataFile(file);
-    if (file) {
+    setWorkbookSource(null);
+    if (file && workerRef.current) {
+      setIsReadingFile(true);
       try {
-        const data = await readUploadedFile(file);
-        const cols = data.length > 0 ? Object.keys(data[0]) : [];
-        setPatientData(data);
-        setColumns(cols);
-        setIdColumn(detectIdColumn(cols));
-        setResults([]);
-        toast.success(`Loaded ${data.length} patients with ${cols.length} features`);
+        const parsed = await workerRef.current.parseFile(file);
+        if (parsed.kind === 'workbook') {
+          const options = defaultSheetOptions(parsed.sheets);
+          if (!options) throw new Error('Workbook contains no sheets');
+          setWorkbookSource({
+            sheets: parsed.sheets,
+            options
+          });
+          if (needsSheetSelection(parsed.sheets)) {
+            setSheetDialogOpen(true);
+            return;
+          }
+          applyTable(await workerRef.current.readSheet(options));
+        } else {
+          applyTable(parsed.table);
+        }
       } catch (error) {
         toast.error(`Failed to read file: ${error}`);
-        setPatientData([]);
-        setColumns([]);
+        resetPatientData([]);
+        setParseErrors([]);
+      } finally {
+        setIsReadingFile(false);
       }
     } else {
-      setPatientData([]);
-      setColumns([]);
+      resetPatientData([]);
       setIdColumn(null);
+      setParseErrors([]);
       setResults([]);
     }
+  }, [applyTable, resetPatientData]);
+
+  // Load the sheet chosen in the sheet picker
+  const handleConfirmSheet = useCallback(async (options: SheetOptions) => {
+    if (!workbookSource || !workerRef.current) return;
+    setIsReadingFile(true);
+    try {
+      applyTable(await workerRef.current.readSheet(options));
+      setWorkbookSource({
+        ...workbookSource,
+        options
+      });
+      setSheetDialogOpen(false);
+    } catch (error) {
+      toast.error(`Failed to read sheet: ${error}`);
+    } finally {
+      setIsReadingFile(false);
+    }
+  }, [workbookSource, applyTable]);
+
+  // Align uploaded columns with the model features whenever either side changes
+  useEffect(() => {
+    const restoredColumns = restoredColumnsRef.current;
+    restoredColumnsRef.current = null;
+    if (restoredColumns === columns) return;
+    if (columnsEditedRef.current) {
+      columnsEditedRef.current = false;
+      // Columns added under a feature's exact name provide that feature
+      setColumnMapping(prev => prev && Object.fromEntries(Object.entries(prev).map(([feature, column]) => [feature, column ?? (columns.includes(feature) ? feature : null)])));
+      return;
+    }
+    if (!modelBundle || columns.length === 0) {
+      setColumnMapping(null);
+      return;
+    }
+    const saved = loadSavedMapping(columns, modelBundle.features);
+    if (saved) {
+      setColumnMapping(saved);
+      toast.info('Applied saved column mapping for these headers');
+      return;
+    }
+    const alignment = alignSchema(columns, modelBundle.features);
+    setColumnMapping(alignment.mapping);
+    if (alignment.matched.length < alignment.required.length) {
+      setMappingDialogOpen(true);
+    }
+  }, [modelBundle, columns]);
+
+  const handleConfirmMapping = useCallback((mapping: ColumnMapping, remember: boolean) => {
+    setColumnMapping(mapping);
+    setMappingDialogOpen(false);
+    setResults([]);
+    if (remember) {
+      saveMapping(columns, mapping);
+    }
+    toast.success('Column mapping updated');
+  }, [columns]);
+
+  // Keep the ID, outcome and mapped columns pointing at renamed columns, and drop deleted ones
+  const followColumnEdits = useCallback((edits: DataEdit[], forward: boolean) => {
+    if (!edits.some(isColumnEdit)) return;
+    columnsEditedRef.current = true;
+    const renames = columnRenames(edits, forward);
+    if (renames.size === 0) return;
+    const follow = (column: string | null) => column !== null && renames.has(column) ? renames.get(column) ?? null : column;
+    setIdColumn(follow);
+    setOutcomeColumns(prev => ({
+      time: follow(prev.time),
+      event: follow(prev.event)
+    }));
+    setColumnMapping(prev => prev && Object.fromEntries(Object.entries(prev).map(([feature, column]) => [feature, follow(column)])));
   }, []);
+  // Results and the selection refer to rows by index, so they move with inserted
+  // and deleted rows; results of deleted rows are dropped
+  const followRowEdits = useCallback((edits: DataEdit[]) => {
+    if (!edits.some(edit => edit.type === 'insertRow' || edit.type === 'deleteRow')) return;
+    setResults(prev => prev.flatMap(result => {
+      const rowIndex = followRow(result.rowIndex, edits);
+      return rowIndex === null ? [] : [{
+        ...result,
+        rowIndex
+      }];
+    }));
+    setSelectedPatient(prev => prev === null ? null : followRow(prev, edits));
+  }, []);
+  const handleDataCommit = useCallback((label: string, edits: DataEdit[]) => {
+    followColumnEdits(edits, true);
+    followRowEdits(edits);
+    commitDataChange(label, edits);
+  }, [followColumnEdits, followRowEdits, commitDataChange]);
+  const handleDataUndo = useCallback(() => {
+    const change = dataHistory.past[dataHistory.past.length - 1];
+    if (change) {
+      followColumnEdits(change.edits, false);
+      followRowEdits(inverseEdits(change.edits));
+    }
+    undoDataChange();
+  }, [dataHistory, followColumnEdits, followRowEdits, undoDataChange]);
+  const handleDataRedo = useCallback(() => {
+    const change = dataHistory.future[dataHistory.future.length - 1];
+    if (change) {
+      followColumnEdits(change.edits, true);
+      followRowEdits(change.edits);
+    }
+    redoDataChange();
+  }, [dataHistory, followColumnEdits, followRowEdits, redoDataChange]);
+  const mappedFeatureCount = useMemo(() => {
+    if (!modelBundle || !columnMapping) return 0;
+    return modelBundle.features.filter(f => columnMapping[f]).length;
+  }, [modelBundle, columnMapping]);
 
   // Run predictions
+  const predictionSettings = useMemo<PredictionSettings>(() => ({
+    rawPtpm: rawPtpmInput,
+    mapping: columnMapping,
+    idColumn,
+    timepoints: selectedTimepoints
+  }), [rawPtpmInput, columnMapping, idColumn, selectedTimepoints]);
+
+  // Cohort compared with the training distribution, when the bundle summarizes it.
+  // Computed in the worker once edits settle; the last report stays shown meanwhile.
+  const [drift, setDrift] = useState<DriftReport | null>(null);
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!modelBundle?.trainingSummary || patientData.length === 0 || !worker) {
+      setDrift(null);
+      return;
+    }
+    let current = true;
+    let job: WorkerJob<DriftReport | null> | null = null;
+    const timer = setTimeout(() => {
+      job = worker.drift(patientData, columnMapping, rawPtpmInput);
+      job.promise.then(result => {
+        if (current) setDrift(result);
+      }).catch(error => {
+        if (!(error instanceof CancelledError)) toast.error(`Drift report failed: ${error instanceof Error ? error.message : error}`);
+      });
+    }, ANALYSIS_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [modelBundle, patientData, columnMapping, rawPtpmInput]);
   const handlePredict = useCallback(async () => {
-    if (!modelBundle || patientData.length === 0) {
+    if (!modelBundle || patientData.length === 0 || !workerRef.current) {
       toast.error('Please upload both model and patient data');
       return;
     }
     setIsProcessing(true);
-    try {
-      // Simulate processing delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      const predictions: PatientResult[] = patientData.map((row, idx) => {
-        const patientId = idColumn ? String(row[idColumn]) : `Patient_${idx + 1}`;
-
-        // Generate mock risk score (in production, this comes from the model)
-        const riskScore = 0.2 + Math.random() * 0.6;
-
-        // Generate survival curve
-        const survivalData = generateMockSurvivalData(patientId, riskScore);
-
-        // Calculate survival at selected timepoints
-        const survivalProbabilities = selectedTimepoints.map(year => ({
-          year,
-          probability: getSurvivalAtTime(survivalData, year * 365)
-        }));
-
-        // Classify risk
-        const {
-          group: riskGroup
-        } = classifyRisk(riskScore, modelBundle.riskRef || null);
-        return {
-          patientId,
-          riskScore,
-          riskGroup,
-          survivalProbabilities,
-          survivalData
-        };
+    setProgress({
+      done: 0,
+      total: patientData.length
+    });
+    setResults([]);
+    const streamed: PatientResult[] = [];
+    const job = workerRef.current.predict(patientData, predictionSettings, (chunk, done, total) => {
+      streamed.push(...chunk);
+      setResults(prev => prev.concat(chunk));
+      setProgress({
+        done,
+        total
       });
-      setResults(predictions);
+    });
+    jobRef.current = job;
+    try {
+      const predictions = await job.promise;
 
       // Select first patient by default
-      if (predictions.length > 0 && !selectedPatient) {
-        setSelectedPatient(predictions[0].patientId);
+      if (predictions.length > 0 && selectedPatient === null) {
+        setSelectedPatient(predictions[0].rowIndex);
       }
       toast.success(`Generated predictions for ${predictions.length} patients`);
+      const flaggedCount = predictions.filter(p => p.imputationFlag).length;
+      if (flaggedCount > 0) {
+        toast.warning(`${flaggedCount} patient(s) have more than ${Math.round(MAX_IMPUTED_FRACTION * 100)}% of features imputed`);
+      }
+      if (drift && drift.outliers.length > 0) {
+        toast.warning(`${drift.outliers.length} patient(s) are outside the training distribution`);
+      }
     } catch (error) {
-      toast.error(`Prediction failed: ${error}`);
+      if (error instanceof CancelledError) {
+        toast.info(`Prediction cancelled after ${streamed.length} patients`);
+      } else {
+        toast.error(`Prediction failed: ${error instanceof Error ? error.message : error}`);
+      }
     } finally {
+      jobRef.current = null;
       setIsProcessing(false);
+      setProgress(null);
+    }
+  }, [modelBundle, patientData, selectedPatient, predictionSettings, drift]);
+
+  // Cells that break the model's feature schema. Edits only revalidate the cells
+  // they touch; uploads and model, mapping or input changes validate every cell.
+  const validatedRef = useRef<{
+    history: DataHistory;
+    bundle: ModelBundle;
+    mapping: ColumnMapping | null;
+    rawPtpm: boolean;
+    report: ValidationReport;
+  } | null>(null);
+  const validation = useMemo(() => {
+    if (!modelBundle || patientData.length === 0) {
+      validatedRef.current = null;
+      return null;
+    }
+    const previous = validatedRef.current;
+    const sameInputs = previous && previous.bundle === modelBundle && previous.mapping === columnMapping && previous.rawPtpm === rawPtpmInput;
+    const edits = sameInputs ? editsBetween(previous.history, dataHistory) : null;
+    const report = (edits && revalidateEdits(previous.report, patientData, edits)) ?? validateTable(patientData, modelBundle, columnMapping, rawPtpmInput);
+    validatedRef.current = {
+      history: dataHistory,
+      bundle: modelBundle,
+      mapping: columnMapping,
+      rawPtpm: rawPtpmInput,
+      report
+    };
+    return report;
+  }, [modelBundle, patientData, dataHistory, columnMapping, rawPtpmInput]);
+  const patientLabel = useCallback((index: number) => getPatientId(patientData[index], index, idColumn), [patientData, idColumn]);
+  const outlierReasons = useMemo(() => new Map(drift?.outliers.map(o => [o.row, `Outside the training distribution: ${o.features.map(f => `${f.feature} z=${f.z.toFixed(1)}`).join(', ')}`])), [drift]);
+
+  // Invalid values have to be confirmed before predicting
+  const handleRequestPredict = useCallback(() => {
+    if (validation && validation.errorCount > 0) {
+      setValidationDialogOpen(true);
+      return;
     }
-  }, [modelBundle, patientData, idColumn, selectedTimepoints, selectedPatient]);
+    handlePredict();
+  }, [validation, handlePredict]);
+  const handleCancelPredict = useCallback(() => {
+    jobRef.current?.cancel();
+  }, []);
+
+  // Results with risk groups from the active scheme, so regrouping never reruns the forest
+  const groupedResults = useMemo(() => results.map(r => ({
+    ...r,
+    riskGroup: classifyRisk(r.riskScore, riskScheme).group
+  })), [results, riskScheme]);
+
+  const riskScores = useMemo(() => results.map(r => r.riskScore), [results]);
+  const handleConfirmRiskGroups = useCallback((scheme: RiskGroupScheme) => {
+    setRiskScheme(scheme);
+    setRiskDialogOpen(false);
+    toast.success(`Patients regrouped into ${scheme.labels.length} risk groups`);
+  }, []);
 
   // Export predictions
   const handleExport = useCallback(() => {
-    if (results.length === 0) return;
-    const exportData = results.map(r => {
+    if (groupedResults.length === 0) return;
+    const exportData = groupedResults.map(r => {
       const row: Record<string, any> = {
         Patient: r.patientId,
         Risk_Score: r.riskScore.toFixed(4),
@@ -174,11 +482,69 @@ export default function Index() {
       r.survivalProbabilities.forEach(sp => {
         row[`S(t=${sp.year}y)`] = sp.probability.toFixed(3);
       });
+      row.Imputed_Features = r.imputedFeatures.join(';');
+      row.Imputation_Flag = r.imputationFlag ? 'yes' : 'no';
       return row;
     });
     exportToCSV(exportData, 'survival_predictions.csv');
     toast.success('Predictions exported successfully');
-  }, [results]);
+  }, [groupedResults]);
+
+  // One-page PDF reports, drawn in the worker: the selected patient or one file per patient
+  const handleExportReport = useCallback(async (scope: 'selected' | 'all') => {
+    if (!modelBundle || !workerRef.current) return;
+    const inputColumns = modelBundle.features.map(f => featureColumn(f, columnMapping)).filter((c): c is string => c !== null);
+    const patients = groupedResults.filter(r => scope === 'all' || r.rowIndex === selectedPatient).flatMap((result): PatientReportInput[] => {
+      const rowIndex = result.rowIndex;
+      if (!patientData[rowIndex]) return [];
+      return [{
+        row: patientData[rowIndex],
+        uploadedRow: dataHistory.current.origins[rowIndex] ?? null,
+        result,
+        outlier: outlierReasons.get(rowIndex) ?? null,
+        editedValues: inputColumns.filter(column => isCellEdited(dataHistory, rowIndex, column)).length
+      }];
+    });
+    if (patients.length === 0) {
+      toast.error('No matching patient rows; run the prediction again');
+      return;
+    }
+    setReportProgress({
+      done: 0,
+      total: patients.length
+    });
+    const job = workerRef.current.report(patients, {
+      modelFileName: modelFile?.name ?? null,
+      dataFileName: dataFile?.name ?? null,
+      cohortSize: dataHistory.original.length,
+      settings: predictionSettings,
+      riskGroups: riskScheme?.labels ?? [],
+      generatedAt: new Date().toISOString()
+    }, (done, total) => setReportProgress({
+      done,
+      total
+    }));
+    reportJobRef.current = job;
+    try {
+      const pdfs = await job.promise;
+      for (let i = 0; i < pdfs.length; i++) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, REPORT_DOWNLOAD_INTERVAL));
+        downloadBlob(new Blob([pdfs[i]], {
+          type: 'application/pdf'
+        }), reportFileName(patients[i].result.patientId));
+      }
+      toast.success(patients.length === 1 ? `Report for ${patients[0].result.patientId} exported` : `Exported reports for ${patients.length} patients`);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        toast.info('Report export cancelled');
+      } else {
+        toast.error(`Report export failed: ${error instanceof Error ? error.message : error}`);
+      }
+    } finally {
+      reportJobRef.current = null;
+      setReportProgress(null);
+    }
+  }, [modelBundle, patientData, columnMapping, groupedResults, selectedPatient, outlierReasons, dataHistory, modelFile, dataFile, predictionSettings, riskScheme]);
 
   // Calculate summary statistics
   const summaryStats = useMemo(() => {
@@ -187,13 +553,99 @@ export default function Index() {
     return {
       total: results.length,
       avgRisk: scores.reduce((a, b) => a + b, 0) / scores.length,
-      minRisk: Math.min(...scores),
-      maxRisk: Math.max(...scores),
-      lowCount: results.filter(r => r.riskGroup === 'Low').length,
-      mediumCount: results.filter(r => r.riskGroup === 'Intermediate').length,
-      highCount: results.filter(r => r.riskGroup === 'High').length
+      minRisk: scores.reduce((a, b) => Math.min(a, b), Infinity),
+      maxRisk: scores.reduce((a, b) => Math.max(a, b), -Infinity),
+      groupCounts: (riskScheme?.labels ?? []).map(label => ({
+        label,
+        count: groupedResults.filter(r => r.riskGroup === label).length
+      }))
     };
-  }, [results]);
+  }, [results, groupedResults, riskScheme]);
+
+  // Predictions paired with observed outcomes, once the prediction run has finished
+  const matchedOutcomes = useMemo(() => {
+    if (isProcessing || results.length === 0) return [];
+    const matched = matchOutcomes(groupedResults, patientData, outcomeColumns);
+    return matched.length >= 2 && matched.some(m => m.event) ? matched : [];
+  }, [results, groupedResults, patientData, outcomeColumns, isProcessing]);
+  // Bootstrap intervals of the C-index are computed in the worker once edits settle
+  const [concordance, setConcordance] = useState<ConcordanceSummary | null>(null);
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (matchedOutcomes.length === 0 || !worker) {
+      setConcordance(null);
+      return;
+    }
+    let current = true;
+    let job: WorkerJob<ConcordanceSummary> | null = null;
+    const timer = setTimeout(() => {
+      job = worker.concordance(matchedOutcomes.map(({ time, event, riskScore }) => ({
+        time,
+        event,
+        riskScore
+      })));
+      job.promise.then(result => {
+        if (current) setConcordance(result);
+      }).catch(error => {
+        if (!(error instanceof CancelledError)) toast.error(`Concordance failed: ${error instanceof Error ? error.message : error}`);
+      });
+    }, ANALYSIS_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [matchedOutcomes]);
+  const cohortCurve = useMemo(() => matchedOutcomes.length > 0 ? kaplanMeier(matchedOutcomes) : null, [matchedOutcomes]);
+
+  // Observed Kaplan–Meier curves per predicted risk group
+  const kmComparison = useMemo(() => {
+    if (matchedOutcomes.length === 0 || !riskScheme) return null;
+    const labels = riskScheme.labels;
+    const comparison = compareSurvivalGroups(labels.map(label => ({
+      label,
+      observations: matchedOutcomes.filter(m => m.riskGroup === label)
+    })));
+    if (comparison.groups.length === 0) return null;
+    return {
+      groups: comparison.groups.map(g => ({
+        ...g,
+        color: riskGroupColor(labels.indexOf(g.label), labels.length)
+      })),
+      logRank: comparison.logRank
+    };
+  }, [matchedOutcomes, riskScheme]);
+  // AUC, Brier scores and calibration are computed in the worker once edits settle
+  const [evaluation, setEvaluation] = useState<EvaluationSummary | null>(null);
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (matchedOutcomes.length === 0 || !worker) {
+      setEvaluation(null);
+      return;
+    }
+    let current = true;
+    let job: WorkerJob<EvaluationSummary> | null = null;
+    const timer = setTimeout(() => {
+      job = worker.evaluation(matchedOutcomes.map(({ time, event, survivalData }) => ({
+        time,
+        event,
+        survivalData
+      })), selectedTimepoints.map(y => y * 365), CALIBRATION_BIN_COUNTS);
+      job.promise.then(result => {
+        if (current) setEvaluation(result);
+      }).catch(error => {
+        if (!(error instanceof CancelledError)) toast.error(`Evaluation failed: ${error instanceof Error ? error.message : error}`);
+      });
+    }, ANALYSIS_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [matchedOutcomes, selectedTimepoints]);
+  // Observed outcome of every row, aligned with patientData for model inspection
+  const rowOutcomes = useMemo(() => patientData.map(row => readOutcome(row, outcomeColumns)), [patientData, outcomeColumns]);
+  const activeChartMode: ChartMode = chartMode === 'km' && !kmComparison ? 'single' : chartMode;
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -201,16 +653,185 @@ export default function Index() {
     const colors = ['#3b3b3b', '#5a5a5a', '#787878', '#969696', '#b4b4b4', '#2a2a2a', '#4a4a4a', '#686868', '#868686', '#a4a4a4'];
     return results.map((r, idx) => ({
       patientId: r.patientId,
+      rowIndex: r.rowIndex,
       data: r.survivalData,
       color: colors[idx % colors.length]
     }));
   }, [results]);
 
+  // Input row shown in the preprocessing preview: the selected patient, or the first row
+  const previewRow = useMemo(() => {
+    if (patientData.length === 0) return null;
+    const rowIdx = selectedPatient !== null && selectedPatient < patientData.length ? selectedPatient : 0;
+    return {
+      row: patientData[rowIdx],
+      index: rowIdx,
+      patientId: getPatientId(patientData[rowIdx], rowIdx, idColumn)
+    };
+  }, [patientData, idColumn, selectedPatient]);
+
   // Get selected patient's detailed data
   const selectedPatientData = useMemo(() => {
-    if (!selectedPatient) return null;
-    return results.find(r => r.patientId === selectedPatient) || null;
-  }, [selectedPatient, results]);
+    if (selectedPatient === null) return null;
+    return groupedResults.find(r => r.rowIndex === selectedPatient) || null;
+  }, [selectedPatient, groupedResults]);
+
+  // Feature attribution for the selected patient
+  const selectedAttribution = useMemo(() => {
+    if (!modelBundle || !selectedPatientData || !previewRow || previewRow.index !== selectedPatientData.rowIndex) return null;
+    return explainPrediction(modelBundle, previewRow.row, rawPtpmInput, columnMapping);
+  }, [modelBundle, selectedPatientData, previewRow, rawPtpmInput, columnMapping]);
+  const selectedRow = selectedPatientData && previewRow?.index === selectedPatientData.rowIndex ? previewRow : null;
+
+  // Write a what-if scenario back into the patient data and refresh that patient's prediction
+  const handleSaveWhatIf = useCallback((row: Record<string, unknown>) => {
+    if (!modelBundle || !selectedRow) return;
+    const updated = predictPatient(modelBundle, row, selectedRow.index, predictionSettings);
+    commitDataChange(`What-if scenario for ${selectedRow.patientId}`, rowEdits(dataHistory.current, selectedRow.index, row));
+    setResults(prev => prev.map(r => r.rowIndex === selectedRow.index ? updated : r));
+    setWhatIfResult(null);
+    toast.success(`Saved scenario to ${selectedRow.patientId}`);
+  }, [modelBundle, selectedRow, predictionSettings, dataHistory, commitDataChange]);
+  // Everything a session restores, in the shape stored in IndexedDB
+  const sessionState = useMemo<SessionState>(() => ({
+    modelFile,
+    dataFile,
+    patientData,
+    originalData: dataHistory.original,
+    rowOrigins: dataHistory.current.origins,
+    columns,
+    columnSources: dataHistory.current.columnSources,
+    formulas: dataHistory.current.formulas,
+    idColumn,
+    outcomeColumns,
+    columnMapping,
+    riskScheme,
+    settings: {
+      rawPtpm: rawPtpmInput,
+      timepoints: selectedTimepoints,
+      chartMode
+    },
+    results
+  }), [modelFile, dataFile, patientData, dataHistory, columns, idColumn, outcomeColumns, columnMapping, riskScheme, rawPtpmInput, selectedTimepoints, chartMode, results]);
+
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const record = await loadSession(id);
+      if (!record) {
+        setLastSessionId(null);
+        toast.error('Saved session not found');
+        return;
+      }
+      const {
+        state
+      } = record;
+      const bundle = state.modelFile ? await loadModelBundle(state.modelFile) : null;
+      await workerRef.current?.setModel(bundle);
+      const active = {
+        id: record.id,
+        name: record.name,
+        createdAt: record.createdAt
+      };
+      restoredColumnsRef.current = state.columns;
+      setColumnMapping(state.columnMapping);
+      setModelFile(state.modelFile);
+      setModelBundle(bundle);
+      setDataFile(state.dataFile);
+      setWorkbookSource(null);
+      setParseErrors([]);
+      resetPatientData(state.patientData, state.columns, {
+        original: state.originalData,
+        origins: state.rowOrigins,
+        columnSources: state.columnSources,
+        formulas: state.formulas
+      });
+      setIdColumn(state.idColumn);
+      setOutcomeColumns(state.outcomeColumns);
+      setRiskScheme(state.riskScheme);
+      setRawPtpmInput(state.settings.rawPtpm);
+      setSelectedTimepoints(state.settings.timepoints);
+      setChartMode(state.settings.chartMode);
+      // Older sessions saved results without their row; they were predicted in row order
+      const restored = state.results.map((result, i) => ({
+        ...result,
+        rowIndex: result.rowIndex ?? i
+      }));
+      setResults(restored);
+      setSelectedPatient(restored[0]?.rowIndex ?? null);
+      setWhatIfResult(null);
+      setSession(active);
+      lastSavedRef.current = {
+        session: active,
+        state: null
+      };
+      setLastSessionId(record.id);
+      setSessionsOpen(false);
+      toast.success(`Opened session "${record.name}"`);
+    } catch (error) {
+      toast.error(`Failed to open session: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [resetPatientData]);
+
+  const handleNewSession = useCallback(() => {
+    handleModelUpload(null);
+    handleDataUpload(null);
+    setOutcomeColumns({
+      time: null,
+      event: null
+    });
+    setSelectedPatient(null);
+    setSession(null);
+    setLastSessionId(null);
+    lastSavedRef.current = null;
+    setSessionsOpen(false);
+  }, [handleModelUpload, handleDataUpload]);
+
+  const handleSessionDeleted = useCallback((id: string) => {
+    if (session?.id === id) handleNewSession();
+  }, [session, handleNewSession]);
+
+  // Reopen the session that was active before the page was reloaded
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    (lastId ? openSession(lastId) : Promise.resolve()).finally(() => setSessionReady(true));
+  }, [openSession]);
+
+  // Save the open session as it changes; the first upload starts a new one
+  useEffect(() => {
+    // A session that was just opened is stored exactly as it now renders
+    if (session && lastSavedRef.current?.session === session && lastSavedRef.current.state === null) {
+      lastSavedRef.current = {
+        session,
+        state: sessionState
+      };
+    }
+    if (!sessionReady || isProcessing || isReadingFile) return;
+    if (!session && !modelFile && !dataFile) return;
+    if (session && lastSavedRef.current?.session === session && lastSavedRef.current.state === sessionState) return;
+    const timer = setTimeout(async () => {
+      const target = session ?? {
+        id: createSessionId(),
+        name: defaultSessionName(modelFile, dataFile),
+        createdAt: Date.now()
+      };
+      try {
+        await saveSession(target, sessionState);
+        lastSavedRef.current = {
+          session: target,
+          state: sessionState
+        };
+        setLastSessionId(target.id);
+        if (!session) setSession(target);
+      } catch (error) {
+        if (!saveErrorShownRef.current) {
+          toast.error(`Session could not be saved: ${error instanceof Error ? error.message : error}`);
+          saveErrorShownRef.current = true;
+        }
+      }
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionReady, isProcessing, isReadingFile, session, sessionState, modelFile, dataFile]);
+
   return <div className="min-h-screen bg-background relative overflow-hidden">
       {/* 3D Background */}
       <Suspense fallback={<div className="absolute inset-0 bg-gradient-to-br from-background via-muted/30 to-background" />}>
@@ -233,6 +854,10 @@ Survival Analysis</h1>
                   Advanced Machine Learning for Personalized Survival Analysis
                 </p>
               </div>
+              <Button variant="outline" size="sm" onClick={() => setSessionsOpen(true)} disabled={isProcessing} className="ml-auto gap-2 max-w-[280px]">
+                <FolderOpen className="w-4 h-4 shrink-0" />
+                <span className="truncate">{session ? session.name : 'Sessions'}</span>
+              </Button>
             </div>
           </div>
         </header>
@@ -254,12 +879,12 @@ Survival Analysis</h1>
                 <div className="glass-card rounded-xl p-5">
                   <h3 className="font-semibold text-foreground mb-3 flex items-center gap-2">
                     <FileText className="w-4 h-4" />
-                    Model Bundle (.joblib)
+                    Model Bundle (.json export)
                   </h3>
                   <ul className="space-y-2 text-sm text-muted-foreground">
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-primary" />
-                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">model</code> — Fitted RSF model
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">trees</code> + <code className="text-xs bg-muted px-1.5 py-0.5 rounded">event_times</code> — Fitted RSF model
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-primary" />
@@ -267,7 +892,7 @@ Survival Analysis</h1>
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-primary" />
-                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">feature_medians</code> — For imputation
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">feature_medians</code> — Fill missing values
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-muted-foreground/50" />
@@ -279,7 +904,7 @@ Survival Analysis</h1>
                 <div className="glass-card rounded-xl p-5">
                   <h3 className="font-semibold text-foreground mb-3 flex items-center gap-2">
                     <BarChart3 className="w-4 h-4" />
-                    Patient Data (.xlsx/.csv)
+                    Patient Data (.xlsx/.csv/.tsv)
                   </h3>
                   <ul className="space-y-2 text-sm text-muted-foreground">
                     <li className="flex items-center gap-2">
@@ -292,7 +917,7 @@ Survival Analysis</h1>
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-primary" />
-                      Missing values as NA/blank
+                      Missing values as NA/blank (median-imputed)
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-primary" />
@@ -306,11 +931,22 @@ Survival Analysis</h1>
 
           {/* Upload Section */}
           <div className="grid md:grid-cols-2 gap-6 mb-8">
-            <FileUploader accept=".joblib" label="Model Bundle" description="Upload .joblib file with trained RSF model" icon="model" file={modelFile} onFileSelect={handleModelUpload} />
+            <FileUploader accept=".json" label="Model Bundle" description="Upload the .json export of the trained RSF bundle" icon="model" file={modelFile} onFileSelect={handleModelUpload} />
             
-            <FileUploader accept=".xlsx,.xls,.csv" label="Patient Data" description="Upload .xlsx or .csv with patient features" icon="data" file={dataFile} onFileSelect={handleDataUpload} />
+            <FileUploader accept=".xlsx,.xls,.csv,.tsv,.txt" label="Patient Data" description="Upload .xlsx, .csv or .tsv with patient features" icon="data" file={dataFile} onFileSelect={handleDataUpload} />
           </div>
 
+          {workbookSource && <div className="-mt-4 mb-8 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setSheetDialogOpen(true)} className="gap-2 text-xs text-muted-foreground">
+                <FileSpreadsheet className="w-4 h-4" />
+                Sheet: {workbookSource.options.sheet} (row {workbookSource.options.headerRow + 1} header) — change
+              </Button>
+            </div>}
+
+          {parseErrors.length > 0 && <div className="mb-8">
+              <ParseErrorList errors={parseErrors} fileName={dataFile?.name} />
+            </div>}
+
           {/* Settings & Controls */}
           {modelBundle && <motion.div initial={{
           opacity: 0,
@@ -346,13 +982,72 @@ Survival Analysis</h1>
                   <Badge variant="outline" className="font-mono">
                     {modelBundle.featureCount} features
                   </Badge>
+
+                  {columns.length > 0 && <Button variant="outline" size="sm" onClick={() => setMappingDialogOpen(true)} className="gap-2">
+                      <Columns3 className="w-4 h-4" />
+                      {mappedFeatureCount}/{modelBundle.featureCount} mapped
+                    </Button>}
                   
-                  <Button onClick={handlePredict} disabled={patientData.length === 0 || isProcessing} className="gap-2">
+                  <Button onClick={handleRequestPredict} disabled={patientData.length === 0 || isProcessing || isReadingFile} className="gap-2 relative overflow-hidden">
                     <Play className="w-4 h-4" />
-                    {isProcessing ? 'Processing...' : 'Predict Survival'}
+                    {isProcessing && progress ? `Processing ${progress.done}/${progress.total}` : isReadingFile ? 'Reading file...' : 'Predict Survival'}
+                    {isProcessing && progress && <Progress value={progress.total > 0 ? progress.done / progress.total * 100 : 0} className="absolute bottom-0 left-0 h-1 rounded-none bg-transparent [&>div]:bg-primary-foreground/60" />}
                   </Button>
+
+                  {isProcessing && <Button variant="outline" onClick={handleCancelPredict} className="gap-2">
+                      <X className="w-4 h-4" />
+                      Cancel
+                    </Button>}
                 </div>
               </div>
+
+              {columns.length > 0 && <>
+                  <Separator className="my-4" />
+                  <div className="flex flex-wrap items-center gap-6">
+                    <Label className="text-sm text-muted-foreground">Observed outcomes (optional):</Label>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-sm">Time (days)</Label>
+                      <Select value={outcomeColumns.time ?? NO_COLUMN} onValueChange={value => setOutcomeColumns(prev => ({
+                    ...prev,
+                    time: value === NO_COLUMN ? null : value
+                  }))}>
+                        <SelectTrigger className="w-44 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>None</SelectItem>
+                          {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-sm">Event (1 = death)</Label>
+                      <Select value={outcomeColumns.event ?? NO_COLUMN} onValueChange={value => setOutcomeColumns(prev => ({
+                    ...prev,
+                    event: value === NO_COLUMN ? null : value
+                  }))}>
+                        <SelectTrigger className="w-44 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>None</SelectItem>
+                          {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </>}
+            </motion.div>}
+
+          {/* Preprocessing Preview */}
+          {modelBundle && previewRow && <motion.div initial={{
+          opacity: 0,
+          y: 10
+        }} animate={{
+          opacity: 1,
+          y: 0
+        }} className="mb-8">
+              <PreprocessingPreview bundle={modelBundle} row={previewRow.row} patientId={previewRow.patientId} rawPtpm={rawPtpmInput} mapping={columnMapping} />
             </motion.div>}
 
           {/* Data Editor */}
@@ -363,7 +1058,7 @@ Survival Analysis</h1>
           opacity: 1,
           y: 0
         }} className="mb-8">
-              <PatientDataEditor data={patientData} columns={columns} onDataChange={setPatientData} idColumn={idColumn || undefined} />
+              <PatientDataEditor history={dataHistory} onCommit={handleDataCommit} onUndo={handleDataUndo} onRedo={handleDataRedo} idColumn={idColumn || undefined} validation={validation} />
             </motion.div>}
 
           {/* Results Section */}
@@ -377,10 +1072,17 @@ Survival Analysis</h1>
           }}>
                 {/* Summary Metrics */}
                 <div className="mb-8">
-                  <h2 className="section-header mb-4 flex items-center gap-2">
-                    <Activity className="w-5 h-5" />
-                    Prediction Results
-                  </h2>
+                  <div className="flex items-center justify-between gap-4 mb-4">
+                    <h2 className="section-header flex items-center gap-2">
+                      <Activity className="w-5 h-5" />
+                      Prediction Results
+                    </h2>
+
+                    <Button variant="outline" size="sm" onClick={() => setRiskDialogOpen(true)} className="gap-2">
+                      <Layers className="w-4 h-4" />
+                      {riskScheme ? summaryStats.groupCounts.map(g => `${g.label} ${g.count}`).join(' · ') : 'Define risk groups'}
+                    </Button>
+                  </div>
                   
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <MetricCard label="Total Patients" value={summaryStats.total} icon={Users} />
@@ -388,77 +1090,133 @@ Survival Analysis</h1>
                     <MetricCard label="Min Risk" value={summaryStats.minRisk.toFixed(4)} icon={TrendingDown} variant="low" />
                     <MetricCard label="Max Risk" value={summaryStats.maxRisk.toFixed(4)} icon={TrendingUp} variant="high" />
                   </div>
-                </div>
 
-                {/* Results Table */}
-                <div className="mb-8">
-                  <DataTable data={results} timepoints={selectedTimepoints} onSelectPatient={setSelectedPatient} selectedPatient={selectedPatient || undefined} />
+                  {concordance && <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                      <MetricCard label="Harrell's C" value={concordance.harrell.estimate.toFixed(3)} icon={Target} subtitle={`${formatEstimate(concordance.harrell)} · n=${concordance.n}, ${concordance.events} events`} />
+                      <MetricCard label="Uno's C" value={concordance.uno.estimate.toFixed(3)} icon={Target} subtitle={`${formatEstimate(concordance.uno)} · IPCW-weighted`} />
+                    </div>}
                 </div>
 
-                {/* Survival Charts */}
-                <div className="mb-8">
-                  <div className="flex items-center justify-between mb-4">
-                    <h2 className="section-header">Survival Curve Analysis</h2>
+                <Tabs value={(resultsTab === 'evaluation' && !evaluation) || (resultsTab === 'drift' && !drift) ? 'predictions' : resultsTab} onValueChange={v => setResultsTab(v as ResultsTab)} className="mb-8">
+                  <TabsList className="bg-muted/50 mb-6">
+                    <TabsTrigger value="predictions" className="text-xs">Predictions</TabsTrigger>
+                    <TabsTrigger value="evaluation" disabled={!evaluation} className="text-xs">Evaluation</TabsTrigger>
+                    <TabsTrigger value="inspection" disabled={isProcessing} className="text-xs">Model Inspection</TabsTrigger>
+                    <TabsTrigger value="drift" disabled={!drift} className="text-xs">Data Drift</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="predictions">
+                    {/* Results Table */}
+                    <div className="mb-8">
+                      <DataTable data={groupedResults} riskGroups={riskScheme?.labels} timepoints={selectedTimepoints} onSelectPatient={setSelectedPatient} selectedPatient={selectedPatient ?? undefined} outliers={outlierReasons} />
+                    </div>
+
+                    {/* Survival Charts */}
+                    <div className="mb-8">
+                      <div className="flex items-center justify-between mb-4">
+                        <h2 className="section-header">Survival Curve Analysis</h2>
                     
-                    <Tabs value={chartMode} onValueChange={v => setChartMode(v as 'single' | 'all')}>
-                      <TabsList className="bg-muted/50">
-                        <TabsTrigger value="single" className="text-xs">Single Patient</TabsTrigger>
-                        <TabsTrigger value="all" className="text-xs">All Patients</TabsTrigger>
-                      </TabsList>
-                    </Tabs>
-                  </div>
+                        <Tabs value={activeChartMode} onValueChange={v => setChartMode(v as ChartMode)}>
+                          <TabsList className="bg-muted/50">
+                            <TabsTrigger value="single" className="text-xs">Single Patient</TabsTrigger>
+                            <TabsTrigger value="all" className="text-xs">All Patients</TabsTrigger>
+                            {kmComparison && <TabsTrigger value="km" className="text-xs">Kaplan–Meier by Group</TabsTrigger>}
+                          </TabsList>
+                        </Tabs>
+                      </div>
                   
-                  {chartMode === 'single' && results.length > 0 && <div className="mb-4">
-                      <Select value={selectedPatient || results[0].patientId} onValueChange={setSelectedPatient}>
-                        <SelectTrigger className="w-[250px]">
-                          <SelectValue placeholder="Select patient" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {results.map(r => <SelectItem key={r.patientId} value={r.patientId}>
-                              {r.patientId}
-                            </SelectItem>)}
-                        </SelectContent>
-                      </Select>
-                    </div>}
+                      {activeChartMode === 'single' && results.length > 0 && <div className="mb-4">
+                          <Select value={String(selectedPatient ?? results[0].rowIndex)} onValueChange={value => setSelectedPatient(Number(value))}>
+                            <SelectTrigger className="w-[250px]">
+                              <SelectValue placeholder="Select patient" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {results.map(r => <SelectItem key={r.rowIndex} value={String(r.rowIndex)}>
+                                  {r.patientId}
+                                </SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        </div>}
                   
-                  <SurvivalChart mode={chartMode} data={chartData} timepoints={selectedTimepoints.map(y => y * 365)} selectedPatient={selectedPatient || undefined} />
+                      <SurvivalChart mode={activeChartMode} data={chartData} timepoints={selectedTimepoints.map(y => y * 365)} selectedPatient={selectedPatient ?? undefined} kmGroups={kmComparison?.groups} logRank={kmComparison?.logRank} cohortCurve={cohortCurve} comparison={activeChartMode === 'single' && whatIfResult ? {
+                        label: 'What-if',
+                        data: whatIfResult.survivalData
+                      } : null} />
                   
-                  {/* Selected Patient Details */}
-                  {chartMode === 'single' && selectedPatientData && <motion.div initial={{
-                opacity: 0,
-                y: 10
-              }} animate={{
-                opacity: 1,
-                y: 0
-              }} className="mt-6">
-                      <h3 className="section-header mb-4">Selected Patient Details</h3>
+                      {/* Selected Patient Details */}
+                      {activeChartMode === 'single' && selectedPatientData && <motion.div initial={{
+                    opacity: 0,
+                    y: 10
+                  }} animate={{
+                    opacity: 1,
+                    y: 0
+                  }} className="mt-6">
+                          <h3 className="section-header mb-4">Selected Patient Details</h3>
                       
-                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-                        <MetricCard label="Patient" value={selectedPatientData.patientId} />
-                        <MetricCard label="Risk Score" value={selectedPatientData.riskScore.toFixed(4)} />
-                        <MetricCard label="Risk Group" value={selectedPatientData.riskGroup || '—'} variant={selectedPatientData.riskGroup === 'Low' ? 'low' : selectedPatientData.riskGroup === 'Intermediate' ? 'medium' : selectedPatientData.riskGroup === 'High' ? 'high' : 'default'} />
-                      </div>
+                          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+                            <MetricCard label="Patient" value={selectedPatientData.patientId} />
+                            <MetricCard label="Risk Score" value={selectedPatientData.riskScore.toFixed(4)} />
+                            <MetricCard label="Risk Group" value={selectedPatientData.riskGroup || '—'} variant={riskGroupTone(selectedPatientData.riskGroup, riskScheme?.labels ?? []) ?? 'default'} />
+                          </div>
+
+                          {selectedAttribution && <div className="mb-6">
+                              <AttributionWaterfall attribution={selectedAttribution} />
+                            </div>}
+
+                          {modelBundle && selectedRow && <div className="mb-6">
+                              <WhatIfPanel bundle={modelBundle} row={selectedRow.row} rowIndex={selectedRow.index} cohort={patientData} settings={predictionSettings} baseline={selectedPatientData} featureOrder={selectedAttribution?.contributions.map(c => c.feature)} onPredictionChange={setWhatIfResult} onSave={handleSaveWhatIf} />
+                            </div>}
                       
-                      <div className="glass-card rounded-xl p-5">
-                        <h4 className="text-sm font-medium text-muted-foreground mb-4">
-                          Survival Probabilities at Key Timepoints
-                        </h4>
-                        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                          {selectedPatientData.survivalProbabilities.map(sp => {
-                      const variant = sp.probability >= 0.7 ? 'low' : sp.probability >= 0.4 ? 'medium' : 'high';
-                      return <MetricCard key={sp.year} label={`Year ${sp.year}`} value={`${(sp.probability * 100).toFixed(1)}%`} variant={variant} />;
-                    })}
-                        </div>
-                      </div>
-                    </motion.div>}
-                </div>
+                          <div className="glass-card rounded-xl p-5">
+                            <h4 className="text-sm font-medium text-muted-foreground mb-4">
+                              Survival Probabilities at Key Timepoints
+                            </h4>
+                            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                              {selectedPatientData.survivalProbabilities.map(sp => {
+                          const variant = sp.probability >= 0.7 ? 'low' : sp.probability >= 0.4 ? 'medium' : 'high';
+                          return <MetricCard key={sp.year} label={`Year ${sp.year}`} value={`${(sp.probability * 100).toFixed(1)}%`} variant={variant} />;
+                        })}
+                            </div>
+                          </div>
+                        </motion.div>}
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="evaluation">
+                    {evaluation && <div className="space-y-6">
+                        <EvaluationPanel evaluation={evaluation} />
+                        <CalibrationPlot calibration={evaluation.calibration} years={selectedTimepoints} />
+                      </div>}
+                  </TabsContent>
+
+                  <TabsContent value="inspection">
+                    {modelBundle && !isProcessing && <ModelInspectionPanel worker={workerRef.current} bundle={modelBundle} rows={patientData} settings={predictionSettings} outcomes={rowOutcomes} years={selectedTimepoints} />}
+                  </TabsContent>
+
+                  <TabsContent value="drift">
+                    {drift && <DriftReportPanel report={drift} cohortSize={patientData.length} trainSize={modelBundle?.trainingSummary?.n} rowLabel={patientLabel} />}
+                  </TabsContent>
+                </Tabs>
 
                 {/* Download Section */}
-                <div className="flex gap-4 justify-center">
+                <div className="flex flex-wrap gap-4 justify-center">
                   <Button variant="outline" onClick={handleExport} className="gap-2">
                     <Download className="w-4 h-4" />
                     Download Predictions (CSV)
                   </Button>
+                  <Button variant="outline" onClick={() => handleExportReport('selected')} disabled={!selectedPatientData || isProcessing || !!reportProgress} className="gap-2">
+                    <FileText className="w-4 h-4" />
+                    {selectedPatientData ? `Report for ${selectedPatientData.patientId} (PDF)` : 'Patient Report (PDF)'}
+                  </Button>
+                  <Button variant="outline" onClick={() => handleExportReport('all')} disabled={isProcessing || !!reportProgress} className="gap-2 relative overflow-hidden">
+                    <FileText className="w-4 h-4" />
+                    {reportProgress ? `Writing reports ${reportProgress.done}/${reportProgress.total}` : 'All Patient Reports (PDF)'}
+                    {reportProgress && <Progress value={reportProgress.total > 0 ? reportProgress.done / reportProgress.total * 100 : 0} className="absolute bottom-0 left-0 h-1 rounded-none bg-transparent" />}
+                  </Button>
+                  {reportProgress && <Button variant="ghost" onClick={() => reportJobRef.current?.cancel()} className="gap-2">
+                      <X className="w-4 h-4" />
+                      Cancel
+                    </Button>}
                 </div>
               </motion.div>}
           </AnimatePresence>
@@ -481,6 +1239,22 @@ Survival Analysis</h1>
             </motion.div>}
         </main>
 
+        {workbookSource && <SheetPickerDialog open={sheetDialogOpen} onOpenChange={setSheetDialogOpen} fileName={dataFile?.name} sheets={workbookSource.sheets} initialOptions={workbookSource.options} onConfirm={handleConfirmSheet} />}
+
+        <SessionsDialog open={sessionsOpen} onOpenChange={setSessionsOpen} currentSessionId={session?.id ?? null} currentName={session?.name ?? ''} onRename={name => setSession(prev => prev && {
+        ...prev,
+        name
+      })} onOpenSession={openSession} onNewSession={handleNewSession} onDeleted={handleSessionDeleted} />
+
+        <RiskGroupDialog open={riskDialogOpen} onOpenChange={setRiskDialogOpen} scheme={riskScheme} scores={riskScores} outcomes={matchedOutcomes} riskRef={modelBundle?.riskRef} onConfirm={handleConfirmRiskGroups} />
+
+        <ValidationSummaryDialog open={validationDialogOpen} onOpenChange={setValidationDialogOpen} report={validation} rowLabel={patientLabel} onOverride={() => {
+        setValidationDialogOpen(false);
+        handlePredict();
+      }} />
+
+        {modelBundle && columns.length > 0 && <ColumnMappingDialog open={mappingDialogOpen} onOpenChange={setMappingDialogOpen} columns={columns} features={modelBundle.features} mapping={columnMapping} onConfirm={handleConfirmMapping} />}
+
         {/* Footer */}
         <footer className="border-t border-border/50 mt-16">
           <div className="container mx-auto px-6 py-6 text-center">
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { explainPrediction } from "@/lib/attribution";
+
+const tree = (feature: number, threshold: number, rootChf: number[] | null) => ({
+  children_left: [1, -1, -1],
+  children_right: [2, -1, -1],
+  feature: [feature, -2, -2],
+  threshold: [threshold, -2, -2],
+  chf: [rootChf, [0.1, 0.2], [0.5, 1.0]],
+  survival: [null, [0.9, 0.8], [0.6, 0.4]],
+});
+
+const makeBundle = (rootChf: number[] | null) =>
+  parseModelBundle({
+    features: ["age", "stage"],
+    feature_medians: [60, 2],
+    event_times: [100, 200],
+    trees: [tree(0, 65, rootChf), tree(1, 2.5, rootChf)],
+  });
+
+describe("explainPrediction", () => {
+  it("splits the risk score along tree paths when internal nodes have CHF", () => {
+    const attribution = explainPrediction(makeBundle([0.3, 0.6]), { age: 70, stage: 1 }, false);
+    expect(attribution.method).toBe("tree-path");
+    expect(attribution.baseline).toBeCloseTo(0.9);
+    const total = attribution.contributions.reduce((sum, c) => sum + c.contribution, attribution.baseline);
+    expect(total).toBeCloseTo(attribution.prediction);
+    // Each tree moves 0.6 away from its root risk of 0.9; the forest averages two trees
+    const byFeature = Object.fromEntries(attribution.contributions.map(c => [c.feature, c]));
+    expect(byFeature.age).toMatchObject({ raw: 70, value: 70, imputed: false });
+    expect(byFeature.age.contribution).toBeCloseTo(0.3);
+    expect(byFeature.stage.contribution).toBeCloseTo(-0.3);
+  });
+
+  it("falls back to median substitution without internal node values", () => {
+    const attribution = explainPrediction(makeBundle(null), { age: 70, stage: 1 }, false);
+    expect(attribution.method).toBe("median-substitution");
+    const age = attribution.contributions.find(c => c.feature === "age")!;
+    // Replacing age 70 by the median 60 moves tree 0 from the high-risk leaf to the low one
+    expect(age.contribution).toBeCloseTo((1.5 - 0.3) / 2);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { applyEdits, createHistory } from "@/lib/data-history";
+import {
+  clearEdits,
+  fillDownEdits,
+  fillRightEdits,
+  findReplaceEdits,
+  parseClipboard,
+  pasteEdits,
+  transformColumnEdits,
+} from "@/lib/bulk-edit";
+
+const columns = ["id", "stage", "psa"];
+const table = createHistory([
+  { id: "P1", stage: "Stage II", psa: "<0.1" },
+  { id: "P2", stage: "stage IIIA", psa: "NA" },
+  { id: "P3", stage: null, psa: 4.2 },
+]).current;
+
+describe("bulk edit", () => {
+  it("pastes a TSV block at the selection and clips it at the table edge", () => {
+    const block = parseClipboard("1\t2\r\n3\t4\r\n5\t6\r\n7\t8\r\n");
+    expect(block).toEqual([["1", "2"], ["3", "4"], ["5", "6"], ["7", "8"]]);
+
+    const edits = pasteEdits(table, columns, { top: 1, left: 1, bottom: 1, right: 1 }, block);
+    const rows = applyEdits(table, edits).rows;
+    expect(rows[1]).toEqual({ id: "P2", stage: 1, psa: 2 });
+    expect(rows[2]).toEqual({ id: "P3", stage: 3, psa: 4 });
+    expect(rows).toHaveLength(3);
+  });
+
+  it("fills a single pasted value or the top row across a range", () => {
+    const range = { top: 0, left: 2, bottom: 2, right: 2 };
+    expect(applyEdits(table, pasteEdits(table, columns, range, [["NA"]])).rows.map(r => r.psa)).toEqual([null, null, null]);
+    expect(applyEdits(table, fillDownEdits(table, columns, range)).rows.map(r => r.psa)).toEqual(["<0.1", "<0.1", "<0.1"]);
+  });
+
+  it("leaves derived columns to their formula", () => {
+    const derived = { ...table, columns: [...columns, "double"], formulas: { double: "psa * 2" } };
+    const all = [...columns, "double"];
+    const range = { top: 0, left: 2, bottom: 2, right: 3 };
+    const edited = (edits: ReturnType<typeof clearEdits>) => edits.map(e => e.type === "cell" && e.column);
+    expect(edited(clearEdits(derived, all, range))).toEqual(["psa", "psa", "psa"]);
+    expect(edited(fillRightEdits(derived, all, range))).toEqual([]);
+    expect(edited(pasteEdits(derived, all, range, [["1", "2"]]))).toEqual(["psa"]);
+    expect(edited(findReplaceEdits(derived, all, "", "0", { wholeCell: true, caseSensitive: false }))).toEqual(["stage"]);
+  });
+
+  it("finds and replaces whole cells as parsed values", () => {
+    const below = findReplaceEdits(table, ["psa"], "<0.1", "0.05", { wholeCell: true, caseSensitive: false });
+    const na = findReplaceEdits(table, ["psa"], "na", "", { wholeCell: true, caseSensitive: false });
+    const rows = applyEdits(table, [...below, ...na]).rows;
+    expect(rows.map(r => r.psa)).toEqual([0.05, null, 4.2]);
+    expect(findReplaceEdits(table, ["psa"], "na", "", { wholeCell: true, caseSensitive: true })).toHaveLength(0);
+  });
+
+  it("converts stage strings to ordinals and keeps missing values", () => {
+    const rows = applyEdits(table, transformColumnEdits(table, "stage", "stage")).rows;
+    expect(rows.map(r => r.stage)).toEqual([2, 3, null]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { explainPrediction } from "@/lib/attribution";
+import { predictPatient, type PredictionSettings } from "@/lib/prediction";
+import { drawPatientReport, reportFileName, type ReportContext } from "@/lib/clinical-report";
+import { PdfDocument, encodeWinAnsi } from "@/lib/pdf";
+
+const bundle = parseModelBundle({
+  model_name: "LUAD RSF",
+  model_version: "2.1",
+  features: ["age", "EGFR_pTPM"],
+  feature_medians: { age: 60, EGFR_pTPM: 1.5 },
+  event_times: [365, 730],
+  trees: [{
+    children_left: [1, -1, -1],
+    children_right: [2, -1, -1],
+    feature: [0, -2, -2],
+    threshold: [65, -2, -2],
+    chf: [[0.1, 0.3], [0.05, 0.1], [0.2, 0.6]],
+    survival: [[0.9, 0.75], [0.95, 0.9], [0.8, 0.55]],
+  }],
+});
+
+const decode = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join("");
+
+describe("clinical report", () => {
+  it("writes a PDF with a valid cross-reference table", () => {
+    const pdf = new PdfDocument("Test");
+    pdf.text(10, 20, "Risk (high) \\ – 5%");
+    pdf.addPage();
+    const text = decode(pdf.output());
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("/Count 2");
+    expect(text).toContain("(Risk \\(high\\) \\\\ \\226 5%) Tj");
+    const xref = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.slice(xref, xref + 4)).toBe("xref");
+    const offsets = [...text.matchAll(/(\d{10}) 00000 n /g)].map(m => Number(m[1]));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    expect(encodeWinAnsi("≤ é ✓")).toEqual([60, 61, 32, 233, 32, 63]);
+  });
+
+  it("draws one page per patient with the prediction and provenance", () => {
+    const settings: PredictionSettings = { rawPtpm: true, mapping: null, idColumn: "id", timepoints: [1, 2] };
+    const context: ReportContext = {
+      modelFileName: "model.json",
+      dataFileName: "cohort.csv",
+      cohortSize: 6,
+      settings,
+      riskGroups: ["Low", "Intermediate", "High"],
+      generatedAt: "2024-05-01T10:30:00.000Z",
+    };
+    const rows = [{ id: "P1", age: 70, EGFR_pTPM: 3 }, { id: "P2", age: 50, EGFR_pTPM: null }];
+    const pdf = new PdfDocument();
+    rows.forEach((row, i) => {
+      const result = predictPatient(bundle, row, i, settings);
+      const patient = { row, uploadedRow: i === 0 ? 4 : null, result, outlier: i === 0 ? "Outside the training distribution" : null, editedValues: 0 };
+      drawPatientReport(pdf, bundle, patient, explainPrediction(bundle, row, true, null), context);
+    });
+    expect(pdf.pageCount).toBe(2);
+
+    const text = decode(pdf.output());
+    expect(text).toContain("(P1) Tj");
+    expect(text).toContain("(LUAD RSF v2.1 \\(model.json\\)) Tj");
+    // Rows are identified by their position in the uploaded table
+    expect(text).toContain("(cohort.csv, row 5 of 6) Tj");
+    expect(text).toContain("(cohort.csv, row added after upload) Tj");
+    expect(text).toContain("(Caution: Outside the training distribution) Tj");
+    expect(reportFileName("TCGA-05/4244 A")).toBe("survival_report_TCGA-05_4244_A.pdf");
+  });
+
+  it("keeps a patient with many imputed features and long provenance on one page", () => {
+    const features = Array.from({ length: 60 }, (_, i) => `PROTEIN${i + 1}_pTPM`);
+    const wide = parseModelBundle({
+      features,
+      feature_medians: Object.fromEntries(features.map(f => [f, 1])),
+      event_times: [365],
+      trees: [{
+        children_left: [1, -1, -1],
+        children_right: [2, -1, -1],
+        feature: [0, -2, -2],
+        threshold: [0.5, -2, -2],
+        chf: [[0.2], [0.1], [0.3]],
+        survival: [[0.8], [0.9], [0.7]],
+      }],
+    });
+    const settings: PredictionSettings = { rawPtpm: false, mapping: null, idColumn: null, timepoints: [1] };
+    const row = { id: "P1" };
+    const result = predictPatient(wide, row, 0, settings);
+    const draw = (modelFileName: string, dataFileName: string) => {
+      const pdf = new PdfDocument();
+      const context: ReportContext = { modelFileName, dataFileName, cohortSize: 1, settings, riskGroups: [], generatedAt: "2024-05-01T10:30:00.000Z" };
+      const patient = { row, uploadedRow: 0, result, outlier: "Outside the training distribution", editedValues: 0 };
+      drawPatientReport(pdf, wide, patient, explainPrediction(wide, row, false, null), context);
+      expect(pdf.pageCount).toBe(1);
+      return decode(pdf.output());
+    };
+
+    const text = draw("model.json", "cohort.csv");
+    expect(text).toContain("PROTEIN10_pTPM and 50 more) Tj");
+    expect(text).not.toContain("PROTEIN11_pTPM");
+
+    // Provenance too long for the page is cut off above the rule over the disclaimer
+    const long = draw(`${"very long model file name ".repeat(40)}.json`, `${"cohort export ".repeat(120)}.csv`);
+    const lines = [...long.matchAll(/([\d.]+) ([\d.]+) Td \((.*?)\) Tj/g)].map(m => ({ y: Number(m[2]), text: m[3] }));
+    const disclaimerTop = lines.find(line => line.text.startsWith("For research use only"))!.y;
+    const content = lines.filter(line => line.y > disclaimerTop);
+    expect(Math.min(...content.map(line => line.y))).toBeGreaterThan(disclaimerTop + 10);
+    expect(lines.length - content.length).toBeLessThanOrEqual(4);
+    expect(long).not.toContain("(Imputed) Tj");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { cellEdit, commitChange, createHistory, originalRow, undoChange } from "@/lib/data-history";
+import {
+  addColumnEdits,
+  columnRenames,
+  deleteColumnEdits,
+  moveColumnEdits,
+  renameColumnEdits,
+} from "@/lib/column-edits";
+
+const rows = [
+  { id: "P1", Stage: "Stage II", EGFR: 3 },
+  { id: "P2", Stage: "IV", EGFR: null },
+];
+
+describe("column edits", () => {
+  it("adds a derived column that recomputes with its sources and undoes together", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "derive", addColumnEdits(history.current, "stage_ordinal", "parseStageOrdinal(Stage)"));
+    expect(history.current.columns).toEqual(["id", "Stage", "EGFR", "stage_ordinal"]);
+    expect(history.current.rows.map(r => r.stage_ordinal)).toEqual([2, 4]);
+
+    history = commitChange(history, "edit", [cellEdit(history.current, 0, "Stage", "Stage III")!]);
+    expect(history.current.rows[0].stage_ordinal).toBe(3);
+    expect(history.past[1].edits).toHaveLength(2);
+
+    history = undoChange(history);
+    expect(history.current.rows[0]).toEqual({ ...rows[0], stage_ordinal: 2 });
+    history = undoChange(history);
+    expect(history.current.columns).toEqual(["id", "Stage", "EGFR"]);
+    expect(history.current.rows).toEqual(rows);
+  });
+
+  it("renames columns in rows, formulas and original values", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "derive", addColumnEdits(history.current, "logEGFR", "log1p(EGFR)"));
+    const rename = renameColumnEdits(history.current, "EGFR", "EGFR pTPM");
+    history = commitChange(history, "rename", rename);
+
+    expect(history.current.formulas).toEqual({ logEGFR: "log1p(`EGFR pTPM`)" });
+    expect(history.current.rows[0]["EGFR pTPM"]).toBe(3);
+    expect(originalRow(history, 0)).toEqual({ id: "P1", Stage: "Stage II", "EGFR pTPM": 3 });
+    expect(columnRenames(rename)).toEqual(new Map([["EGFR", "EGFR pTPM"]]));
+    expect(columnRenames(rename, false)).toEqual(new Map([["EGFR pTPM", "EGFR"]]));
+  });
+
+  it("moves columns and refuses to delete a column a formula reads", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "move", moveColumnEdits(history.current, "EGFR", 0));
+    expect(history.current.columns).toEqual(["EGFR", "id", "Stage"]);
+
+    history = commitChange(history, "derive", addColumnEdits(history.current, "high", "EGFR > 2"));
+    expect(() => deleteColumnEdits(history.current, "EGFR")).toThrow(/used by derived column/);
+    expect(() => addColumnEdits(history.current, "id")).toThrow(/already exists/);
+
+    history = commitChange(history, "delete", deleteColumnEdits(history.current, "Stage"));
+    expect(history.current.rows[1]).toEqual({ id: "P2", EGFR: null, high: null });
+    history = undoChange(history);
+    expect(history.current.columns).toEqual(["EGFR", "id", "Stage", "high"]);
+    expect(history.current.rows[1].Stage).toBe("IV");
+  });
+});
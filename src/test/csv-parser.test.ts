@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter, parseDelimited } from "@/lib/csv-parser";
+
+describe("parseDelimited", () => {
+  it("handles quoted newlines, escaped quotes, CRLF and a BOM", () => {
+    const text = '\uFEFFSample,Note,age\r\n"P1","line one\r\nline two",61\r\nP2,"say ""hi""",NA\r\n';
+    const table = parseDelimited(text);
+    expect(table.columns).toEqual(["Sample", "Note", "age"]);
+    expect(table.rows).toEqual([
+      { Sample: "P1", Note: "line one\r\nline two", age: 61 },
+      { Sample: "P2", Note: 'say "hi"', age: null },
+    ]);
+    expect(table.errors).toEqual([]);
+  });
+
+  it("keeps whitespace inside quoted fields and trims unquoted ones", () => {
+    const table = parseDelimited('id,label,note\n  P1 , "  ABC ",plain  \nP2, "x" ,"  "\n');
+    expect(table.rows).toEqual([
+      { id: "P1", label: "  ABC ", note: "plain" },
+      { id: "P2", label: "x", note: null },
+    ]);
+    expect(table.errors).toEqual([]);
+  });
+
+  it("keeps ID columns and leading-zero values as strings", () => {
+    const table = parseDelimited("Patient_ID,code,value\n00123,007,1.5\n00456,010,2\n");
+    expect(table.rows[0]).toEqual({ Patient_ID: "00123", code: "007", value: 1.5 });
+    expect(table.columnTypes).toEqual({ Patient_ID: "string", code: "string", value: "number" });
+  });
+
+  it("reports malformed lines instead of parsing them", () => {
+    const table = parseDelimited("a,b\n1,2\n3\n4,5,6\n7,8\n");
+    expect(table.rows).toEqual([{ a: 1, b: 2 }, { a: 7, b: 8 }]);
+    expect(table.errors.map(e => e.line)).toEqual([3, 4]);
+  });
+
+  it("reports unterminated quotes", () => {
+    const table = parseDelimited('a,b\n1,"open\n');
+    expect(table.errors.some(e => e.message.includes("Unterminated"))).toBe(true);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("detects semicolons and tabs", () => {
+    expect(detectDelimiter("a;b;c\n1,5;2;3\n")).toBe(";");
+    expect(detectDelimiter("a\tb\n1\t2\n")).toBe("\t");
+    expect(detectDelimiter("a,b\n1,2\n")).toBe(",");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  cellEdit,
+  commitChange,
+  createHistory,
+  editedCellsByRow,
+  followRow,
+  inverseEdits,
+  isCellEdited,
+  parseCellInput,
+  redoChange,
+  restoreEdits,
+  undoChange,
+} from "@/lib/data-history";
+
+const rows = [
+  { id: "P1", age: 60 },
+  { id: "P2", age: 70 },
+  { id: "P3", age: null },
+];
+
+describe("data history", () => {
+  it("undoes and redoes cell edits, insertions and deletions", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "edit", [cellEdit(history.current, 1, "age", 75)!]);
+    history = commitChange(history, "delete", [{ type: "deleteRow", index: 0, row: rows[0], origin: 0 }]);
+    history = commitChange(history, "add", [{ type: "insertRow", index: 2, row: { id: "P4", age: 50 }, origin: null }]);
+    expect(history.current.rows.map(r => r.id)).toEqual(["P2", "P3", "P4"]);
+    expect(history.current.origins).toEqual([1, 2, null]);
+
+    history = undoChange(undoChange(history));
+    expect(history.current.rows).toEqual([rows[0], { id: "P2", age: 75 }, rows[2]]);
+    expect(history.future).toHaveLength(2);
+
+    history = redoChange(history);
+    expect(history.current.rows.map(r => r.id)).toEqual(["P2", "P3"]);
+    history = undoChange(undoChange(history));
+    expect(history.current.rows).toEqual(rows);
+    expect(history.past).toHaveLength(0);
+  });
+
+  it("tracks original values across row shifts and restores them", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "edit", [cellEdit(history.current, 2, "age", 55)!]);
+    history = commitChange(history, "delete", [{ type: "deleteRow", index: 0, row: rows[0], origin: 0 }]);
+    // P3 is now at index 1 and still compares against its uploaded value
+    expect(isCellEdited(history, 1, "age")).toBe(true);
+    expect(isCellEdited(history, 0, "age")).toBe(false);
+
+    history = commitChange(history, "restore", restoreEdits(history, 1));
+    expect(history.current.rows[1]).toEqual(rows[2]);
+    expect(restoreEdits(history, 1)).toEqual([]);
+  });
+
+  it("lists edited cells of uploaded columns through row and column changes", () => {
+    let history = createHistory(rows);
+    history = commitChange(history, "edit", [cellEdit(history.current, 1, "age", 75)!, cellEdit(history.current, 2, "id", "P3b")!]);
+    history = commitChange(history, "add column", [
+      { type: "insertColumn", index: 2, column: "note", source: null, formula: null, values: ["a", "b", "c"] },
+    ]);
+    history = commitChange(history, "rename", [{ type: "renameColumn", index: 1, before: "age", after: "Age" }]);
+    history = commitChange(history, "derive", [
+      { type: "insertColumn", index: 3, column: "decade", source: null, formula: "Age / 10", values: [null, null, null] },
+    ]);
+    history = commitChange(history, "delete", [{ type: "deleteRow", index: 0, row: history.current.rows[0], origin: 0 }]);
+    history = commitChange(history, "insert", [{ type: "insertRow", index: 0, row: { id: "P9", Age: 1 }, origin: null }]);
+
+    // Added and derived columns and added rows are not edits of uploaded values
+    expect(editedCellsByRow(history)).toEqual(new Map([
+      [1, new Set(["Age"])],
+      [2, new Set(["id"])],
+    ]));
+
+    history = commitChange(history, "revert", [cellEdit(history.current, 1, "Age", 70)!]);
+    expect([...editedCellsByRow(history).keys()]).toEqual([2]);
+    expect(editedCellsByRow(undoChange(history)).get(1)).toEqual(new Set(["Age"]));
+  });
+
+  it("keeps edits restored with a saved table", () => {
+    const edited = [rows[0], { id: "P2", age: 71 }, rows[2]];
+    const history = createHistory(edited, ["id", "age"], { original: rows });
+    expect(history.initialEdits).toEqual([{ row: 1, column: "age" }]);
+    expect(editedCellsByRow(history)).toEqual(new Map([[1, new Set(["age"])]]));
+    expect(createHistory(rows).initialEdits).toEqual([]);
+  });
+
+  it("follows a row through insertions and deletions", () => {
+    const edits = [
+      { type: "deleteRow" as const, index: 0, row: rows[0], origin: 0 },
+      { type: "insertRow" as const, index: 0, row: { id: "P4" }, origin: null },
+      { type: "insertRow" as const, index: 1, row: { id: "P5" }, origin: null },
+    ];
+    expect(followRow(0, edits)).toBeNull();
+    expect(followRow(1, edits)).toBe(2);
+    expect(followRow(2, edits)).toBe(3);
+    expect(followRow(3, inverseEdits(edits))).toBe(2);
+    expect(followRow(1, inverseEdits(edits))).toBeNull();
+  });
+
+  it("parses cell input and skips no-op edits", () => {
+    expect(parseCellInput(" NA ")).toBeNull();
+    expect(parseCellInput("")).toBeNull();
+    expect(parseCellInput("3.5")).toBe(3.5);
+    expect(parseCellInput("IIIA")).toBe("IIIA");
+    const history = createHistory(rows);
+    expect(cellEdit(history.current, 2, "age", undefined)).toBeNull();
+    expect(commitChange(history, "noop", [])).toBe(history);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { computeDrift, driftBins, populationStabilityIndex, trainingCdf } from "@/lib/drift";
+
+const probabilities = [0, 0.25, 0.5, 0.75, 1];
+const uniform = { quantiles: [0, 25, 50, 75, 100], mean: 50, sd: 28.9, missingRate: 0 };
+
+const bundle = () => parseModelBundle({
+  features: ["age", "EGFR_pTPM"],
+  feature_medians: { age: 50, EGFR_pTPM: 1 },
+  training_summary: {
+    n: 200,
+    probabilities,
+    features: {
+      age: { quantiles: uniform.quantiles, mean: 50, sd: 28.9, missing_rate: 0 },
+      EGFR_pTPM: { quantiles: [0, 1, 2, 3, 4], mean: 2, sd: 1, missing_rate: 0 },
+    },
+  },
+  event_times: [100],
+  trees: [{
+    children_left: [-1],
+    children_right: [-1],
+    feature: [-2],
+    threshold: [-2],
+    chf: [[0.1]],
+    survival: [[0.9]],
+  }],
+});
+
+describe("training drift", () => {
+  it("bins values by the training quantiles", () => {
+    expect(trainingCdf(uniform, probabilities, 37.5)).toBeCloseTo(0.375);
+    expect(trainingCdf(uniform, probabilities, -1)).toBe(0);
+    expect(trainingCdf(uniform, probabilities, 100)).toBe(1);
+
+    const bins = driftBins([10, 30, 60, 80], uniform, probabilities);
+    expect(bins.map(b => b.label)).toEqual(["≤ 25", "25–50", "50–75", "> 75"]);
+    expect(bins.every(b => b.expected === 0.25 && b.observed === 0.25)).toBe(true);
+    expect(populationStabilityIndex(bins)).toBe(0);
+  });
+
+  it("flags shifted features and distant patients", () => {
+    const rows = Array.from({ length: 40 }, (_, i) => ({
+      age: 60 + (i % 40),
+      EGFR_pTPM: i < 20 ? (i % 4) + 0.5 : null,
+    }));
+    rows.push({ age: 400, EGFR_pTPM: 30 });
+
+    const report = computeDrift(rows, bundle(), null, true);
+    const age = report?.features.find(f => f.feature === "age");
+    expect(age?.level).toBe("major");
+    expect(age?.ks.pValue).toBeLessThan(0.001);
+    const egfr = report?.features.find(f => f.feature === "EGFR_pTPM");
+    expect(egfr?.missingRate).toBeCloseTo(20 / 41);
+    expect(egfr?.level).toBe("major");
+
+    expect(report?.outliers.map(o => o.row)).toEqual([40]);
+    expect(report?.outliers[0].features[0].feature).toBe("EGFR_pTPM");
+
+    // Preprocessed protein values cannot be compared with the raw summary
+    const preprocessed = computeDrift(rows, bundle(), null, false);
+    expect(preprocessed?.skipped).toEqual([{ feature: "EGFR_pTPM", reason: "Protein values are entered preprocessed" }]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { brierScore, calibrationAt, cumulativeDynamicAUC, evaluatePredictions } from "@/lib/evaluation";
+import { getSurvivalAtTime } from "@/lib/survival-utils";
+
+const uncensored = [
+  { time: 100, event: true },
+  { time: 200, event: true },
+  { time: 300, event: true },
+  { time: 400, event: true },
+];
+
+describe("evaluation metrics", () => {
+  it("reduces to the plain Brier score without censoring", () => {
+    const predicted = [0.2, 0.4, 0.7, 0.9];
+    // Alive after t=250: patients 3 and 4
+    const expected = (0.2 ** 2 + 0.4 ** 2 + 0.3 ** 2 + 0.1 ** 2) / 4;
+    expect(brierScore(uncensored, predicted, 250)).toBeCloseTo(expected, 10);
+  });
+
+  it("gives AUC 1 when earlier deaths have higher predicted risk", () => {
+    const { auc, cases, controls } = cumulativeDynamicAUC(uncensored, [4, 3, 2, 1], 250);
+    expect(auc).toBe(1);
+    expect(cases).toBe(2);
+    expect(controls).toBe(2);
+  });
+
+  it("scores the Kaplan–Meier null model against predicted curves", () => {
+    const samples = uncensored.map(o => ({
+      ...o,
+      survivalData: [
+        { time: 0, probability: 1 },
+        { time: o.time, probability: 0 },
+      ],
+    }));
+    const summary = evaluatePredictions(samples, [250]);
+    expect(summary.timepoints[0].brier).toBe(0);
+    expect(summary.timepoints[0].nullBrier).toBeCloseTo(0.25, 10);
+    expect(summary.integratedBrier).toBe(0);
+    expect(summary.nullIntegratedBrier).toBeGreaterThan(0);
+  });
+
+  it("bins patients by predicted survival for calibration", () => {
+    // Two groups of four: predicted 25% and 75%, observed exactly that at t=300
+    const flat = (probability: number) => [
+      { time: 0, probability: 1 },
+      { time: 1, probability },
+    ];
+    const samples = [
+      ...[100, 150, 200, 400].map(time => ({ time, event: true, survivalData: flat(0.25) })),
+      ...[100, 400, 500, 600].map(time => ({ time, event: true, survivalData: flat(0.75) })),
+    ];
+    const calibration = calibrationAt(samples, 300, 2)!;
+    expect(calibration.bins.map(b => [b.n, b.predicted, b.observed])).toEqual([
+      [4, 0.25, 0.25],
+      [4, 0.75, 0.75],
+    ]);
+    expect(calibration.slope).toBeCloseTo(1, 10);
+    expect(calibration.intercept).toBeCloseTo(0, 10);
+    expect(calibration.ici).toBeCloseTo(0, 10);
+  });
+
+  it("matches per-time lookups when reading each curve once", () => {
+    const samples = [
+      { time: 120, event: true, survivalData: [{ time: 50, probability: 0.9 }, { time: 100, probability: 0.6 }, { time: 300, probability: 0.2 }] },
+      { time: 250, event: false, survivalData: [{ time: 80, probability: 0.95 }, { time: 200, probability: 0.7 }] },
+      { time: 90, event: true, survivalData: [{ time: 60, probability: 0.5 }] },
+      { time: 400, event: false, survivalData: [] },
+      { time: 300, event: true, survivalData: [{ time: 10, probability: 0.99 }, { time: 250, probability: 0.4 }] },
+    ];
+    const summary = evaluatePredictions(samples, [200, 30], [2, 5]);
+    [200, 30].forEach((time, i) => {
+      const predicted = samples.map(s => getSurvivalAtTime(s.survivalData, time));
+      expect(summary.timepoints[i].brier).toBeCloseTo(brierScore(samples, predicted, time), 12);
+    });
+    expect(summary.calibration).toEqual([
+      calibrationAt(samples, 200, 2),
+      calibrationAt(samples, 200, 5),
+      calibrationAt(samples, 30, 2),
+      calibrationAt(samples, 30, 5),
+    ]);
+  });
+});
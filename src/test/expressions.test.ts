@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { compileExpression, ExpressionError, renameReference } from "@/lib/expressions";
+
+const columns = ["Stage", "EGFR_pTPM", "Age", "tumor size"];
+
+describe("expressions", () => {
+  it("evaluates arithmetic, functions and comparisons with precedence", () => {
+    const row = { Stage: "Stage III", EGFR_pTPM: Math.E - 1, Age: 70, "tumor size": 2 };
+    expect(compileExpression("parseStageOrdinal(Stage)", columns).evaluate(row)).toBe(3);
+    expect(compileExpression("log1p(EGFR_pTPM)", columns).evaluate(row)).toBeCloseTo(1);
+    expect(compileExpression("1 + 2 * 3 ^ 2", columns).evaluate(row)).toBe(19);
+    expect(compileExpression("-2 ^ 2", columns).evaluate(row)).toBe(-4);
+    expect(compileExpression("if(Age >= 65 && `tumor size` > 1, 1, 0)", columns).evaluate(row)).toBe(1);
+    expect(compileExpression("Stage == 'stage iii'", columns).evaluate(row)).toBe(1);
+  });
+
+  it("propagates missing values and non-finite results as NA", () => {
+    const row = { Stage: null, EGFR_pTPM: "NA", Age: 0, "tumor size": null };
+    expect(compileExpression("EGFR_pTPM + 1", columns).evaluate(row)).toBeNull();
+    expect(compileExpression("parseStageOrdinal(Stage)", columns).evaluate(row)).toBeNull();
+    expect(compileExpression("1 / Age", columns).evaluate(row)).toBeNull();
+    expect(compileExpression("coalesce(`tumor size`, 0)", columns).evaluate(row)).toBe(0);
+    expect(compileExpression("if(isNA(Stage), NA, 1)", columns).evaluate(row)).toBeNull();
+  });
+
+  it("reports unknown columns, functions and syntax errors", () => {
+    expect(() => compileExpression("Weight * 2", columns)).toThrow(/Unknown column 'Weight'/);
+    expect(() => compileExpression("eval(Age)", columns)).toThrow(/Unknown function 'eval'/);
+    expect(() => compileExpression("Age +", columns)).toThrow(ExpressionError);
+    expect(() => compileExpression("log(Age, 2)", columns)).toThrow(/takes 1 argument/);
+  });
+
+  it("renames column references but not function names", () => {
+    expect(renameReference("log(Age) + `Age` * 2", "Age", "age at diagnosis")).toBe("log(`age at diagnosis`) + `age at diagnosis` * 2");
+    expect(renameReference("log(log)", "log", "x")).toBe("log(x)");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { mulberry32 } from "@/lib/survival-metrics";
+import { createPermutationContext, modelInputMatrix, partialDependence, permuteFeature } from "@/lib/inspection";
+
+// Both trees split on age only, so stage never changes a prediction
+const tree = {
+  children_left: [1, -1, -1],
+  children_right: [2, -1, -1],
+  feature: [0, -2, -2],
+  threshold: [65, -2, -2],
+  chf: [null, [0.1, 0.2], [0.5, 1.0]],
+  survival: [null, [0.9, 0.8], [0.6, 0.4]],
+};
+
+const bundle = parseModelBundle({
+  features: ["age", "stage"],
+  feature_medians: [60, 2],
+  event_times: [100, 200],
+  trees: [tree, tree],
+});
+
+const rows = Array.from({ length: 40 }, (_, i) => ({ age: 45 + i, stage: 1 + (i % 4) }));
+const settings = { rawPtpm: false, mapping: null };
+// Older patients die earlier
+const outcomes = rows.map((row, i) => ({ time: 1000 - row.age * 10, event: i % 3 !== 0 }));
+
+describe("permutation importance", () => {
+  it("measures the drop in concordance and ignores unused features", () => {
+    const X = modelInputMatrix(bundle, rows, settings);
+    const context = createPermutationContext(bundle, X, outcomes);
+    expect(context.metric).toBe("concordance");
+    expect(context.baselineScore).toBeGreaterThan(0.6);
+
+    const random = mulberry32(1);
+    const age = permuteFeature(context, 0, 5, random);
+    const stage = permuteFeature(context, 1, 5, random);
+    expect(age.importance).toBeGreaterThan(0.1);
+    expect(stage).toEqual({ feature: "stage", importance: 0, std: 0 });
+  });
+
+  it("falls back to the change in risk without outcomes", () => {
+    const X = modelInputMatrix(bundle, rows, settings);
+    const context = createPermutationContext(bundle, X, rows.map(() => null));
+    expect(context.metric).toBe("risk");
+    expect(permuteFeature(context, 0, 3, mulberry32(2)).importance).toBeGreaterThan(0);
+  });
+});
+
+describe("partialDependence", () => {
+  it("steps the risk up where the tree splits", () => {
+    const X = modelInputMatrix(bundle, rows, settings);
+    const curve = partialDependence(bundle, X, 0, { target: "risk", time: 150, gridSize: 10, iceSamples: 5 });
+    expect(curve.grid).toHaveLength(10);
+    expect(curve.ice).toHaveLength(5);
+    curve.grid.forEach((x, g) => expect(curve.pdp[g]).toBeCloseTo(x <= 65 ? 0.3 : 1.5));
+
+    const survival = partialDependence(bundle, X, 0, { target: "survival", time: 150 });
+    expect(survival.pdp[0]).toBeCloseTo(0.9);
+    expect(survival.pdp[survival.pdp.length - 1]).toBeCloseTo(0.6);
+  });
+});
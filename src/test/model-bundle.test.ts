@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle, ModelBundleError } from "@/lib/model-bundle";
+
+const validBundle = () => ({
+  format: "rsf-bundle",
+  version: 1,
+  features: ["age", "EGFR_pTPM"],
+  feature_medians: { age: 60, EGFR_pTPM: 1.5 },
+  risk_ref: { q33: 1, q66: 2 },
+  event_times: [100, 200],
+  trees: [
+    {
+      children_left: [1, -1, -1],
+      children_right: [2, -1, -1],
+      feature: [1, -2, -2],
+      threshold: [2.0, -2, -2],
+      chf: [null, [0.1, 0.2], [0.5, 1.0]],
+      survival: [null, [0.9, 0.8], [0.6, 0.4]],
+    },
+  ],
+});
+
+describe("parseModelBundle", () => {
+  it("converts a valid export", () => {
+    const bundle = parseModelBundle(validBundle());
+    expect(bundle.features).toEqual(["age", "EGFR_pTPM"]);
+    expect(bundle.featureCount).toBe(2);
+    expect(bundle.featureMedians.EGFR_pTPM).toBe(1.5);
+    expect(bundle.riskRef).toEqual({ q33: 1, q66: 2 });
+    expect(bundle.trees).toHaveLength(1);
+    expect(Array.from(bundle.trees[0].chf[2]!)).toEqual([0.5, 1.0]);
+  });
+
+  it("rejects a missing required field", () => {
+    const raw: Record<string, unknown> = validBundle();
+    delete raw.event_times;
+    expect(() => parseModelBundle(raw)).toThrow('Missing required field "event_times"');
+  });
+
+  it("rejects leaves with the wrong number of values", () => {
+    const raw = validBundle();
+    raw.trees[0].chf[1] = [0.1];
+    expect(() => parseModelBundle(raw)).toThrow(ModelBundleError);
+    expect(() => parseModelBundle(raw)).toThrow(/expected 2/);
+  });
+
+  it("rejects splits on unknown feature indices", () => {
+    const raw = validBundle();
+    raw.trees[0].feature[0] = 5;
+    expect(() => parseModelBundle(raw)).toThrow(/feature index 5/);
+  });
+
+  it("reads an optional feature schema", () => {
+    const raw = {
+      ...validBundle(),
+      feature_schema: {
+        age: { type: "numeric", min: 18, max: 110, train_min: 30, train_max: 90 },
+        EGFR_pTPM: { type: "categorical", levels: [0, 1] },
+      },
+    };
+    const bundle = parseModelBundle(raw);
+    expect(bundle.featureSchema?.age).toEqual({ type: "numeric", min: 18, max: 110, trainMin: 30, trainMax: 90 });
+    expect(bundle.featureSchema?.EGFR_pTPM.levels).toEqual([0, 1]);
+
+    raw.feature_schema.age.min = 200;
+    expect(() => parseModelBundle(raw)).toThrow(/must not be greater/);
+    expect(() => parseModelBundle({ ...validBundle(), feature_schema: { stage: { type: "numeric" } } })).toThrow(/unknown feature "stage"/);
+  });
+
+  it("reads an optional training summary", () => {
+    const quantiles = [20, 40, 50, 55, 60, 62, 65, 70, 75, 80, 95];
+    const bundle = parseModelBundle({
+      ...validBundle(),
+      training_summary: { n: 400, features: { age: { quantiles, mean: 61, sd: 12, missing_rate: 0.02 } } },
+    });
+    expect(bundle.trainingSummary?.n).toBe(400);
+    expect(bundle.trainingSummary?.probabilities).toHaveLength(11);
+    expect(bundle.trainingSummary?.features.age).toEqual({ quantiles, mean: 61, sd: 12, missingRate: 0.02 });
+
+    const summary = (age: Record<string, unknown>, probabilities?: number[]) =>
+      () => parseModelBundle({ ...validBundle(), training_summary: { probabilities, features: { age } } });
+    expect(summary({ quantiles: [1, 2, 3], mean: 2, sd: 1 })).toThrow(/expected 11/);
+    expect(summary({ quantiles: [3, 2, 1], mean: 2, sd: 1 }, [0, 0.5, 1])).toThrow(/must not decrease/);
+    expect(summary({ quantiles: [1, 2], mean: 2, sd: 1 }, [0.1, 1])).toThrow(/from 0 to 1/);
+  });
+
+  it("rejects missing medians", () => {
+    const raw = validBundle();
+    raw.feature_medians = { age: 60 } as typeof raw.feature_medians;
+    expect(() => parseModelBundle(raw)).toThrow(/EGFR_pTPM/);
+  });
+});
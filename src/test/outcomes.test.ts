@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { matchOutcomes, readOutcome } from "@/lib/outcomes";
+import { getPatientId, type PatientResult } from "@/lib/prediction";
+
+const columns = { time: "OS_time", event: "OS_event" };
+
+describe("readOutcome", () => {
+  it("reads numeric times and recognised event values", () => {
+    expect(readOutcome({ OS_time: "365", OS_event: "Dead" }, columns)).toEqual({ time: 365, event: true });
+    expect(readOutcome({ OS_time: 0, OS_event: 0 }, columns)).toEqual({ time: 0, event: false });
+  });
+
+  it("treats blank and absent follow-up times as missing rather than zero", () => {
+    expect(readOutcome({ OS_time: "", OS_event: 1 }, columns)).toBeNull();
+    expect(readOutcome({ OS_time: "  ", OS_event: 1 }, columns)).toBeNull();
+    expect(readOutcome({ OS_time: null, OS_event: 1 }, columns)).toBeNull();
+    expect(readOutcome({ OS_event: 1 }, columns)).toBeNull();
+  });
+
+  it("rejects negative times and unrecognised events", () => {
+    expect(readOutcome({ OS_time: -5, OS_event: 1 }, columns)).toBeNull();
+    expect(readOutcome({ OS_time: 100, OS_event: "unknown" }, columns)).toBeNull();
+  });
+});
+
+describe("matchOutcomes", () => {
+  const result = (patientId: string, rowIndex: number, riskScore: number): PatientResult => ({
+    patientId,
+    rowIndex,
+    riskScore,
+    riskGroup: null,
+    survivalProbabilities: [],
+    survivalData: [],
+    imputedFeatures: [],
+    imputationFlag: false,
+  });
+
+  it("pairs each prediction with its own row even when IDs repeat", () => {
+    const rows = [
+      { id: "P1", OS_time: 100, OS_event: 1 },
+      { id: "P1", OS_time: 900, OS_event: 0 },
+      { id: "P2", OS_time: "", OS_event: 1 },
+    ];
+    const matched = matchOutcomes([result("P1", 0, 2), result("P1", 1, 1), result("P2", 2, 0)], rows, columns);
+    expect(matched.map(m => [m.riskScore, m.time, m.event])).toEqual([[2, 100, true], [1, 900, false]]);
+  });
+});
+
+describe("getPatientId", () => {
+  it("falls back to the row position when the ID is blank or missing", () => {
+    expect(getPatientId({ id: "P7" }, 0, "id")).toBe("P7");
+    expect(getPatientId({ id: 0 }, 0, "id")).toBe("0");
+    expect(getPatientId({ id: " " }, 1, "id")).toBe("Patient_2");
+    expect(getPatientId({ id: null }, 2, "id")).toBe("Patient_3");
+    expect(getPatientId({}, 3, "id")).toBe("Patient_4");
+    expect(getPatientId({ id: "P7" }, 4, null)).toBe("Patient_5");
+  });
+});
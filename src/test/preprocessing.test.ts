@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import {
+  buildFeatureVector,
+  imputeMissing,
+  prepareModelInput,
+  preprocessFeatureVector,
+  transformPtpmValue,
+} from "@/lib/preprocessing";
+
+const bundle = (scaler?: Record<string, unknown>) => parseModelBundle({
+  features: ["age", "EGFR_pTPM"],
+  feature_medians: { age: 60, EGFR_pTPM: 0.5 },
+  scaler,
+  event_times: [100],
+  trees: [{
+    children_left: [-1],
+    children_right: [-1],
+    feature: [-2],
+    threshold: [-2],
+    chf: [[0.1]],
+    survival: [[0.9]],
+  }],
+});
+
+describe("pTPM preprocessing", () => {
+  it("log1p-transforms and applies the standard or minmax scaler", () => {
+    const logged = Math.log1p(9);
+    expect(transformPtpmValue(9, "EGFR_pTPM")).toBeCloseTo(logged);
+    expect(transformPtpmValue(9, "EGFR_pTPM", { type: "standard", mean: { EGFR_pTPM: 1 }, std: { EGFR_pTPM: 2 } }))
+      .toBeCloseTo((logged - 1) / 2);
+    expect(transformPtpmValue(9, "EGFR_pTPM", { type: "minmax", min: { EGFR_pTPM: 1 }, max: { EGFR_pTPM: 3 } }))
+      .toBeCloseTo((logged - 1) / 2);
+  });
+
+  it("treats negative and non-numeric input as missing", () => {
+    expect(transformPtpmValue(-1, "EGFR_pTPM")).toBeNaN();
+    expect(transformPtpmValue(-0.5, "EGFR_pTPM")).toBeNaN();
+    const x = buildFeatureVector({ age: "sixty", EGFR_pTPM: "high" }, ["age", "EGFR_pTPM"]);
+    expect(Array.from(x).every(Number.isNaN)).toBe(true);
+    expect(preprocessFeatureVector(x, bundle(), true)[1]).toBeNaN();
+  });
+
+  it("transforms only pTPM features, and only with raw pTPM input on", () => {
+    const model = bundle({ type: "standard", mean: { EGFR_pTPM: 1 }, std: { EGFR_pTPM: 2 } });
+    const x = Float64Array.from([70, 9]);
+    expect(Array.from(preprocessFeatureVector(x, model, true))).toEqual([70, (Math.log1p(9) - 1) / 2]);
+    expect(Array.from(preprocessFeatureVector(x, model, false))).toEqual([70, 9]);
+    // The input vector is left untouched
+    expect(Array.from(x)).toEqual([70, 9]);
+  });
+});
+
+describe("imputation", () => {
+  it("fills missing values with medians in model space, after preprocessing", () => {
+    const model = bundle({ type: "standard", mean: { EGFR_pTPM: 1 }, std: { EGFR_pTPM: 2 } });
+    const input = prepareModelInput({ age: 70, EGFR_pTPM: null }, model, true);
+    expect(input.imputed).toEqual(["EGFR_pTPM"]);
+    // The median is used as is, not log1p-transformed and scaled again
+    expect(input.values[1]).toBe(0.5);
+    expect(input.raw[1]).toBeNaN();
+
+    const { values } = imputeMissing(Float64Array.from([NaN, 2]), model);
+    expect(Array.from(values)).toEqual([60, 2]);
+  });
+
+  it("flags patients with more than 20% of features imputed", () => {
+    const features = ["a", "b", "c", "d", "e"];
+    const model = parseModelBundle({
+      features,
+      feature_medians: Object.fromEntries(features.map(f => [f, 0])),
+      event_times: [100],
+      trees: [{ children_left: [-1], children_right: [-1], feature: [-2], threshold: [-2], chf: [[0.1]], survival: [[0.9]] }],
+    });
+    const row = (missing: number) => Object.fromEntries(features.map((f, i) => [f, i < missing ? null : 1]));
+    // Exactly 20% imputed is not flagged
+    expect(prepareModelInput(row(1), model, false).flagged).toBe(false);
+    expect(prepareModelInput(row(2), model, false).flagged).toBe(true);
+  });
+});
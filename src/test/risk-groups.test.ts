@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { classifyRisk } from "@/lib/survival-utils";
+import { manualScheme, optimalCutpoint, quantileScheme, referenceScheme, riskGroupTone } from "@/lib/risk-groups";
+
+describe("risk groups", () => {
+  it("keeps the bundle's q33/q66 split as the reference scheme", () => {
+    const scheme = referenceScheme({ q33: 1, q66: 2 })!;
+    expect(classifyRisk(1, scheme)).toEqual({ group: "Low", threshold: 1 });
+    expect(classifyRisk(1.5, scheme).group).toBe("Intermediate");
+    expect(classifyRisk(3, scheme).group).toBe("High");
+    expect(classifyRisk(3, null).group).toBeNull();
+  });
+
+  it("supports 2–5 groups from manual thresholds and cohort quantiles", () => {
+    const manual = manualScheme([5, 1, 3]);
+    expect(manual.thresholds).toEqual([1, 3, 5]);
+    expect(manual.labels).toEqual(["Low", "Low-Intermediate", "High-Intermediate", "High"]);
+
+    const quantiles = quantileScheme([1, 2, 3, 4, 5], 2);
+    expect(quantiles.thresholds).toEqual([3]);
+    expect(quantiles.labels.map(label => riskGroupTone(label, quantiles.labels))).toEqual(["low", "high"]);
+  });
+
+  it("finds the cutpoint that separates early from late deaths", () => {
+    const data = Array.from({ length: 20 }, (_, i) => ({
+      riskScore: i,
+      time: i < 12 ? 1000 - i : 100 + i,
+      event: true,
+    }));
+    const best = optimalCutpoint(data)!;
+    expect(best.cutpoint).toBe(11);
+    expect(best.lowerCount).toBe(12);
+    expect(best.pValue).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { predictForest } from "@/lib/rsf";
+import { buildFeatureVector } from "@/lib/preprocessing";
+
+const bundle = parseModelBundle({
+  features: ["age", "EGFR_pTPM"],
+  feature_medians: [60, 1.5],
+  event_times: [100, 200],
+  trees: [
+    {
+      children_left: [1, -1, -1],
+      children_right: [2, -1, -1],
+      feature: [1, -2, -2],
+      threshold: [2.0, -2, -2],
+      chf: [null, [0.1, 0.2], [0.5, 1.0]],
+      survival: [null, [0.9, 0.8], [0.6, 0.4]],
+    },
+    {
+      children_left: [1, -1, -1],
+      children_right: [2, -1, -1],
+      feature: [0, -2, -2],
+      threshold: [65, -2, -2],
+      chf: [null, [0.1, 0.4], [0.3, 0.6]],
+      survival: [null, [0.9, 0.7], [0.7, 0.5]],
+    },
+  ],
+});
+
+describe("predictForest", () => {
+  it("averages terminal-node functions over the forest", () => {
+    const prediction = predictForest(bundle, [70, 1.0]);
+    // tree 0 -> left leaf, tree 1 -> right leaf
+    expect(Array.from(prediction.cumulativeHazard)).toEqual([0.2, 0.4]);
+    expect(prediction.riskScore).toBeCloseTo(0.6);
+    expect(prediction.survivalData).toEqual([
+      { time: 0, probability: 1 },
+      { time: 100, probability: 0.8 },
+      { time: 200, probability: 0.65 },
+    ]);
+  });
+
+  it("is deterministic", () => {
+    const x = buildFeatureVector({ age: 50, EGFR_pTPM: "3.2" }, bundle.features);
+    expect(predictForest(bundle, x)).toEqual(predictForest(bundle, x));
+  });
+});
+
+describe("buildFeatureVector", () => {
+  it("orders values by feature and marks missing cells as NaN", () => {
+    const x = buildFeatureVector({ EGFR_pTPM: null, age: 61, extra: 5 }, bundle.features);
+    expect(x[0]).toBe(61);
+    expect(Number.isNaN(x[1])).toBe(true);
+  });
+
+  it("reads features from mapped columns", () => {
+    const x = buildFeatureVector({ Age: 61, egfr: 2 }, bundle.features, { age: "Age", EGFR_pTPM: null });
+    expect(x[0]).toBe(61);
+    expect(Number.isNaN(x[1])).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { alignSchema, headerSignature, loadSavedMapping, normalizeColumnName, saveMapping } from "@/lib/schema-mapping";
+
+describe("schema alignment", () => {
+  it("matches exactly, then by case, separators and the _pTPM suffix", () => {
+    const alignment = alignSchema(
+      ["age", "Stage ", "egfr-ptpm", "KRAS", "notes"],
+      ["age", "stage", "EGFR_pTPM", "KRAS_pTPM", "TP53_pTPM"]
+    );
+    expect(alignment.matched).toEqual(["age"]);
+    expect(alignment.mapping).toEqual({ age: "age", stage: null, EGFR_pTPM: null, KRAS_pTPM: null, TP53_pTPM: null });
+    expect(alignment.suggestions).toEqual([
+      { feature: "stage", column: "Stage ", reason: "Differs in case or whitespace" },
+      { feature: "EGFR_pTPM", column: "egfr-ptpm", reason: "Differs in separators or _pTPM suffix" },
+      { feature: "KRAS_pTPM", column: "KRAS", reason: "Differs in separators or _pTPM suffix" },
+    ]);
+    expect(alignment.missing).toEqual(["TP53_pTPM"]);
+    expect(alignment.extra).toEqual(["notes"]);
+    expect(normalizeColumnName(" ki-67_pTPM")).toBe("KI67");
+  });
+
+  it("suggests known gene aliases", () => {
+    const alignment = alignSchema(["HER2", "PD-L1", "Ki67"], ["ERBB2_pTPM", "CD274_pTPM", "MKI67_pTPM"]);
+    expect(alignment.suggestions.map(s => [s.feature, s.column, s.reason])).toEqual([
+      ["ERBB2_pTPM", "HER2", "Known gene alias"],
+      ["CD274_pTPM", "PD-L1", "Known gene alias"],
+      ["MKI67_pTPM", "Ki67", "Known gene alias"],
+    ]);
+  });
+
+  it("prefers the closest candidate and suggests each column once", () => {
+    // The separator variant wins over the alias; the alias column stays unused
+    expect(alignSchema(["HER2", "erbb2"], ["ERBB2_pTPM"]).suggestions[0].column).toBe("erbb2");
+
+    const alignment = alignSchema(["egfr"], ["EGFR", "EGFR_pTPM"]);
+    expect(alignment.suggestions).toEqual([{ feature: "EGFR", column: "egfr", reason: "Differs in case or whitespace" }]);
+    expect(alignment.missing).toEqual(["EGFR_pTPM"]);
+  });
+});
+
+describe("saved mappings", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("reapplies a mapping to the same header set only", () => {
+    const columns = ["id", "years", "HER2"];
+    saveMapping(columns, { age: "years", ERBB2_pTPM: "HER2" });
+
+    // Same headers in another order share the signature
+    expect(headerSignature(["HER2", "id", "years"])).toBe(headerSignature(columns));
+    expect(loadSavedMapping(["HER2", "id", "years"], ["age", "ERBB2_pTPM"])).toEqual({ age: "years", ERBB2_pTPM: "HER2" });
+    expect(loadSavedMapping(["id", "years", "HER2", "extra"], ["age", "ERBB2_pTPM"])).toBeNull();
+    // A model with features the mapping does not cover is not served from it
+    expect(loadSavedMapping(columns, ["age", "ERBB2_pTPM", "TP53_pTPM"])).toBeNull();
+  });
+
+  it("ignores unreadable storage", () => {
+    localStorage.setItem("rsf-column-mappings", "{not json");
+    expect(loadSavedMapping(["a"], ["a"])).toBeNull();
+  });
+});
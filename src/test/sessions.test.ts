@@ -0,0 +1,102 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  deleteSession,
+  duplicateSession,
+  getLastSessionId,
+  listSessions,
+  loadSession,
+  saveSession,
+  setLastSessionId,
+  type SessionState,
+} from "@/lib/sessions";
+
+const state = (patients: number): SessionState => ({
+  modelFile: null,
+  dataFile: null,
+  patientData: Array.from({ length: patients }, (_, i) => ({ id: `P${i}`, age: 50 + i })),
+  originalData: Array.from({ length: patients }, (_, i) => ({ id: `P${i}`, age: 50 + i })),
+  rowOrigins: Array.from({ length: patients }, (_, i) => i),
+  columns: ["id", "age"],
+  columnSources: ["id", "age"],
+  formulas: {},
+  idColumn: "id",
+  outcomeColumns: { time: null, event: null },
+  columnMapping: { age: "age" },
+  riskScheme: null,
+  settings: { rawPtpm: true, timepoints: [1, 3, 5], chartMode: "single" },
+  results: [],
+});
+
+let nextId = 0;
+const session = (name: string, createdAt = 1000) => ({ id: `session-${++nextId}`, name, createdAt });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe("sessions", () => {
+  it("round-trips the full state with a summary", async () => {
+    const target = session("Cohort A");
+    const summary = await saveSession(target, state(3));
+    expect(summary).toMatchObject({ ...target, patientCount: 3, resultCount: 0, modelName: null, dataName: null });
+
+    const record = await loadSession(target.id);
+    expect(record).toMatchObject(summary);
+    expect(record?.state).toEqual(state(3));
+  });
+
+  it("overwrites a session saved again under the same id", async () => {
+    const target = session("Cohort B");
+    await saveSession(target, state(3));
+    await saveSession(target, state(5));
+    expect((await loadSession(target.id))?.state.patientData).toHaveLength(5);
+    expect((await listSessions()).filter(s => s.id === target.id)).toHaveLength(1);
+  });
+
+  it("lists the most recently updated session first", async () => {
+    const older = session("Older");
+    const newer = session("Newer");
+    vi.spyOn(Date, "now").mockReturnValue(9_000_000_000_000);
+    await saveSession(newer, state(1));
+    vi.spyOn(Date, "now").mockReturnValue(8_000_000_000_000);
+    await saveSession(older, state(1));
+
+    const ids = (await listSessions()).map(s => s.id);
+    expect(ids.slice(0, 2)).toEqual([newer.id, older.id]);
+  });
+
+  it("duplicates a session under a new id and name", async () => {
+    const source = session("Original");
+    await saveSession(source, state(2));
+    const copy = await duplicateSession(source.id, "Copy");
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.name).toBe("Copy");
+    expect((await loadSession(copy.id))?.state).toEqual(state(2));
+  });
+
+  it("deletes a session and forgets it as the last one opened", async () => {
+    const target = session("Doomed");
+    await saveSession(target, state(1));
+    setLastSessionId(target.id);
+
+    await deleteSession(target.id);
+    expect(await loadSession(target.id)).toBeNull();
+    expect(getLastSessionId()).toBeNull();
+  });
+
+  it("keeps the last session id when another session is deleted", async () => {
+    const kept = session("Kept");
+    const other = session("Other");
+    await saveSession(other, state(1));
+    setLastSessionId(kept.id);
+    await deleteSession(other.id);
+    expect(getLastSessionId()).toBe(kept.id);
+  });
+
+  it("returns null for unknown sessions and rejects duplicating them", async () => {
+    expect(await loadSession("missing")).toBeNull();
+    await expect(duplicateSession("missing", "Copy")).rejects.toThrow("Session not found");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  bootstrapCI,
+  harrellC,
+  kaplanMeier,
+  logRankTest,
+  riskTableCounts,
+  medianSurvival,
+  survivalAt,
+  unoC,
+  type ScoredObservation,
+  type SurvivalObservation,
+} from "@/lib/survival-metrics";
+import { chiSquarePValue } from "@/lib/statistics";
+import { parseEventValue } from "@/lib/outcomes";
+
+function bruteForceHarrell(data: ScoredObservation[]): number {
+  let concordant = 0;
+  let comparable = 0;
+  for (const a of data) {
+    for (const b of data) {
+      if (!a.event || a.time >= b.time) continue;
+      comparable++;
+      if (a.riskScore > b.riskScore) concordant++;
+      else if (a.riskScore === b.riskScore) concordant += 0.5;
+    }
+  }
+  return concordant / comparable;
+}
+
+// Acute myelogenous leukemia data (R survival::aml); "+" marks censoring
+const parse = (values: string): SurvivalObservation[] =>
+  values.split(" ").map(v => ({ time: parseFloat(v), event: !v.endsWith("+") }));
+const maintained = parse("9 13 13+ 18 23 28+ 31 34 45+ 48 161+");
+const nonmaintained = parse("5 5 8 8 12 16+ 23 27 30 33 43 45");
+
+const sample: ScoredObservation[] = [
+  { time: 100, event: true, riskScore: 9 },
+  { time: 200, event: false, riskScore: 7 },
+  { time: 250, event: true, riskScore: 7 },
+  { time: 250, event: true, riskScore: 8 },
+  { time: 400, event: false, riskScore: 3 },
+  { time: 500, event: true, riskScore: 5 },
+  { time: 800, event: false, riskScore: 5 },
+  { time: 900, event: false, riskScore: 1 },
+];
+
+describe("survival metrics", () => {
+  it("matches the pairwise definition of Harrell's C including ties", () => {
+    expect(harrellC(sample)).toBeCloseTo(bruteForceHarrell(sample), 10);
+  });
+
+  it("gives 1 for a perfectly ranked cohort", () => {
+    const perfect = sample.map(o => ({ ...o, riskScore: -o.time }));
+    expect(harrellC(perfect)).toBe(1);
+    expect(unoC(perfect)).toBe(1);
+  });
+
+  it("computes the Kaplan–Meier product-limit estimate", () => {
+    const curve = kaplanMeier(sample);
+    expect(survivalAt(curve, 99)).toBe(1);
+    expect(survivalAt(curve, 100)).toBeCloseTo(7 / 8, 10);
+    expect(survivalAt(curve, 250)).toBeCloseTo((7 / 8) * (4 / 6), 10);
+  });
+
+  it("produces a reproducible bootstrap interval around the estimate", () => {
+    const first = bootstrapCI(sample, harrellC, { replicates: 50 });
+    const second = bootstrapCI(sample, harrellC, { replicates: 50 });
+    expect(first).toEqual(second);
+    expect(first.lower).toBeLessThanOrEqual(first.estimate);
+    expect(first.upper).toBeGreaterThanOrEqual(first.estimate);
+  });
+
+  it("reads common event encodings", () => {
+    expect(["1", "Dead", "TRUE", 1].map(parseEventValue)).toEqual([true, true, true, true]);
+    expect(["0", "alive", "censored"].map(parseEventValue)).toEqual([false, false, false]);
+    expect(parseEventValue("unknown")).toBeNull();
+  });
+
+  it("matches survdiff on the AML data", () => {
+    const result = logRankTest([maintained, nonmaintained])!;
+    expect(result.df).toBe(1);
+    expect(result.chiSquare).toBeCloseTo(3.4, 1);
+    expect(result.pValue).toBeCloseTo(0.0653, 3);
+    expect(result.observed).toEqual([7, 11]);
+  });
+
+  it("reports median survival and Greenwood bands", () => {
+    const curve = kaplanMeier(maintained);
+    expect(medianSurvival(curve)).toBe(31);
+    expect(medianSurvival(kaplanMeier(nonmaintained))).toBe(23);
+    curve.forEach(step => {
+      expect(step.lower).toBeLessThanOrEqual(step.survival);
+      expect(step.upper).toBeGreaterThanOrEqual(step.survival);
+    });
+  });
+
+  it("computes chi-square tail probabilities", () => {
+    expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 5);
+    expect(chiSquarePValue(5.991465, 2)).toBeCloseTo(0.05, 5);
+  });
+
+  it("counts patients at risk with cumulative events and censorings", () => {
+    const entries = riskTableCounts(kaplanMeier(maintained), [0, 13, 30, 200]);
+    expect(entries).toEqual([
+      { time: 0, atRisk: 11, events: 0, censored: 0 },
+      { time: 13, atRisk: 10, events: 2, censored: 1 },
+      { time: 30, atRisk: 5, events: 4, censored: 2 },
+      { time: 200, atRisk: 0, events: 7, censored: 4 },
+    ]);
+  });
+});
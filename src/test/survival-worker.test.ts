@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { predictPatient, type PredictionSettings } from "@/lib/prediction";
+import { PREDICTION_CHUNK_SIZE, type WorkerResponse } from "@/lib/survival-worker";
+import { createRequestHandler } from "@/workers/survival-handler";
+
+const forest = (chf: number) => parseModelBundle({
+  features: ["age"],
+  feature_medians: { age: 60 },
+  event_times: [365],
+  trees: [{
+    children_left: [-1],
+    children_right: [-1],
+    feature: [-2],
+    threshold: [-2],
+    chf: [[chf]],
+    survival: [[Math.exp(-chf)]],
+  }],
+});
+
+const settings: PredictionSettings = { rawPtpm: false, mapping: null, idColumn: null, timepoints: [1] };
+const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ age: 50 + (i % 30) }));
+
+function setup() {
+  const responses: WorkerResponse[] = [];
+  const handle = createRequestHandler(response => responses.push(response));
+  return { responses, handle };
+}
+
+describe("survival worker", () => {
+  it("streams predictions in chunks and then completes", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "setModel", id: 1, bundle: forest(0.2) });
+    await handle({ type: "predict", id: 2, rows: rows(PREDICTION_CHUNK_SIZE + 10), settings });
+
+    const chunks = responses.filter(r => r.type === "chunk");
+    expect(chunks.map(r => r.type === "chunk" && [r.results.length, r.done, r.total])).toEqual([
+      [PREDICTION_CHUNK_SIZE, PREDICTION_CHUNK_SIZE, PREDICTION_CHUNK_SIZE + 10],
+      [10, PREDICTION_CHUNK_SIZE + 10, PREDICTION_CHUNK_SIZE + 10],
+    ]);
+    expect(responses[responses.length - 1]).toEqual({ type: "complete", id: 2 });
+  });
+
+  it("computes concordance without a model loaded", async () => {
+    const { responses, handle } = setup();
+    const data = [100, 200, 300, 400].map((time, i) => ({ time, event: true, riskScore: 4 - i }));
+    await handle({ type: "concordance", id: 4, data });
+    const reply = responses[0];
+    expect(reply.type).toBe("concordance");
+    if (reply.type === "concordance") expect(reply.result.harrell.estimate).toBe(1);
+  });
+
+  it("evaluates predicted curves without a model loaded", async () => {
+    const { responses, handle } = setup();
+    const samples = [100, 200, 300, 400].map(time => ({
+      time,
+      event: true,
+      survivalData: [{ time: 0, probability: 1 }, { time, probability: 0 }],
+    }));
+    await handle({ type: "evaluation", id: 8, samples, timepoints: [250], binCounts: [2] });
+    const reply = responses[0];
+    expect(reply.type).toBe("evaluation");
+    if (reply.type === "evaluation") {
+      expect(reply.result.timepoints[0].brier).toBe(0);
+      expect(reply.result.calibration.map(c => [c.time, c.binCount])).toEqual([[250, 2]]);
+    }
+  });
+
+  it("reports drift against the loaded model", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "drift", id: 5, rows: rows(3), mapping: null, rawPtpm: false });
+    await handle({ type: "setModel", id: 6, bundle: forest(0.2) });
+    // Without a training summary there is nothing to compare with
+    await handle({ type: "drift", id: 7, rows: rows(3), mapping: null, rawPtpm: false });
+    expect(responses.filter(r => r.id !== 6)).toEqual([
+      { type: "error", id: 5, message: "No model bundle loaded" },
+      { type: "drift", id: 7, result: null },
+    ]);
+  });
+
+  it("writes one single-page PDF per patient", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "setModel", id: 1, bundle: forest(0.2) });
+    const patients = rows(3).map((row, i) => ({
+      row,
+      uploadedRow: i,
+      result: predictPatient(forest(0.2), row, i, settings),
+      outlier: null,
+      editedValues: 0,
+    }));
+    const context = { modelFileName: null, dataFileName: null, cohortSize: 3, settings, riskGroups: [], generatedAt: "2024-05-01T10:30:00.000Z" };
+    await handle({ type: "report", id: 2, patients, context });
+
+    const reply = responses[responses.length - 1];
+    expect(reply.type).toBe("report");
+    if (reply.type === "report") {
+      const texts = reply.pdfs.map(pdf => Array.from(pdf, b => String.fromCharCode(b)).join(""));
+      expect(texts).toHaveLength(3);
+      texts.forEach((text, i) => {
+        expect(text).toContain("/Count 1");
+        expect(text).toContain(`(Survival report Patient_${i + 1})`);
+      });
+    }
+  });
+
+  it("replies with an error when a job fails", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "predict", id: 7, rows: rows(1), settings });
+    expect(responses).toEqual([{ type: "error", id: 7, message: "No model bundle loaded" }]);
+  });
+
+  it("stops a job cancelled between chunks and ignores late cancels", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "setModel", id: 1, bundle: forest(0.2) });
+    const job = handle({ type: "predict", id: 2, rows: rows(3 * PREDICTION_CHUNK_SIZE), settings });
+    await handle({ type: "cancel", id: 2 });
+    await job;
+    expect(responses.filter(r => r.id === 2).map(r => r.type)).toEqual(["cancelled"]);
+
+    // A cancel after the job finished must not cancel a later job with the same id
+    await handle({ type: "predict", id: 3, rows: rows(1), settings });
+    await handle({ type: "cancel", id: 3 });
+    await handle({ type: "predict", id: 3, rows: rows(1), settings });
+    expect(responses.filter(r => r.id === 3).map(r => r.type)).toEqual(["chunk", "complete", "chunk", "complete"]);
+  });
+
+  it("keeps using the model a job started with when a new one arrives", async () => {
+    const { responses, handle } = setup();
+    await handle({ type: "setModel", id: 1, bundle: forest(0.2) });
+    const job = handle({ type: "predict", id: 2, rows: rows(2 * PREDICTION_CHUNK_SIZE), settings });
+    await handle({ type: "setModel", id: 3, bundle: forest(0.9) });
+    await job;
+
+    const scores = responses.flatMap(r => (r.type === "chunk" ? r.results.map(p => p.riskScore) : []));
+    expect(scores).toHaveLength(2 * PREDICTION_CHUNK_SIZE);
+    expect(new Set(scores).size).toBe(1);
+
+    await handle({ type: "predict", id: 4, rows: rows(1), settings });
+    const next = responses.find(r => r.type === "chunk" && r.id === 4);
+    expect(next?.type === "chunk" && next.results[0].riskScore).not.toBe(scores[0]);
+  });
+});
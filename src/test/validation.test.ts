@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { cellEdit, commitChange, createHistory, editsBetween, undoChange, type DataHistory } from "@/lib/data-history";
+import { cellKey, rejectInvalidEdits, revalidateEdits, validateTable, validateValue, type ValidationReport } from "@/lib/validation";
+
+const bundle = (schema?: Record<string, unknown>) => parseModelBundle({
+  features: ["age", "EGFR_pTPM", "sex"],
+  feature_medians: { age: 60, EGFR_pTPM: 1.5, sex: 0 },
+  feature_schema: schema,
+  event_times: [100],
+  trees: [{
+    children_left: [-1],
+    children_right: [-1],
+    feature: [-2],
+    threshold: [-2],
+    chf: [[0.1]],
+    survival: [[0.9]],
+  }],
+});
+
+describe("feature validation", () => {
+  it("falls back to numeric pTPM and plausible age checks without a schema", () => {
+    const rows = [
+      { age: 64, EGFR_pTPM: 2.5, sex: 1 },
+      { age: 640, EGFR_pTPM: -1, sex: null },
+      { age: "unknown", EGFR_pTPM: "high", sex: "M" },
+    ];
+    const report = validateTable(rows, bundle(), null, true);
+    expect(report.errorCount).toBe(5);
+    expect(report.cells.get(cellKey(1, "age"))?.message).toMatch(/maximum of 120/);
+    expect(report.cells.get(cellKey(1, "EGFR_pTPM"))?.message).toMatch(/minimum of 0/);
+    expect(report.cells.has(cellKey(1, "sex"))).toBe(false);
+
+    // Preprocessed protein values may be negative
+    expect(validateTable(rows, bundle(), null, false).cells.has(cellKey(1, "EGFR_pTPM"))).toBe(false);
+  });
+
+  it("checks categorical levels and flags values outside the training range", () => {
+    const report = validateTable(
+      [{ years: 95, EGFR_pTPM: 1, sex: "F" }],
+      bundle({ age: { type: "numeric", train_min: 30, train_max: 90 }, sex: { type: "categorical", levels: ["m", "f"] } }),
+      { age: "years", EGFR_pTPM: "EGFR_pTPM", sex: "sex" },
+      true
+    );
+    expect(report.errorCount).toBe(0);
+    expect(report.issues).toEqual([
+      { row: 0, column: "years", feature: "age", severity: "warning", message: "Outside the training range 30–90" },
+    ]);
+    expect(validateValue("X", { type: "categorical", levels: ["m", "f"] })?.severity).toBe("error");
+  });
+
+  it("revalidates only edited cells and moves issues with inserted and deleted rows", () => {
+    const model = bundle();
+    let history = createHistory([
+      { age: 640, EGFR_pTPM: 1, sex: 0 },
+      { age: 50, EGFR_pTPM: -2, sex: 1 },
+      { age: 70, EGFR_pTPM: 3, sex: 0 },
+    ]);
+    let report: ValidationReport = validateTable(history.current.rows, model, null, true);
+    const step = (next: DataHistory) => {
+      const edits = editsBetween(history, next);
+      expect(edits).not.toBeNull();
+      report = revalidateEdits(report, next.current.rows, edits!)!;
+      history = next;
+      // Same result as validating the whole table again
+      expect(report).toEqual(validateTable(history.current.rows, model, null, true));
+    };
+
+    step(commitChange(history, "fix age", [cellEdit(history.current, 0, "age", 64)!]));
+    step(commitChange(history, "break", [cellEdit(history.current, 2, "sex", "M")!]));
+    step(commitChange(history, "insert", [{ type: "insertRow", index: 0, row: { age: "old", EGFR_pTPM: 1, sex: 0 }, origin: null }]));
+    step(commitChange(history, "delete", [{ type: "deleteRow", index: 2, row: history.current.rows[2], origin: 1 }]));
+    expect(report.issues.map(i => [i.row, i.column])).toEqual([[0, "age"], [2, "sex"]]);
+    step(undoChange(history));
+    step(undoChange(history));
+
+    const renamed = commitChange(history, "rename", [{ type: "renameColumn", index: 0, before: "age", after: "Age" }]);
+    expect(revalidateEdits(report, renamed.current.rows, editsBetween(history, renamed)!)).toBeNull();
+    expect(editsBetween(history, createHistory(history.current.rows))).toBeNull();
+  });
+
+  it("rejects range edits whose values break the schema", () => {
+    const history = createHistory([
+      { age: 64, EGFR_pTPM: 1, sex: 0, note: "" },
+      { age: 50, EGFR_pTPM: 2, sex: 1, note: "" },
+    ]);
+    const report = validateTable(history.current.rows, bundle(), null, true);
+    const edits = [
+      cellEdit(history.current, 0, "age", 200)!,
+      cellEdit(history.current, 1, "age", 55)!,
+      cellEdit(history.current, 1, "EGFR_pTPM", -1)!,
+      cellEdit(history.current, 0, "note", "anything")!,
+      { type: "deleteRow" as const, index: 1, row: history.current.rows[1], origin: 1 },
+    ];
+    const { accepted, rejected } = rejectInvalidEdits(report, edits);
+    expect(accepted).toEqual([edits[1], edits[3], edits[4]]);
+    expect(rejected.map(issue => [issue.row, issue.column, issue.feature])).toEqual([[0, "age", "age"], [1, "EGFR_pTPM", "EGFR_pTPM"]]);
+    expect(rejectInvalidEdits(null, edits).accepted).toEqual(edits);
+  });
+});
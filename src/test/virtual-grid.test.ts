@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { visibleRange } from "@/hooks/use-virtual-grid";
+
+describe("visibleRange", () => {
+  it("covers the viewport plus overscan", () => {
+    expect(visibleRange(0, 100, 32, 1000, 2)).toEqual({ start: 0, end: 6 });
+    expect(visibleRange(3200, 100, 32, 1000, 2)).toEqual({ start: 98, end: 106 });
+  });
+
+  it("clamps to the item count", () => {
+    expect(visibleRange(31990, 400, 32, 1000, 3)).toEqual({ start: 996, end: 1000 });
+    expect(visibleRange(0, 400, 32, 0, 3)).toEqual({ start: 0, end: 0 });
+    expect(visibleRange(-50, 100, 32, 10, 0)).toEqual({ start: 0, end: 4 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { WhatIfPanel } from "@/components/survival/WhatIfPanel";
+import { parseModelBundle } from "@/lib/model-bundle";
+import { predictPatient, type PatientResult, type PredictionSettings } from "@/lib/prediction";
+
+// Splits on age so that changing it moves the risk score
+const bundle = parseModelBundle({
+  features: ["age", "sex"],
+  feature_medians: { age: 60, sex: 0 },
+  feature_schema: { sex: { type: "categorical", levels: [0, 1] } },
+  event_times: [365],
+  trees: [{
+    children_left: [1, -1, -1],
+    children_right: [2, -1, -1],
+    feature: [0, -2, -2],
+    threshold: [65, -2, -2],
+    chf: [[0.3], [0.1], [0.6]],
+    survival: [[0.74], [0.9], [0.55]],
+  }],
+});
+
+const settings: PredictionSettings = { rawPtpm: false, mapping: null, idColumn: null, timepoints: [1] };
+const cohort = [{ age: 50, sex: 0 }, { age: 80, sex: 1 }];
+
+beforeAll(() => {
+  // Radix primitives rely on layout APIs that jsdom does not implement
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+  Element.prototype.scrollIntoView ??= () => {};
+  Element.prototype.hasPointerCapture ??= () => false;
+});
+
+function renderPanel() {
+  const onPredictionChange = vi.fn<(result: PatientResult | null) => void>();
+  const onSave = vi.fn<(row: Record<string, unknown>) => void>();
+  render(
+    <WhatIfPanel
+      bundle={bundle}
+      row={cohort[0]}
+      rowIndex={0}
+      cohort={cohort}
+      settings={settings}
+      baseline={predictPatient(bundle, cohort[0], 0, settings)}
+      onPredictionChange={onPredictionChange}
+      onSave={onSave}
+    />
+  );
+  return { onPredictionChange, onSave };
+}
+
+describe("WhatIfPanel", () => {
+  it("predicts the edited scenario and saves it to the row", () => {
+    const { onPredictionChange, onSave } = renderPanel();
+    fireEvent.change(screen.getByLabelText("age"), { target: { value: "70" } });
+
+    const last = onPredictionChange.mock.calls[onPredictionChange.mock.calls.length - 1][0];
+    expect(last?.riskScore).toBeCloseTo(0.6, 10);
+    expect(screen.getByText("1 feature(s) changed")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: /save to data/i }));
+    expect(onSave).toHaveBeenCalledWith({ age: 70, sex: 0 });
+  });
+
+  it("drops an override set back to the patient's value", () => {
+    const { onSave } = renderPanel();
+    fireEvent.change(screen.getByLabelText("age"), { target: { value: "70" } });
+    fireEvent.change(screen.getByLabelText("age"), { target: { value: "50" } });
+    expect(screen.queryByText(/feature\(s\) changed/)).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /save to data/i })).toBeDisabled();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it("offers categorical features as a choice of their levels", () => {
+    const { onSave } = renderPanel();
+    expect(screen.getAllByRole("slider")).toHaveLength(1);
+    fireEvent.keyDown(screen.getByRole("combobox", { name: "sex" }), { key: "Enter" });
+    expect(screen.getAllByRole("option").map(option => option.textContent)).toEqual(["0", "1"]);
+
+    fireEvent.click(screen.getByRole("option", { name: "1" }));
+    fireEvent.click(screen.getByRole("button", { name: /save to data/i }));
+    expect(onSave).toHaveBeenCalledWith({ age: 50, sex: 1 });
+  });
+});
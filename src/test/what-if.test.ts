@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { parseModelBundle } from "@/lib/model-bundle";
+import type { PredictionSettings } from "@/lib/prediction";
+import { matchLevel, whatIfControls } from "@/lib/what-if";
+
+const bundle = parseModelBundle({
+  features: ["age", "stage", "sex", "EGFR_pTPM"],
+  feature_medians: { age: 60, stage: 2, sex: 0, EGFR_pTPM: 1 },
+  feature_schema: { sex: { type: "categorical", levels: ["F", "M"] } },
+  event_times: [365],
+  trees: [{
+    children_left: [-1],
+    children_right: [-1],
+    feature: [-2],
+    threshold: [-2],
+    chf: [[0.2]],
+    survival: [[0.8]],
+  }],
+});
+
+const settings: PredictionSettings = { rawPtpm: true, mapping: null, idColumn: null, timepoints: [1] };
+
+const byFeature = (cohort: Record<string, unknown>[], overrides: Partial<PredictionSettings> = {}) =>
+  new Map(whatIfControls(bundle, cohort, { ...settings, ...overrides }).map(c => [c.feature, c]));
+
+describe("what-if controls", () => {
+  it("spans the cohort's values and steps whole-number features by one", () => {
+    const controls = byFeature([
+      { age: 41.5, stage: 1, EGFR_pTPM: "12" },
+      { age: 77.25, stage: 4, EGFR_pTPM: 30.5 },
+      { age: "", stage: null, EGFR_pTPM: "n/a" },
+    ]);
+    expect(controls.get("age")).toMatchObject({ min: 41.5, max: 77.25, step: (77.25 - 41.5) / 100, levels: null });
+    expect(controls.get("stage")).toMatchObject({ min: 1, max: 4, step: 1 });
+    expect(controls.get("EGFR_pTPM")).toMatchObject({ min: 12, max: 30.5 });
+  });
+
+  it("handles cohorts too large to spread into Math.min", () => {
+    const cohort = Array.from({ length: 200_000 }, (_, i) => ({ age: i % 90 }));
+    expect(byFeature(cohort).get("age")).toMatchObject({ min: 0, max: 89 });
+  });
+
+  it("widens constant and empty columns", () => {
+    const controls = byFeature([{ age: 50, stage: 3 }, { age: 50, stage: 3 }]);
+    expect(controls.get("age")).toMatchObject({ min: 0, max: 100 });
+    expect(controls.get("stage")).toMatchObject({ min: 0, max: 6, step: 1 });
+    expect(controls.get("EGFR_pTPM")).toMatchObject({ min: 0, max: 1, step: 0.01 });
+  });
+
+  it("offers the schema levels of categorical features", () => {
+    expect(byFeature([{ sex: "F" }]).get("sex")?.levels).toEqual(["F", "M"]);
+  });
+
+  it("follows the column mapping", () => {
+    const controls = byFeature([{ Age_years: 30 }, { Age_years: 70 }], { mapping: { age: "Age_years", stage: null } });
+    expect(controls.get("age")).toMatchObject({ column: "Age_years", min: 30, max: 70 });
+    expect(controls.get("stage")?.column).toBeNull();
+  });
+
+  it("matches cell values to levels regardless of case and padding", () => {
+    expect(matchLevel(["F", "M"], " m ")).toBe("M");
+    expect(matchLevel([0, 1], "1")).toBe(1);
+    expect(matchLevel(["F", "M"], "X")).toBeNull();
+    expect(matchLevel(["F", "M"], "")).toBeNull();
+  });
+});
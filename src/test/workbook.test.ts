@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  defaultSheetOptions,
+  detectFooterRows,
+  detectHeaderRow,
+  inspectWorkbook,
+  needsSheetSelection,
+  readWorkbook,
+  sheetToTable,
+} from "@/lib/workbook";
+
+// Round-trip through an .xlsx buffer, as an upload would arrive
+function workbookFrom(sheets: Record<string, { rows: unknown[][]; merges?: XLSX.Range[] }>): XLSX.WorkBook {
+  const book = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, { rows, merges }]) => {
+    const sheet = XLSX.utils.aoa_to_sheet(rows, { cellDates: true });
+    if (merges) sheet["!merges"] = merges;
+    XLSX.utils.book_append_sheet(book, sheet, name);
+  });
+  const buffer = XLSX.write(book, { type: "array", bookType: "xlsx", cellDates: true }) as ArrayBuffer;
+  return readWorkbook(buffer);
+}
+
+const cohort = [
+  ["LUAD proteomics cohort, batch 3"],
+  [],
+  ["Patient", "Diagnosed", "Stage", "EGFR_pTPM"],
+  ["P1", new Date(2019, 2, 14), "IIA", 12.5],
+  ["P2", new Date(2020, 10, 2), "IIIB", 4],
+  ["P3", null, "IA", "NA"],
+  ["Mean", null, null, 8.25],
+  ["Note: pTPM values were normalised per batch before export"],
+];
+
+describe("workbook import", () => {
+  it("detects title rows above the header and footnote rows below the data", () => {
+    const [sheet] = inspectWorkbook(workbookFrom({ Cohort: { rows: cohort } }));
+    expect(sheet.headerRow).toBe(2);
+    expect(sheet.footerRows).toBe(2);
+    expect(sheet.rowCount).toBe(8);
+    expect(needsSheetSelection([sheet])).toBe(true);
+    expect(defaultSheetOptions([sheet])).toEqual({ sheet: "Cohort", headerRow: 2, footerRows: 2 });
+  });
+
+  it("reads the selected rows with ISO dates and typed columns", () => {
+    const table = sheetToTable(workbookFrom({ Cohort: { rows: cohort } }), { sheet: "Cohort", headerRow: 2, footerRows: 2 });
+    expect(table.columns).toEqual(["Patient", "Diagnosed", "Stage", "EGFR_pTPM"]);
+    expect(table.rows).toEqual([
+      { Patient: "P1", Diagnosed: "2019-03-14", Stage: "IIA", EGFR_pTPM: 12.5 },
+      { Patient: "P2", Diagnosed: "2020-11-02", Stage: "IIIB", EGFR_pTPM: 4 },
+      { Patient: "P3", Diagnosed: null, Stage: "IA", EGFR_pTPM: null },
+    ]);
+    expect(table.columnTypes).toEqual({ Patient: "string", Diagnosed: "string", Stage: "string", EGFR_pTPM: "number" });
+    expect(() => sheetToTable(workbookFrom({ Cohort: { rows: cohort } }), { sheet: "Other", headerRow: 0, footerRows: 0 }))
+      .toThrow(/not found/);
+  });
+
+  it("fills merged cells into every row and column they span", () => {
+    const rows = [
+      ["Patient", "Arm", "Visit", "CA125"],
+      ["P1", "Control", 1, 30],
+      [null, null, 2, 28],
+      ["P2", "Treated", 1, 41],
+    ];
+    const book = workbookFrom({
+      Visits: {
+        rows,
+        merges: [
+          { s: { r: 1, c: 0 }, e: { r: 2, c: 0 } },
+          { s: { r: 1, c: 1 }, e: { r: 2, c: 1 } },
+        ],
+      },
+    });
+    const table = sheetToTable(book, { sheet: "Visits", headerRow: 0, footerRows: 0 });
+    expect(table.rows.map(r => [r.Patient, r.Arm, r.Visit])).toEqual([
+      ["P1", "Control", 1],
+      ["P1", "Control", 2],
+      ["P2", "Treated", 1],
+    ]);
+  });
+
+  it("detects headers and footers from cell values", () => {
+    expect(detectHeaderRow([["Title"], ["a", "b", "c"], [1, 2, 3]])).toBe(1);
+    // Duplicate labels or numbers do not make a header
+    expect(detectHeaderRow([["x", "x", "y"], [1, 2, 3]])).toBe(0);
+    expect(detectFooterRows([["a", 1, 2], ["Total", 3, null], [null, null, null]], 3)).toBe(2);
+    expect(detectFooterRows([["a", 1, 2], ["b", 3, 4]], 3)).toBe(0);
+  });
+});
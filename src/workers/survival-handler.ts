@@ -0,0 +1,213 @@
+import type { WorkBook } from 'xlsx';
+import type { ModelBundle } from '@/lib/model-bundle';
+import { readUploadedFile, isSpreadsheetFile } from '@/lib/survival-utils';
+import { readWorkbook, inspectWorkbook, sheetToTable } from '@/lib/workbook';
+import { predictPatient, type PatientResult } from '@/lib/prediction';
+import { mulberry32, summarizeConcordance } from '@/lib/survival-metrics';
+import {
+  createPermutationContext,
+  modelInputMatrix,
+  partialDependence,
+  permuteFeature,
+  type FeatureImportance
+} from '@/lib/inspection';
+import { explainPrediction } from '@/lib/attribution';
+import { drawPatientReport } from '@/lib/clinical-report';
+import { PdfDocument } from '@/lib/pdf';
+import { computeDrift } from '@/lib/drift';
+import { evaluatePredictions } from '@/lib/evaluation';
+import { PREDICTION_CHUNK_SIZE, type WorkerRequest, type WorkerResponse } from '@/lib/survival-worker';
+
+/**
+ * Message handling of the survival worker, separate from the worker global
+ * so it can be driven directly.
+ *
+ * Jobs run concurrently with later messages: each job reads the model once
+ * when it starts, so a `setModel` arriving mid-job only affects later jobs.
+ * Cancels are honoured between chunks and ignored for jobs that are not running.
+ */
+export function createRequestHandler(post: (response: WorkerResponse) => void): (request: WorkerRequest) => Promise<void> {
+  let model: ModelBundle | null = null;
+  // The last uploaded workbook stays here so sheets can be re-read without another transfer
+  let workbook: WorkBook | null = null;
+  const running = new Set<number>();
+  const cancelled = new Set<number>();
+
+  // Yield to the event loop so cancel messages are received between chunks
+  const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  // Returns true (and acknowledges) when the job was cancelled while waiting
+  function takeCancelled(id: number): boolean {
+    if (!cancelled.has(id)) return false;
+    cancelled.delete(id);
+    post({ type: 'cancelled', id });
+    return true;
+  }
+
+  function requireModel(): ModelBundle {
+    if (!model) throw new Error('No model bundle loaded');
+    return model;
+  }
+
+  async function runPrediction(request: Extract<WorkerRequest, { type: 'predict' }>) {
+    const bundle = requireModel();
+    const { id, rows, settings } = request;
+
+    for (let start = 0; start < rows.length; start += PREDICTION_CHUNK_SIZE) {
+      await yieldToEventLoop();
+      if (takeCancelled(id)) return;
+      const end = Math.min(start + PREDICTION_CHUNK_SIZE, rows.length);
+      const results: PatientResult[] = [];
+      for (let i = start; i < end; i++) {
+        results.push(predictPatient(bundle, rows[i], i, settings));
+      }
+      post({ type: 'chunk', id, results, done: end, total: rows.length });
+    }
+    post({ type: 'complete', id });
+  }
+
+  async function runImportance(request: Extract<WorkerRequest, { type: 'importance' }>) {
+    const bundle = requireModel();
+    const { id, rows, settings, outcomes, repeats, seed } = request;
+    const X = modelInputMatrix(bundle, rows, settings);
+    const context = createPermutationContext(bundle, X, outcomes);
+    const random = mulberry32(seed);
+    const features: FeatureImportance[] = [];
+
+    for (let f = 0; f < bundle.featureCount; f++) {
+      await yieldToEventLoop();
+      if (takeCancelled(id)) return;
+      features.push(permuteFeature(context, f, repeats, random));
+      post({ type: 'progress', id, done: f + 1, total: bundle.featureCount });
+    }
+    features.sort((a, b) => b.importance - a.importance);
+    post({
+      type: 'importance',
+      id,
+      result: { metric: context.metric, baseline: context.baselineScore, repeats, features }
+    });
+  }
+
+  async function runDependence(request: Extract<WorkerRequest, { type: 'dependence' }>) {
+    const bundle = requireModel();
+    const { id, rows, settings, feature, options } = request;
+    const featureIndex = bundle.features.indexOf(feature);
+    if (featureIndex === -1) throw new Error(`Unknown feature: ${feature}`);
+    // A newer request may have superseded this one while it was queued
+    await yieldToEventLoop();
+    if (takeCancelled(id)) return;
+    const X = modelInputMatrix(bundle, rows, settings);
+    post({ type: 'dependence', id, result: partialDependence(bundle, X, featureIndex, options) });
+  }
+
+  async function runReport(request: Extract<WorkerRequest, { type: 'report' }>) {
+    const bundle = requireModel();
+    const { id, patients, context } = request;
+    const pdfs: Uint8Array[] = [];
+
+    for (let i = 0; i < patients.length; i++) {
+      await yieldToEventLoop();
+      if (takeCancelled(id)) return;
+      const patient = patients[i];
+      const pdf = new PdfDocument(`Survival report ${patient.result.patientId}`);
+      const attribution = explainPrediction(bundle, patient.row, context.settings.rawPtpm, context.settings.mapping);
+      drawPatientReport(pdf, bundle, patient, attribution, context);
+      pdfs.push(pdf.output());
+      post({ type: 'progress', id, done: i + 1, total: patients.length });
+    }
+    post({ type: 'report', id, pdfs });
+  }
+
+  async function runConcordance(request: Extract<WorkerRequest, { type: 'concordance' }>) {
+    // Outcomes change with every edit; only the latest request needs an answer
+    await yieldToEventLoop();
+    if (takeCancelled(request.id)) return;
+    post({ type: 'concordance', id: request.id, result: summarizeConcordance(request.data) });
+  }
+
+  async function runEvaluation(request: Extract<WorkerRequest, { type: 'evaluation' }>) {
+    await yieldToEventLoop();
+    if (takeCancelled(request.id)) return;
+    const { id, samples, timepoints, binCounts } = request;
+    post({ type: 'evaluation', id, result: evaluatePredictions(samples, timepoints, binCounts) });
+  }
+
+  async function runDrift(request: Extract<WorkerRequest, { type: 'drift' }>) {
+    const bundle = requireModel();
+    await yieldToEventLoop();
+    if (takeCancelled(request.id)) return;
+    post({ type: 'drift', id: request.id, result: computeDrift(request.rows, bundle, request.mapping, request.rawPtpm) });
+  }
+
+  async function handleRequest(request: WorkerRequest) {
+    switch (request.type) {
+      case 'parseFile': {
+        if (isSpreadsheetFile(request.file)) {
+          workbook = readWorkbook(await request.file.arrayBuffer());
+          post({ type: 'parsed', id: request.id, result: { kind: 'workbook', sheets: inspectWorkbook(workbook) } });
+        } else {
+          workbook = null;
+          post({ type: 'parsed', id: request.id, result: { kind: 'table', table: await readUploadedFile(request.file) } });
+        }
+        break;
+      }
+      case 'readSheet': {
+        if (!workbook) throw new Error('No workbook loaded');
+        post({ type: 'sheet', id: request.id, table: sheetToTable(workbook, request.options) });
+        break;
+      }
+      case 'setModel': {
+        model = request.bundle;
+        post({ type: 'modelSet', id: request.id });
+        break;
+      }
+      case 'predict': {
+        await runPrediction(request);
+        break;
+      }
+      case 'importance': {
+        await runImportance(request);
+        break;
+      }
+      case 'dependence': {
+        await runDependence(request);
+        break;
+      }
+      case 'report': {
+        await runReport(request);
+        break;
+      }
+      case 'concordance': {
+        await runConcordance(request);
+        break;
+      }
+      case 'evaluation': {
+        await runEvaluation(request);
+        break;
+      }
+      case 'drift': {
+        await runDrift(request);
+        break;
+      }
+      case 'cancel': {
+        if (running.has(request.id)) cancelled.add(request.id);
+        break;
+      }
+    }
+  }
+
+  return async (request: WorkerRequest) => {
+    const isJob = request.type !== 'cancel';
+    if (isJob) running.add(request.id);
+    try {
+      await handleRequest(request);
+    } catch (error) {
+      post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (isJob) {
+        running.delete(request.id);
+        cancelled.delete(request.id);
+      }
+    }
+  };
+}
@@ -0,0 +1,10 @@
+import { createRequestHandler } from '@/workers/survival-handler';
+import type { WorkerRequest } from '@/lib/survival-worker';
+
+const ctx = self as unknown as Worker;
+
+const handleRequest = createRequestHandler(response => ctx.postMessage(response));
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handleRequest(event.data);
+};